@@ -0,0 +1,22 @@
+import type { ImportRecord, ModuleInfo } from '../types/index.js';
+import { importsOnly, lineAt, stripComments } from './text.js';
+
+const INCLUDE_DIRECTIVE = /^[ \t]*#[ \t]*include[ \t]*(<[^>\n]+>|"[^"\n]+")/gm;
+
+/**
+ * Extracts C and C++ `#include` directives. Quoted includes keep their
+ * bare path; angle-bracket includes keep the brackets (`<stdio.h>`) so
+ * resolution can search the include path first and otherwise treat them
+ * as system headers.
+ */
+export function extractCModule(content: string): ModuleInfo {
+  const code = stripComments(content, 'c');
+  const imports: ImportRecord[] = [];
+
+  for (const match of code.matchAll(INCLUDE_DIRECTIVE)) {
+    const header = match[1];
+    const source = header.startsWith('"') ? header.slice(1, -1) : header;
+    imports.push({ source, names: ['*'], kind: 'static', line: lineAt(code, match.index!) });
+  }
+  return importsOnly(imports);
+}
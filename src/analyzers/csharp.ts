@@ -0,0 +1,31 @@
+import type { ImportRecord, ModuleInfo } from '../types/index.js';
+import { importsOnly, lineAt, stripComments } from './text.js';
+
+// `using A.B;`, `global using A.B;`, `using static A.B.C;`, `using X = A.B.C;`
+const USING_DIRECTIVE = /^[ \t]*(?:global[ \t]+)?using[ \t]+(static[ \t]+)?(?:(\w+)[ \t]*=[ \t]*)?([\w.]+)[ \t]*;/gm;
+// Block-scoped `namespace A.B {` and file-scoped `namespace A.B;`
+const NAMESPACE_DECLARATION = /^[ \t]*namespace[ \t]+([\w.]+)/gm;
+
+/**
+ * Extracts C# `using` directives and the namespaces the file declares.
+ * A plain `using` brings in a whole namespace (`*`); an alias or
+ * `using static` names a single type.
+ */
+export function extractCSharpModule(content: string): ModuleInfo {
+  const code = stripComments(content, 'c');
+  const imports: ImportRecord[] = [];
+
+  for (const match of code.matchAll(USING_DIRECTIVE)) {
+    const [, isStatic, alias, path] = match;
+    const line = lineAt(code, match.index!);
+    if (!isStatic && !alias) {
+      imports.push({ source: path, names: ['*'], kind: 'static', line });
+      continue;
+    }
+    const name = path.slice(path.lastIndexOf('.') + 1);
+    imports.push({ source: path, names: [name], locals: [alias ?? name], kind: 'static', line });
+  }
+
+  const namespaces = [...new Set(Array.from(code.matchAll(NAMESPACE_DECLARATION), m => m[1]))];
+  return importsOnly(imports, namespaces);
+}
@@ -0,0 +1,48 @@
+import type { EntrySignal } from '../types/index.js';
+
+const PYTHON_MAIN_GUARD = /^if\s+__name__\s*==\s*(['"])__main__\1\s*:/m;
+
+const GO_MAIN_PACKAGE = /^package\s+main\b/m;
+const GO_MAIN_FUNC = /^func\s+main\s*\(\s*\)/m;
+
+const RUST_MAIN = /^(?:#\[[^\]]+\]\s*)*(?:async\s+)?fn\s+main\s*\(/m;
+const JVM_MAIN = /\bpublic\s+static\s+void\s+main\s*\(|^fun\s+main\s*\(/m;
+
+// `app.get('/users', ...)`, `router.post("/", ...)`, `fastify.route({ url: '/x' })`
+const ROUTE_REGISTRATION = /\b(?:app|router|server|fastify|api|routes?)\.(?:get|post|put|patch|delete|all|head|options)\(\s*['"`]\//g;
+const FASTIFY_ROUTE = /\b(?:fastify|server|app)\.route\(\s*\{/g;
+
+// Block and whole-line comments, so documented examples are not counted as routes
+const JS_COMMENTS = /\/\*[\s\S]*?\*\/|^\s*\/\/.*$/gm;
+
+/**
+ * Entry points a file declares in its own source: Python's `__main__`
+ * guard, Go's `package main` with a `main` function, `main` functions in
+ * Rust, Java and Kotlin, and HTTP route registrations in Express or
+ * Fastify style. Plain pattern matching, so it also works for languages
+ * without a full extractor.
+ */
+export function extractEntrySignals(content: string, language: string): EntrySignal[] {
+  switch (language) {
+    case 'python':
+      return PYTHON_MAIN_GUARD.test(content) ? [{ kind: 'main', source: `__main__ guard` }] : [];
+    case 'go':
+      return GO_MAIN_PACKAGE.test(content) && GO_MAIN_FUNC.test(content)
+        ? [{ kind: 'main', source: 'package main' }]
+        : [];
+    case 'rust':
+      return RUST_MAIN.test(content) ? [{ kind: 'main', source: 'fn main' }] : [];
+    case 'java':
+    case 'kotlin':
+      return JVM_MAIN.test(content) ? [{ kind: 'main', source: 'static main' }] : [];
+    case 'typescript':
+    case 'javascript': {
+      const code = content.replace(JS_COMMENTS, '');
+      const routes = (code.match(ROUTE_REGISTRATION)?.length ?? 0) + (code.match(FASTIFY_ROUTE)?.length ?? 0);
+      if (routes === 0) return [];
+      return [{ kind: 'route', source: routes === 1 ? '1 route registration' : `${routes} route registrations` }];
+    }
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,38 @@
+import type { ImportRecord, ModuleInfo } from '../types/index.js';
+import { importsOnly, lineAt, stripComments } from './text.js';
+
+const SINGLE_IMPORT = /^[ \t]*import[ \t]+(?:([\w.]+)[ \t]+)?"([^"]+)"/gm;
+const IMPORT_BLOCK = /^[ \t]*import[ \t]*\(([^)]*)\)/gm;
+const BLOCK_ENTRY = /^[ \t]*(?:([\w.]+)[ \t]+)?"([^"]+)"/gm;
+
+/**
+ * Extracts Go imports, single or grouped, with their aliases. An import
+ * names a package (a directory), so each binds the whole package: the
+ * local name is the alias or the last path segment. Blank (`_`) and dot
+ * imports bind nothing.
+ */
+export function extractGoModule(content: string): ModuleInfo {
+  const code = stripComments(content, 'c');
+  const imports: ImportRecord[] = [];
+  const add = (alias: string | undefined, source: string, line: number) => {
+    const local = alias ?? source.split('/').pop()!;
+    imports.push({
+      source,
+      names: ['*'],
+      locals: alias === '_' || alias === '.' ? undefined : [local],
+      kind: 'static',
+      line,
+    });
+  };
+
+  for (const match of code.matchAll(SINGLE_IMPORT)) {
+    add(match[1], match[2], lineAt(code, match.index!));
+  }
+  for (const block of code.matchAll(IMPORT_BLOCK)) {
+    const start = block.index! + block[0].indexOf('(') + 1;
+    for (const entry of block[1].matchAll(BLOCK_ENTRY)) {
+      add(entry[1], entry[2], lineAt(code, start + entry.index!));
+    }
+  }
+  return importsOnly(imports.sort((a, b) => a.line - b.line));
+}
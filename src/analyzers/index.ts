@@ -0,0 +1,105 @@
+import path from 'node:path';
+import type { ModuleInfo } from '../types/index.js';
+import { extractTypeScriptModule } from './typescript.js';
+import { extractPythonModule } from './python.js';
+import { extractGoModule } from './go.js';
+import { extractRustModule } from './rust.js';
+import { extractJvmModule } from './jvm.js';
+import { extractCSharpModule } from './csharp.js';
+import { extractPhpModule } from './php.js';
+import { extractRubyModule } from './ruby.js';
+import { extractCModule } from './c.js';
+import { extractComponentModule } from './sfc.js';
+import { extractShellModule, extractTerraformModule, extractProtobufModule } from './scripts.js';
+import { extractEntrySignals } from './entrySignals.js';
+
+export { extractTypeScriptModule } from './typescript.js';
+export { extractPythonModule } from './python.js';
+export { extractEntrySignals } from './entrySignals.js';
+
+const LANGUAGES: Record<string, string> = {
+  '.ts': 'typescript',
+  '.tsx': 'typescript',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.vue': 'vue',
+  '.svelte': 'svelte',
+  '.py': 'python',
+  '.java': 'java',
+  '.kt': 'kotlin',
+  '.kts': 'kotlin',
+  '.go': 'go',
+  '.rs': 'rust',
+  '.c': 'c',
+  '.h': 'c',
+  '.cpp': 'cpp',
+  '.cc': 'cpp',
+  '.cxx': 'cpp',
+  '.hpp': 'cpp',
+  '.hh': 'cpp',
+  '.hxx': 'cpp',
+  '.cs': 'csharp',
+  '.rb': 'ruby',
+  '.php': 'php',
+  '.swift': 'swift',
+  '.sh': 'shell',
+  '.bash': 'shell',
+  '.zsh': 'shell',
+  '.sql': 'sql',
+  '.tf': 'terraform',
+  '.proto': 'protobuf',
+};
+
+/** Language of a file by its extension, or undefined for files that are not source code */
+export function languageOf(filePath: string): string | undefined {
+  return LANGUAGES[path.extname(filePath).toLowerCase()];
+}
+
+/**
+ * Imports, exports and symbols of one source file, or empty lists for
+ * languages without an extractor, plus the entry points it declares.
+ */
+export function extractModuleInfo(content: string, language: string, filePath: string): ModuleInfo {
+  return { ...extractSymbols(content, language, filePath), entrySignals: extractEntrySignals(content, language) };
+}
+
+function extractSymbols(content: string, language: string, filePath: string): ModuleInfo {
+  switch (language) {
+    case 'typescript':
+    case 'javascript':
+      return extractTypeScriptModule(content, filePath);
+    case 'vue':
+    case 'svelte':
+      return extractComponentModule(content, filePath);
+    case 'python':
+      return extractPythonModule(content);
+    case 'go':
+      return extractGoModule(content);
+    case 'rust':
+      return extractRustModule(content);
+    case 'java':
+    case 'kotlin':
+      return extractJvmModule(content);
+    case 'csharp':
+      return extractCSharpModule(content);
+    case 'php':
+      return extractPhpModule(content);
+    case 'ruby':
+      return extractRubyModule(content);
+    case 'c':
+    case 'cpp':
+      return extractCModule(content);
+    case 'shell':
+      return extractShellModule(content);
+    case 'terraform':
+      return extractTerraformModule(content);
+    case 'protobuf':
+      return extractProtobufModule(content);
+    default:
+      return { imports: [], exports: [], definitions: [], usages: [] };
+  }
+}
@@ -0,0 +1,38 @@
+import type { ImportRecord, ModuleInfo } from '../types/index.js';
+import { importsOnly, lineAt, stripComments } from './text.js';
+
+const PACKAGE_DECLARATION = /^[ \t]*package[ \t]+([\w.]+)/m;
+// `import a.b.C;`, `import static a.b.C.member;`, `import a.b.*`, Kotlin `import a.b.C as D`
+const IMPORT_DECLARATION = /^[ \t]*import[ \t]+(static[ \t]+)?(\w+(?:\.\w+)*)(\.\*)?(?:[ \t]+as[ \t]+(\w+))?[ \t]*;?/gm;
+
+/**
+ * Extracts Java and Kotlin imports and the package the file declares.
+ * A class import's source is the fully qualified class name; a wildcard
+ * import's source is the package, with `*` as the name. Static imports
+ * name a member, so their source is the class that owns it.
+ */
+export function extractJvmModule(content: string): ModuleInfo {
+  const code = stripComments(content, 'c');
+  const imports: ImportRecord[] = [];
+
+  for (const match of code.matchAll(IMPORT_DECLARATION)) {
+    const [, isStatic, path, wildcard, alias] = match;
+    const line = lineAt(code, match.index!);
+    if (wildcard) {
+      imports.push({ source: path, names: ['*'], kind: 'static', line });
+      continue;
+    }
+    const dot = path.lastIndexOf('.');
+    const name = path.slice(dot + 1);
+    imports.push({
+      source: isStatic ? path.slice(0, dot) : path,
+      names: [name],
+      locals: [alias ?? name],
+      kind: 'static',
+      line,
+    });
+  }
+
+  const pkg = code.match(PACKAGE_DECLARATION)?.[1];
+  return importsOnly(imports, pkg ? [pkg] : undefined);
+}
@@ -0,0 +1,60 @@
+import type { ImportRecord, ModuleInfo } from '../types/index.js';
+import { importsOnly, lineAt, stripComments } from './text.js';
+
+const NAMESPACE_DECLARATION = /^[ \t]*namespace[ \t]+([\w\\]+)[ \t]*[;{]/gm;
+// `use A\B;`, `use A\B as C, D\E;`, `use function A\f;`, `use A\{B, C as D};`
+const USE_STATEMENT = /^[ \t]*use[ \t]+(?:(function|const)[ \t]+)?([^;]+);/gm;
+// `require_once __DIR__ . '/x.php';`, `include('x.php');`
+const REQUIRE_STATEMENT = /\b(?:require|include)(?:_once)?[ \t]*\(?[ \t]*(__DIR__[ \t]*\.[ \t]*)?(['"])([^'"]+)\2/g;
+
+/**
+ * Extracts PHP `use` imports (with group and alias forms), file
+ * inclusions via `require`/`include`, and the declared namespaces.
+ * `use` sources are fully qualified names without the leading
+ * backslash; inclusions are paths, made relative to the file when
+ * prefixed with `__DIR__`.
+ */
+export function extractPhpModule(content: string): ModuleInfo {
+  const code = stripComments(stripHashComments(content), 'c');
+  const imports: ImportRecord[] = [];
+
+  for (const match of code.matchAll(USE_STATEMENT)) {
+    const line = lineAt(code, match.index!);
+    // Trait uses inside a class body look the same but are indented and name no namespace
+    if (!match[0].includes('\\') && /^[ \t]+/.test(match[0])) continue;
+    for (const { path, alias } of expandUse(match[2].replace(/\s+/g, ' ').trim())) {
+      const fqn = path.replace(/^\\/, '');
+      const name = fqn.slice(fqn.lastIndexOf('\\') + 1);
+      imports.push({ source: fqn, names: [name], locals: [alias ?? name], kind: 'static', line });
+    }
+  }
+  for (const match of code.matchAll(REQUIRE_STATEMENT)) {
+    const path = match[3];
+    const source = match[1] && path.startsWith('/') ? `.${path}` : path;
+    imports.push({ source, names: ['*'], kind: 'require', line: lineAt(code, match.index!) });
+  }
+
+  const namespaces = [...new Set(Array.from(code.matchAll(NAMESPACE_DECLARATION), m => m[1]))];
+  return importsOnly(imports.sort((a, b) => a.line - b.line), namespaces);
+}
+
+function expandUse(clause: string): Array<{ path: string; alias?: string }> {
+  const brace = clause.indexOf('{');
+  const prefix = brace === -1 ? '' : clause.slice(0, brace).trim();
+  const body = brace === -1 ? clause : clause.slice(brace + 1, clause.lastIndexOf('}'));
+  return body
+    .split(',')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const [path, alias] = part.split(/\s+as\s+/i);
+      return { path: prefix + path.trim(), alias: alias?.trim() };
+    });
+}
+
+// PHP also allows `#` comments, but not `#[` attributes
+function stripHashComments(content: string): string {
+  return content.replace(/("(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*')|#(?!\[)[^\n]*/g, (comment, string) =>
+    string ?? comment.replace(/[^\n]/g, ' ')
+  );
+}
@@ -0,0 +1,241 @@
+import type { ExportRecord, ImportRecord, ModuleInfo, SymbolDefinition, SymbolUsage } from '../types/index.js';
+
+interface LogicalLine {
+  text: string;
+  line: number;
+  endLine: number;
+  indent: number;
+}
+
+interface OpenBlock {
+  indent: number;
+  definition?: SymbolDefinition;
+  qualified?: string;
+}
+
+const IMPORT = /^import\s+(.+)$/;
+const FROM_IMPORT = /^from\s+(\.*[\w.]*)\s+import\s+(.+)$/;
+const DYNAMIC_IMPORT = /\b(?:importlib\.import_module|__import__)\(\s*(['"])([\w.]+)\1/g;
+const TYPE_CHECKING_BLOCK = /^if\s+(?:typing\.)?TYPE_CHECKING\s*:/;
+const DEFINITION = /^(?:async\s+)?(def|class)\s+([A-Za-z_]\w*)/;
+const ASSIGNMENT = /^([A-Za-z_]\w*)\s*(?::[^=]+)?=(?!=)/;
+const DUNDER_ALL = /^__all__\s*(?::[^=]+)?=\s*[[(](.*)[\])]\s*$/s;
+const NAME = /(?<![\w.])(?:([A-Za-z_]\w*)\.)?([A-Za-z_]\w*)/g;
+
+/**
+ * Extracts imports, exports and symbols from Python source without a full
+ * parser. Source is first folded into logical lines (joining bracketed and
+ * backslash continuations, dropping comments and string bodies), so
+ * multi-line `from x import (...)` lists and docstrings mentioning
+ * "import" are handled. It never throws; unrecognised lines are skipped.
+ *
+ * Exports are the names in `__all__` when the module defines it, and
+ * otherwise its public top-level functions, classes and assignments.
+ * Definitions are top-level functions and classes plus methods directly
+ * inside those classes, each spanning its indented block.
+ */
+export function extractPythonModule(content: string): ModuleInfo {
+  const imports: ImportRecord[] = [];
+  const topLevel: ExportRecord[] = [];
+  const definitions: SymbolDefinition[] = [];
+  const usages: SymbolUsage[] = [];
+  const blocks: OpenBlock[] = [];
+  let declared: ExportRecord[] | undefined;
+  let typeCheckingIndent: number | undefined;
+  let lastLine = 0;
+
+  for (const { text, line, endLine, indent } of logicalLines(content)) {
+    // A line at or left of a block's indentation closes it
+    while (blocks.length > 0 && blocks[blocks.length - 1].indent >= indent) {
+      const closed = blocks.pop()!;
+      if (closed.definition) closed.definition.lineEnd = lastLine;
+    }
+    lastLine = endLine;
+    const caller = [...blocks].reverse().find(b => b.qualified)?.qualified;
+
+    if (typeCheckingIndent !== undefined && indent <= typeCheckingIndent) {
+      typeCheckingIndent = undefined;
+    }
+    if (TYPE_CHECKING_BLOCK.test(text)) {
+      typeCheckingIndent = indent;
+      continue;
+    }
+    const kind = typeCheckingIndent !== undefined ? 'type' : 'static';
+
+    const from = text.match(FROM_IMPORT);
+    if (from) {
+      const names = splitNames(from[2].replace(/[()]/g, ''));
+      imports.push({
+        source: from[1],
+        names: names.map(n => n.split(/\s+as\s+/)[0]),
+        locals: names.map(n => n.split(/\s+as\s+/).pop()!),
+        kind,
+        line,
+      });
+      continue;
+    }
+    const plain = text.match(IMPORT);
+    if (plain) {
+      for (const module of splitNames(plain[1])) {
+        const [source, alias] = module.split(/\s+as\s+/);
+        // `import a.b` binds `a`; `import a.b as c` binds `c`
+        imports.push({ source, names: ['*'], locals: [alias ?? source.split('.')[0]], kind, line });
+      }
+      continue;
+    }
+
+    const definition = text.match(DEFINITION);
+    const parent = blocks[blocks.length - 1];
+    if (definition) {
+      const name = definition[2];
+      const isClass = definition[1] === 'class';
+      const container = parent?.definition?.kind === 'class' ? parent.definition.name : undefined;
+      if (!parent || container) {
+        const symbol: SymbolDefinition = {
+          name,
+          kind: container ? 'method' : isClass ? 'class' : 'function',
+          container,
+          lineStart: line,
+          lineEnd: endLine,
+          exported: !container && !name.startsWith('_'),
+        };
+        definitions.push(symbol);
+        blocks.push({ indent, definition: symbol, qualified: container ? `${container}.${name}` : name });
+      } else {
+        blocks.push({ indent });
+      }
+    } else if (text.endsWith(':')) {
+      blocks.push({ indent });
+    }
+
+    // Names after the defined one: parameters' defaults, base classes, call arguments
+    const body = definition ? text.slice(definition.index! + definition[0].length) : text;
+    for (const match of body.matchAll(NAME)) {
+      const qualifier = match[1] === 'self' ? 'this' : match[1];
+      usages.push({ name: match[2], qualifier, line, caller: definition ? blocks[blocks.length - 1]?.qualified ?? caller : caller });
+    }
+
+    for (const match of text.matchAll(DYNAMIC_IMPORT)) {
+      imports.push({ source: match[2], names: ['*'], kind: 'dynamic', line });
+    }
+
+    if (indent > 0) continue;
+
+    const all = text.match(DUNDER_ALL);
+    if (all) {
+      declared = [...all[1].matchAll(/(['"])(\w+)\1/g)].map(m => ({ name: m[2], kind: 'named', line }));
+      continue;
+    }
+    if (definition && !definition[2].startsWith('_')) {
+      topLevel.push({ name: definition[2], kind: definition[1] === 'class' ? 'class' : 'function', line });
+      continue;
+    }
+    const assignment = text.match(ASSIGNMENT);
+    if (assignment && !assignment[1].startsWith('_')) {
+      topLevel.push({ name: assignment[1], kind: 'variable', line });
+    }
+  }
+
+  for (const block of blocks) {
+    if (block.definition) block.definition.lineEnd = lastLine;
+  }
+  if (declared) {
+    const names = new Set(declared.map(d => d.name));
+    for (const symbol of definitions) symbol.exported = !symbol.container && names.has(symbol.name);
+  }
+
+  // Keep only usages that can be tied to a definition later
+  const bound = new Set(imports.flatMap(i => i.locals ?? []));
+  const local = new Set(definitions.filter(d => !d.container).map(d => d.name));
+  const relevant = usages.filter(u =>
+    u.qualifier === undefined
+      ? bound.has(u.name) || local.has(u.name)
+      : (u.qualifier === 'this' && u.caller?.includes('.')) || bound.has(u.qualifier)
+  );
+
+  return { imports, exports: declared ?? topLevel, definitions, usages: relevant };
+}
+
+function splitNames(list: string): string[] {
+  return list.split(',').map(name => name.trim()).filter(Boolean);
+}
+
+/**
+ * Folds physical lines into logical ones the way the Python tokenizer
+ * does. String literals are kept as their quotes with the body removed so
+ * `__all__` entries and import-call arguments stay matchable, while
+ * docstrings can no longer contain anything that looks like code.
+ */
+function logicalLines(content: string): LogicalLine[] {
+  const lines: LogicalLine[] = [];
+  let text = '';
+  let startLine = 1;
+  let indent = 0;
+  let line = 1;
+  let depth = 0;
+  let atLineStart = true;
+
+  const flush = () => {
+    const trimmed = text.replace(/\s+/g, ' ').trim();
+    if (trimmed) lines.push({ text: trimmed, line: startLine, endLine: line, indent });
+    text = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (atLineStart) {
+      // Indentation is measured at the first physical line of a statement
+      let column = 0;
+      while (content[i] === ' ' || content[i] === '\t') {
+        column += content[i] === '\t' ? 8 - (column % 8) : 1;
+        i++;
+      }
+      indent = column;
+      startLine = line;
+      atLineStart = false;
+      i--;
+      continue;
+    }
+
+    if (char === '#') {
+      while (i + 1 < content.length && content[i + 1] !== '\n') i++;
+    } else if (char === '\\' && content[i + 1] === '\n') {
+      i++;
+      line++;
+      text += ' ';
+    } else if (char === '\n') {
+      if (depth > 0) {
+        text += ' ';
+      } else {
+        flush();
+        atLineStart = true;
+      }
+      line++;
+    } else if (char === '"' || char === "'") {
+      const quote = content.startsWith(char.repeat(3), i) ? char.repeat(3) : char;
+      let end = i + quote.length;
+      while (end < content.length && !content.startsWith(quote, end)) {
+        if (content[end] === '\\') end++;
+        else if (content[end] === '\n') {
+          // An unterminated single-quoted string ends at the line break
+          if (quote.length === 1) break;
+          line++;
+        }
+        end++;
+      }
+      const body = content.slice(i + quote.length, end);
+      // Short strings are kept; they may be module names or __all__ entries
+      text += quote.length === 1 && /^[\w.]*$/.test(body) ? `${char}${body}${char}` : `${char}${char}`;
+      i = Math.min(end + quote.length - 1, content.length - 1);
+      if (content[end] === '\n') i = end - 1;
+    } else {
+      if (char === '(' || char === '[' || char === '{') depth++;
+      else if ((char === ')' || char === ']' || char === '}') && depth > 0) depth--;
+      text += char;
+    }
+  }
+  flush();
+
+  return lines;
+}
@@ -0,0 +1,23 @@
+import type { ImportRecord, ModuleInfo } from '../types/index.js';
+import { importsOnly, lineAt, stripComments } from './text.js';
+
+// `require 'json'`, `require_relative "../lib/x"`, `load 'tasks.rb'`, with or without parentheses
+const REQUIRE_CALL = /^[ \t]*(require_relative|require|load)[ \t]*\(?[ \t]*(['"])([^'"]+)\2/gm;
+
+/**
+ * Extracts Ruby `require`, `require_relative` and `load` calls.
+ * `require_relative` paths are recorded with a leading `./` so they
+ * resolve against the requiring file; `require` names a gem, a stdlib
+ * module or a path on the load path.
+ */
+export function extractRubyModule(content: string): ModuleInfo {
+  const code = stripComments(content, 'hash');
+  const imports: ImportRecord[] = [];
+
+  for (const match of code.matchAll(REQUIRE_CALL)) {
+    const [, method, , path] = match;
+    const source = method === 'require_relative' && !path.startsWith('.') ? `./${path}` : path;
+    imports.push({ source, names: ['*'], kind: 'require', line: lineAt(code, match.index!) });
+  }
+  return importsOnly(imports);
+}
@@ -0,0 +1,73 @@
+import type { ImportRecord, ModuleInfo } from '../types/index.js';
+import { importsOnly, lineAt, stripComments } from './text.js';
+
+// `mod name;` declares a child module in its own file; `mod name { ... }` is inline
+const MOD_DECLARATION = /^[ \t]*(?:pub(?:\([^)]*\))?[ \t]+)?mod[ \t]+(\w+)[ \t]*;/gm;
+const USE_DECLARATION = /^[ \t]*(pub(?:\([^)]*\))?[ \t]+)?use[ \t]+([^;]+);/gm;
+const EXTERN_CRATE = /^[ \t]*extern[ \t]+crate[ \t]+(\w+)(?:[ \t]+as[ \t]+(\w+))?[ \t]*;/gm;
+
+/**
+ * Extracts Rust module dependencies: `mod name;` declarations (recorded
+ * as `self::name`, the path that names the same file), `use` trees
+ * expanded to one record per imported path, and `extern crate`.
+ * `pub use` is a re-export.
+ */
+export function extractRustModule(content: string): ModuleInfo {
+  const code = stripComments(content, 'c');
+  const imports: ImportRecord[] = [];
+
+  for (const match of code.matchAll(MOD_DECLARATION)) {
+    imports.push({ source: `self::${match[1]}`, names: ['*'], locals: [match[1]], kind: 'static', line: lineAt(code, match.index!) });
+  }
+  for (const match of code.matchAll(USE_DECLARATION)) {
+    const line = lineAt(code, match.index!);
+    const tree = match[2].replace(/\s+as\s+/g, '@').replace(/\s+/g, '');
+    for (const { path, alias } of expandUseTree(tree)) {
+      const segments = path.split('::');
+      const last = segments[segments.length - 1];
+      // `use a::b::{self}` imports the module `a::b` itself
+      const source = last === 'self' ? segments.slice(0, -1).join('::') : path;
+      const name = last === 'self' ? segments[segments.length - 2] : last;
+      imports.push({
+        source: name === '*' ? segments.slice(0, -1).join('::') : source,
+        names: [name],
+        locals: name === '*' ? undefined : [alias ?? name],
+        kind: match[1] ? 're-export' : 'static',
+        line,
+      });
+    }
+  }
+  for (const match of code.matchAll(EXTERN_CRATE)) {
+    imports.push({ source: match[1], names: ['*'], locals: [match[2] ?? match[1]], kind: 'static', line: lineAt(code, match.index!) });
+  }
+  return importsOnly(imports.sort((a, b) => a.line - b.line));
+}
+
+// `a::{b, c::{d@e, *}}` → a::b, a::c::d (as e), a::c::*; `@` stands in for ` as `
+function expandUseTree(tree: string, prefix = ''): Array<{ path: string; alias?: string }> {
+  const brace = tree.indexOf('{');
+  if (brace === -1) {
+    const [path, alias] = tree.split('@');
+    return path ? [{ path: prefix + path.replace(/::$/, ''), alias }] : [];
+  }
+  const head = prefix + tree.slice(0, brace);
+  const body = tree.slice(brace + 1, tree.lastIndexOf('}'));
+  return splitTopLevel(body).flatMap(part => expandUseTree(part, head));
+}
+
+// Splits on commas outside nested braces
+function splitTopLevel(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === '{') depth++;
+    else if (body[i] === '}') depth--;
+    else if (body[i] === ',' && depth === 0) {
+      parts.push(body.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(body.slice(start));
+  return parts.filter(Boolean);
+}
@@ -0,0 +1,39 @@
+import type { ImportRecord, ModuleInfo } from '../types/index.js';
+import { importsOnly, lineAt, stripComments } from './text.js';
+
+// `source ./lib.sh`, `. "$DIR/common.sh"`
+const SHELL_SOURCE = /^[ \t]*(?:source|\.)[ \t]+(['"]?)([^\s'";|&]+)\1/gm;
+// `source = "./modules/vpc"` inside a `module` block
+const TERRAFORM_MODULE = /^[ \t]*module[ \t]+"[^"]+"[ \t]*\{[^}]*?\bsource[ \t]*=[ \t]*"([^"]+)"/gm;
+const PROTO_IMPORT = /^[ \t]*import[ \t]+(?:(?:public|weak)[ \t]+)?"([^"]+)"[ \t]*;/gm;
+
+/** Files a shell script sources, as written, including any `$VAR/` prefix */
+export function extractShellModule(content: string): ModuleInfo {
+  const code = stripComments(content, 'hash');
+  const imports: ImportRecord[] = [];
+  for (const match of code.matchAll(SHELL_SOURCE)) {
+    imports.push({ source: match[2], names: ['*'], kind: 'require', line: lineAt(code, match.index!) });
+  }
+  return importsOnly(imports);
+}
+
+/** Terraform module sources: local directories or registry and git addresses */
+export function extractTerraformModule(content: string): ModuleInfo {
+  const code = stripComments(stripComments(content, 'hash'), 'c');
+  const imports: ImportRecord[] = [];
+  for (const match of code.matchAll(TERRAFORM_MODULE)) {
+    const line = lineAt(code, match.index! + match[0].lastIndexOf('source'));
+    imports.push({ source: match[1], names: ['*'], kind: 'static', line });
+  }
+  return importsOnly(imports);
+}
+
+/** Protocol buffer `import` statements, including `public` and `weak` */
+export function extractProtobufModule(content: string): ModuleInfo {
+  const code = stripComments(content, 'c');
+  const imports: ImportRecord[] = [];
+  for (const match of code.matchAll(PROTO_IMPORT)) {
+    imports.push({ source: match[1], names: ['*'], kind: 'static', line: lineAt(code, match.index!) });
+  }
+  return importsOnly(imports);
+}
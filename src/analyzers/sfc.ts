@@ -0,0 +1,30 @@
+import type { ModuleInfo } from '../types/index.js';
+import { extractTypeScriptModule } from './typescript.js';
+
+const SCRIPT_BLOCK = /<script\b([^>]*)>([\s\S]*?)<\/script>/gi;
+
+/**
+ * Extracts a Vue or Svelte single-file component by running the
+ * TypeScript extractor over its `<script>` blocks. Everything else is
+ * blanked line for line, so reported lines match the component file.
+ * `lang="ts"` picks TypeScript parsing, otherwise JavaScript.
+ */
+export function extractComponentModule(content: string, filePath: string): ModuleInfo {
+  let script = '';
+  let cursor = 0;
+  let typescript = false;
+
+  for (const match of content.matchAll(SCRIPT_BLOCK)) {
+    const bodyStart = match.index! + match[0].indexOf('>') + 1;
+    script += blank(content.slice(cursor, bodyStart)) + match[2];
+    cursor = bodyStart + match[2].length;
+    if (/\blang\s*=\s*["']ts["']/i.test(match[1])) typescript = true;
+  }
+  if (!script) return { imports: [], exports: [], definitions: [], usages: [] };
+
+  return extractTypeScriptModule(script, `${filePath}${typescript ? '.ts' : '.js'}`);
+}
+
+function blank(text: string): string {
+  return text.replace(/[^\n]/g, ' ');
+}
@@ -0,0 +1,34 @@
+import type { ImportRecord, ModuleInfo } from '../types/index.js';
+
+// Strings are matched first so comment markers inside them, like `"http://"`, are left alone
+const C_COMMENTS = /("(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*')|\/\/[^\n]*|\/\*[\s\S]*?\*\//g;
+const HASH_COMMENTS = /("(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*')|#[^\n]*/g;
+
+/**
+ * Blanks out comments while keeping every line break, so offsets into the
+ * result still map to the same lines of the original source. `c` covers
+ * `//` and `/* *\/`, `hash` covers `#`.
+ */
+export function stripComments(content: string, style: 'c' | 'hash'): string {
+  return content.replace(style === 'c' ? C_COMMENTS : HASH_COMMENTS, (comment, string) =>
+    string ?? comment.replace(/[^\n]/g, ' ')
+  );
+}
+
+/** 1-based line of a character offset */
+export function lineAt(content: string, index: number): number {
+  let line = 1;
+  for (let i = content.indexOf('\n'); i !== -1 && i < index; i = content.indexOf('\n', i + 1)) line++;
+  return line;
+}
+
+/** Module info for languages where only dependencies are extracted */
+export function importsOnly(imports: ImportRecord[], namespaces?: string[]): ModuleInfo {
+  return {
+    imports,
+    exports: [],
+    definitions: [],
+    usages: [],
+    ...(namespaces && namespaces.length > 0 ? { namespaces } : {}),
+  };
+}
@@ -0,0 +1,403 @@
+import ts from 'typescript';
+import type {
+  ExportKind,
+  ExportRecord,
+  ImportRecord,
+  ModuleInfo,
+  SymbolDefinition,
+  SymbolKind,
+  SymbolUsage,
+} from '../types/index.js';
+
+/**
+ * Extracts imports, exports and symbols from TypeScript or JavaScript
+ * source using the compiler's parser. Covers ES module syntax (including
+ * type-only and multi-line forms), `export * from`, dynamic `import()`,
+ * `require()`, `import x = require()` and CommonJS `module.exports`
+ * assignments. The parser recovers from syntax errors, so broken files
+ * still yield whatever could be read.
+ */
+export function extractTypeScriptModule(content: string, filePath: string): ModuleInfo {
+  const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, scriptKind(filePath));
+  const imports: ImportRecord[] = [];
+  const exports: ExportRecord[] = [];
+  const lineOf = (node: ts.Node) =>
+    sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const clause = statement.importClause;
+      imports.push({
+        source: statement.moduleSpecifier.text,
+        ...(clause ? importBindings(clause) : { names: [], locals: [] }),
+        kind: clause?.isTypeOnly ? 'type' : 'static',
+        line: lineOf(statement),
+      });
+    } else if (ts.isImportEqualsDeclaration(statement)) {
+      const reference = statement.moduleReference;
+      if (ts.isExternalModuleReference(reference) && ts.isStringLiteral(reference.expression)) {
+        imports.push({
+          source: reference.expression.text,
+          names: ['*'],
+          locals: [statement.name.text],
+          kind: statement.isTypeOnly ? 'type' : 'require',
+          line: lineOf(statement),
+        });
+      }
+      if (hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+        exports.push({ name: statement.name.text, kind: 'variable', line: lineOf(statement) });
+      }
+    } else if (ts.isExportDeclaration(statement)) {
+      exportDeclaration(statement, lineOf(statement), imports, exports);
+    } else if (ts.isExportAssignment(statement)) {
+      exports.push({ name: 'default', kind: 'default', line: lineOf(statement) });
+    } else if (hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+      exportedDeclaration(statement, lineOf(statement), exports);
+    }
+  }
+
+  // Calls and CommonJS assignments can appear anywhere, not just at the top level
+  const visit = (node: ts.Node): void => {
+    if (ts.isCallExpression(node)) {
+      const call = moduleCall(node);
+      if (call) imports.push({ ...call, line: lineOf(node) });
+    } else if (ts.isImportTypeNode(node)) {
+      const argument = node.argument;
+      if (ts.isLiteralTypeNode(argument) && ts.isStringLiteral(argument.literal)) {
+        imports.push({ source: argument.literal.text, names: [], kind: 'type', line: lineOf(node) });
+      }
+    } else if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+      const name = commonJsExportName(node.left);
+      if (name) exports.push({ name, kind: name === 'default' ? 'default' : 'named', line: lineOf(node) });
+    }
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(sourceFile, visit);
+
+  const { definitions, usages } = collectSymbols(sourceFile, exports, imports);
+  return { imports, exports, definitions, usages };
+}
+
+function scriptKind(filePath: string): ts.ScriptKind {
+  if (/\.tsx$/i.test(filePath)) return ts.ScriptKind.TSX;
+  if (/\.jsx$/i.test(filePath)) return ts.ScriptKind.JSX;
+  if (/\.[cm]?js$/i.test(filePath)) return ts.ScriptKind.JS;
+  return ts.ScriptKind.TS;
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node)?.some(m => m.kind === kind) ?? false);
+}
+
+function importBindings(clause: ts.ImportClause): { names: string[]; locals: string[] } {
+  const names: string[] = [];
+  const locals: string[] = [];
+  if (clause.name) {
+    names.push('default');
+    locals.push(clause.name.text);
+  }
+
+  const bindings = clause.namedBindings;
+  if (bindings && ts.isNamespaceImport(bindings)) {
+    names.push('*');
+    locals.push(bindings.name.text);
+  } else if (bindings) {
+    for (const element of bindings.elements) {
+      names.push((element.propertyName ?? element.name).text);
+      locals.push(element.name.text);
+    }
+  }
+  return { names, locals };
+}
+
+function exportDeclaration(
+  statement: ts.ExportDeclaration,
+  line: number,
+  imports: ImportRecord[],
+  exports: ExportRecord[]
+): void {
+  const source = statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+    ? statement.moduleSpecifier.text
+    : undefined;
+  const clause = statement.exportClause;
+
+  if (source) {
+    // `export ... from` both depends on and re-exposes the other module
+    const names = !clause
+      ? ['*']
+      : ts.isNamespaceExport(clause)
+        ? ['*']
+        : clause.elements.map(e => (e.propertyName ?? e.name).text);
+    imports.push({ source, names, kind: statement.isTypeOnly ? 'type' : 're-export', line });
+  }
+
+  const kind: ExportKind = source ? 're-export' : statement.isTypeOnly ? 'type' : 'named';
+  if (!clause) {
+    exports.push({ name: '*', kind, line, source });
+  } else if (ts.isNamespaceExport(clause)) {
+    exports.push({ name: clause.name.text, kind, line, source });
+  } else {
+    for (const element of clause.elements) {
+      exports.push({ name: element.name.text, kind, line, source });
+    }
+  }
+}
+
+function exportedDeclaration(statement: ts.Statement, line: number, exports: ExportRecord[]): void {
+  const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+  const add = (name: string | undefined, kind: ExportKind) => {
+    exports.push({ name: isDefault || !name ? 'default' : name, kind, line });
+  };
+
+  if (ts.isFunctionDeclaration(statement)) {
+    add(statement.name?.text, 'function');
+  } else if (ts.isClassDeclaration(statement)) {
+    add(statement.name?.text, 'class');
+  } else if (ts.isInterfaceDeclaration(statement)) {
+    add(statement.name.text, 'interface');
+  } else if (ts.isTypeAliasDeclaration(statement)) {
+    add(statement.name.text, 'type');
+  } else if (ts.isEnumDeclaration(statement)) {
+    add(statement.name.text, 'enum');
+  } else if (ts.isModuleDeclaration(statement)) {
+    add(statement.name.text, 'namespace');
+  } else if (ts.isVariableStatement(statement)) {
+    for (const declaration of statement.declarationList.declarations) {
+      for (const name of bindingNames(declaration.name)) {
+        add(name, 'variable');
+      }
+    }
+  }
+}
+
+function bindingNames(name: ts.BindingName): string[] {
+  if (ts.isIdentifier(name)) return [name.text];
+  return name.elements.flatMap(element =>
+    ts.isOmittedExpression(element) ? [] : bindingNames(element.name)
+  );
+}
+
+function moduleCall(node: ts.CallExpression): Omit<ImportRecord, 'line'> | undefined {
+  const [argument] = node.arguments;
+  if (!argument || !ts.isStringLiteralLike(argument)) return undefined;
+
+  if (node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+    return { source: argument.text, names: ['*'], kind: 'dynamic' };
+  }
+  if (ts.isIdentifier(node.expression) && node.expression.text === 'require') {
+    return { source: argument.text, ...requiredBindings(node), kind: 'require' };
+  }
+  return undefined;
+}
+
+// `const { a, b: c } = require('x')` imports a and b; anything else takes the whole module
+function requiredBindings(node: ts.CallExpression): { names: string[]; locals?: string[] } {
+  const parent = node.parent;
+  if (ts.isVariableDeclaration(parent) && ts.isObjectBindingPattern(parent.name)) {
+    const elements = parent.name.elements;
+    return {
+      names: elements.map(e => {
+        const property = e.propertyName;
+        return property && ts.isIdentifier(property) ? property.text : bindingNames(e.name)[0] ?? '*';
+      }),
+      locals: elements.map(e => bindingNames(e.name)[0] ?? ''),
+    };
+  }
+  if (ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) {
+    return { names: ['*'], locals: [parent.name.text] };
+  }
+  return { names: ['*'] };
+}
+
+// `module.exports = x` -> default, `module.exports.foo = x` / `exports.foo = x` -> foo
+function commonJsExportName(target: ts.Expression): string | undefined {
+  if (!ts.isPropertyAccessExpression(target)) return undefined;
+  const object = target.expression;
+  const property = target.name.text;
+
+  if (ts.isIdentifier(object) && object.text === 'module' && property === 'exports') {
+    return 'default';
+  }
+  if (ts.isIdentifier(object) && object.text === 'exports') {
+    return property;
+  }
+  if (
+    ts.isPropertyAccessExpression(object) &&
+    ts.isIdentifier(object.expression) &&
+    object.expression.text === 'module' &&
+    object.name.text === 'exports'
+  ) {
+    return property;
+  }
+  return undefined;
+}
+
+/**
+ * Collects top-level functions, classes and their methods, interfaces,
+ * type aliases, enums and React components, plus the usages that could
+ * refer to them: unqualified names bound by an import or a top-level
+ * definition, `this.member` inside classes and `ns.member` on imported
+ * namespaces. Other identifiers cannot be tied to a definition without
+ * type information and are dropped.
+ */
+function collectSymbols(
+  sourceFile: ts.SourceFile,
+  exports: ExportRecord[],
+  imports: ImportRecord[]
+): { definitions: SymbolDefinition[]; usages: SymbolUsage[] } {
+  const definitions: SymbolDefinition[] = [];
+  const usages: SymbolUsage[] = [];
+  const lineAt = (position: number) => sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+  const exportedNames = new Set(exports.filter(e => e.kind === 'named' || e.kind === 'type').map(e => e.name));
+  const jsx = /\.[jt]sx$/i.test(sourceFile.fileName);
+
+  const define = (node: ts.Node, name: string, kind: SymbolKind, exported: boolean, container?: string) => {
+    definitions.push({
+      name,
+      kind,
+      container,
+      lineStart: lineAt(node.getStart(sourceFile)),
+      lineEnd: lineAt(node.getEnd()),
+      exported: exported || exportedNames.has(name),
+    });
+    return container ? `${container}.${name}` : name;
+  };
+
+  // Returns the qualified name when `node` defines a symbol
+  const definitionOf = (node: ts.Node): string | undefined => {
+    const topLevel = node.parent === sourceFile;
+    const exported = hasModifier(node, ts.SyntaxKind.ExportKeyword);
+
+    if (topLevel && ts.isFunctionDeclaration(node)) {
+      const name = node.name?.text ?? 'default';
+      return define(node, name, isComponent(name, node, jsx) ? 'component' : 'function', exported);
+    }
+    if (topLevel && ts.isClassDeclaration(node)) {
+      return define(node, node.name?.text ?? 'default', 'class', exported);
+    }
+    if (topLevel && ts.isInterfaceDeclaration(node)) return define(node, node.name.text, 'interface', exported);
+    if (topLevel && ts.isTypeAliasDeclaration(node)) return define(node, node.name.text, 'type', exported);
+    if (topLevel && ts.isEnumDeclaration(node)) return define(node, node.name.text, 'enum', exported);
+
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.parent.parent.parent === sourceFile) {
+      const fn = functionInitializer(node.initializer);
+      if (fn) {
+        const statement = node.parent.parent as ts.VariableStatement;
+        const name = node.name.text;
+        const kind = isComponent(name, fn, jsx) || isComponentType(node.type) ? 'component' : 'function';
+        // `export const f = () => {}` spans the whole statement
+        const span = statement.declarationList.declarations.length === 1 ? statement : node;
+        return define(span, name, kind, hasModifier(statement, ts.SyntaxKind.ExportKeyword));
+      }
+    }
+
+    const owner = node.parent;
+    if (ts.isClassDeclaration(owner) && owner.parent === sourceFile) {
+      const container = owner.name?.text ?? 'default';
+      if (ts.isConstructorDeclaration(node)) return define(node, 'constructor', 'method', false, container);
+      if (
+        (ts.isMethodDeclaration(node) || ts.isGetAccessor(node) || ts.isSetAccessor(node) ||
+          (ts.isPropertyDeclaration(node) && functionInitializer(node.initializer))) &&
+        (ts.isIdentifier(node.name) || ts.isPrivateIdentifier(node.name))
+      ) {
+        return define(node, node.name.text, 'method', false, container);
+      }
+    }
+    return undefined;
+  };
+
+  const scope: string[] = [];
+  const visit = (node: ts.Node): void => {
+    if (ts.isIdentifier(node)) {
+      const usage = usageOf(node);
+      if (usage) usages.push({ ...usage, line: lineAt(node.getStart(sourceFile)), caller: scope[scope.length - 1] });
+      return;
+    }
+    const defined = definitionOf(node);
+    if (defined) scope.push(defined);
+    ts.forEachChild(node, visit);
+    if (defined) scope.pop();
+  };
+  ts.forEachChild(sourceFile, visit);
+
+  // Keep only usages that can be tied to a definition later
+  const bound = new Set(imports.flatMap(i => i.locals ?? []));
+  const local = new Set(definitions.filter(d => !d.container).map(d => d.name));
+  const relevant = usages.filter(u =>
+    u.qualifier === undefined
+      ? bound.has(u.name) || local.has(u.name)
+      : (u.qualifier === 'this' && u.caller?.includes('.')) || bound.has(u.qualifier)
+  );
+
+  return { definitions, usages: dedupe(relevant) };
+}
+
+// Classifies an identifier as a usage, or returns undefined for names
+// that declare something or are properties of an unrelated object
+function usageOf(node: ts.Identifier): Omit<SymbolUsage, 'line' | 'caller'> | undefined {
+  const parent = node.parent;
+
+  if (ts.isPropertyAccessExpression(parent) && parent.name === node) {
+    const object = parent.expression;
+    if (object.kind === ts.SyntaxKind.ThisKeyword) return { name: node.text, qualifier: 'this' };
+    if (ts.isIdentifier(object)) return { name: node.text, qualifier: object.text };
+    return undefined;
+  }
+  if (ts.isQualifiedName(parent)) {
+    if (parent.right !== node) return { name: node.text };
+    return ts.isIdentifier(parent.left) ? { name: node.text, qualifier: parent.left.text } : undefined;
+  }
+  if (ts.isShorthandPropertyAssignment(parent)) return { name: node.text };
+  if (
+    ts.isImportClause(parent) || ts.isImportSpecifier(parent) || ts.isNamespaceImport(parent) ||
+    ts.isExportSpecifier(parent) || ts.isImportEqualsDeclaration(parent)
+  ) {
+    return undefined;
+  }
+  // Declarations, parameters, object keys and JSX attributes name the identifier themselves
+  if ((parent as { name?: ts.Node }).name === node || (parent as { propertyName?: ts.Node }).propertyName === node) {
+    return undefined;
+  }
+  if (ts.isLabeledStatement(parent) || ts.isBreakOrContinueStatement(parent)) return undefined;
+  return { name: node.text };
+}
+
+function functionInitializer(initializer: ts.Expression | undefined): ts.Node | undefined {
+  if (!initializer) return undefined;
+  let expression = initializer;
+  while (ts.isParenthesizedExpression(expression) || ts.isAsExpression(expression)) {
+    expression = expression.expression;
+  }
+  if (ts.isArrowFunction(expression) || ts.isFunctionExpression(expression)) return expression;
+  // memo(() => ...), forwardRef(function (...) {...})
+  if (ts.isCallExpression(expression)) {
+    return expression.arguments.find(a => ts.isArrowFunction(a) || ts.isFunctionExpression(a));
+  }
+  return undefined;
+}
+
+// A PascalCase function in a JSX file that renders JSX
+function isComponent(name: string, node: ts.Node, jsx: boolean): boolean {
+  if (!jsx || !/^[A-Z]/.test(name)) return false;
+  const rendersJsx = (child: ts.Node): boolean =>
+    ts.isJsxElement(child) || ts.isJsxSelfClosingElement(child) || ts.isJsxFragment(child) ||
+    (ts.forEachChild(child, rendersJsx) ?? false);
+  return rendersJsx(node);
+}
+
+// `const Foo: React.FC<Props> = ...`
+function isComponentType(type: ts.TypeNode | undefined): boolean {
+  if (!type || !ts.isTypeReferenceNode(type)) return false;
+  const name = ts.isIdentifier(type.typeName) ? type.typeName.text : type.typeName.right.text;
+  return ['FC', 'FunctionComponent', 'VFC', 'ComponentType'].includes(name);
+}
+
+function dedupe(usages: SymbolUsage[]): SymbolUsage[] {
+  const seen = new Set<string>();
+  return usages.filter(u => {
+    const key = `${u.qualifier ?? ''}.${u.name}:${u.line}:${u.caller ?? ''}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,44 @@
+import chalk from 'chalk';
+import type { Config } from '../types/index.js';
+import { IndexCache } from '../services/IndexCache.js';
+import { ResponseCache } from '../services/ResponseCache.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+};
+
+const formatDate = (ms?: number) => (ms ? new Date(ms).toLocaleString() : '-');
+
+export async function showCacheStats(config: Config): Promise<void> {
+  const indexStats = await new IndexCache(config).stats();
+  const responseStats = await new ResponseCache(config).stats();
+
+  console.log(chalk.bold(`Cache directory: ${config.cacheDir || '(disabled)'}`));
+  console.log('');
+  console.log(chalk.cyan('Project indexes'));
+  console.log(`  Entries: ${indexStats.entries} (${formatSize(indexStats.bytes)})`);
+  for (const root of indexStats.roots) {
+    console.log(chalk.gray(`  • ${root}`));
+  }
+  console.log('');
+  console.log(chalk.cyan('Model responses'));
+  console.log(`  Entries: ${responseStats.entries} (${formatSize(responseStats.bytes)})`);
+  for (const [stage, count] of Object.entries(responseStats.byStage)) {
+    console.log(chalk.gray(`  • ${stage}: ${count}`));
+  }
+  console.log(`  Oldest: ${formatDate(responseStats.oldest)}`);
+  console.log(`  Newest: ${formatDate(responseStats.newest)}`);
+}
+
+export async function pruneCache(config: Config, olderThanDays: number): Promise<void> {
+  const maxAgeMs = olderThanDays * DAY_MS;
+  const indexes = await new IndexCache(config).prune(maxAgeMs);
+  const responses = await new ResponseCache(config).prune(maxAgeMs);
+  console.log(chalk.green(
+    `✓ Pruned ${indexes} project index${indexes === 1 ? '' : 'es'} and ${responses} model response${responses === 1 ? '' : 's'} older than ${olderThanDays} day${olderThanDays === 1 ? '' : 's'}`
+  ));
+}
@@ -1,22 +1,83 @@
-import type { Config } from '../types/index.js';
+import type { Config, ProviderName } from '../types/index.js';
 import path from 'node:path';
 import os from 'node:os';
 
-export async function loadConfig(): Promise<Config> {
-  const apiKey = process.env.GEMINI_API_KEY || '';
-  const model = 'gemini-2.5-pro'; // Always use gemini-2.5-pro for optimal performance
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  gemini: 'gemini-2.5-pro',
+  openai: 'gpt-4o-mini',
+  ollama: 'llama3.1',
+  mock: 'mock',
+  replay: 'replay',
+};
+
+export async function loadConfig(overrides: Partial<Config> = {}): Promise<Config> {
+  const provider = parseProvider(process.env.LLM_PROVIDER);
+  const apiKey = process.env.LLM_API_KEY
+    || (provider === 'gemini' ? process.env.GEMINI_API_KEY : undefined)
+    || (provider === 'openai' ? process.env.OPENAI_API_KEY : undefined)
+    || '';
+  const model = process.env.LLM_MODEL || DEFAULT_MODELS[provider];
+  const baseUrl = process.env.LLM_BASE_URL || undefined;
+  const fixturesDir = path.resolve(process.env.LLM_FIXTURES_DIR || '.explain-fixtures');
+  const recordFixtures = process.env.LLM_RECORD === 'true';
+  const mockScript = process.env.LLM_MOCK_SCRIPT ? path.resolve(process.env.LLM_MOCK_SCRIPT) : undefined;
   const debug = process.env.DEBUG === 'true';
   
-  const cacheDir = process.env.CACHE_DIR || path.join(os.homedir(), '.explain-cli-cache');
+  const cacheDir = expandHome(process.env.CACHE_DIR || path.join(os.homedir(), '.explain-cli-cache'));
   const maxFileSize = parseInt(process.env.MAX_FILE_SIZE || '1048576', 10); // 1MB default
-  const maxContextSize = parseInt(process.env.MAX_CONTEXT_SIZE || '10485760', 10); // 10MB default
+  const maxContextTokens = parseInt(process.env.MAX_CONTEXT_TOKENS || '500000', 10);
+  const maxFileTokens = parseInt(process.env.MAX_FILE_TOKENS || '8000', 10);
+  const analysisConcurrency = Math.max(1, parseInt(process.env.ANALYSIS_CONCURRENCY || '4', 10));
+  const detectorsFile = process.env.DETECTORS_FILE || '.explain-detectors.json';
+  const indexWorkers = Math.max(0, parseInt(process.env.INDEX_WORKERS || String(defaultIndexWorkers()), 10));
+  const indexMemoryLimit = parseInt(process.env.INDEX_MEMORY_MB || '512', 10) * 1024 * 1024;
+  const watch = process.env.WATCH === 'true';
+  const requestTimeoutMs = parseInt(process.env.REQUEST_TIMEOUT_MS || '120000', 10); // 2 min default
+  const maxRetries = Math.max(0, parseInt(process.env.LLM_MAX_RETRIES || '4', 10));
+  const maxRequestsPerRun = Math.max(1, parseInt(process.env.MAX_REQUESTS_PER_RUN || '100', 10));
 
   return {
     apiKey,
+    provider,
     model,
+    baseUrl,
+    fixturesDir,
+    recordFixtures,
+    mockScript,
     debug,
     cacheDir,
     maxFileSize,
-    maxContextSize,
+    maxContextTokens,
+    maxFileTokens,
+    analysisConcurrency,
+    detectorsFile,
+    indexWorkers,
+    indexMemoryLimit,
+    watch,
+    requestTimeoutMs,
+    maxRetries,
+    maxRequestsPerRun,
+    useCache: true,
+    ...overrides,
   };
-}
\ No newline at end of file
+}
+
+function parseProvider(value: string | undefined): ProviderName {
+  const provider = (value || 'gemini').toLowerCase();
+  if (['gemini', 'openai', 'ollama', 'mock', 'replay'].includes(provider)) {
+    return provider as ProviderName;
+  }
+  throw new Error(`Unsupported LLM_PROVIDER "${value}". Use gemini, openai, ollama, mock or replay.`);
+}
+
+// Leave a core for the UI thread; each worker loads its own parsers, so cap the count
+function defaultIndexWorkers(): number {
+  return Math.min(4, Math.max(1, os.availableParallelism() - 1));
+}
+
+function expandHome(dir: string): string {
+  if (dir === '~' || dir.startsWith('~/')) {
+    return path.join(os.homedir(), dir.slice(1));
+  }
+  return path.resolve(dir);
+}
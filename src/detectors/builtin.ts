@@ -0,0 +1,164 @@
+import type { FrameworkDetector } from '../types/index.js';
+
+/**
+ * Detectors shipped with the CLI. A local detectors file can add to these
+ * or replace one by reusing its name.
+ */
+export const BUILTIN_DETECTORS: FrameworkDetector[] = [
+  // JavaScript and TypeScript
+  {
+    name: 'React',
+    runtime: 'Node.js',
+    dependencies: { npm: ['react'] },
+  },
+  {
+    name: 'Vue',
+    runtime: 'Node.js',
+    dependencies: { npm: ['vue'] },
+    files: ['**/*.vue'],
+    routes: ['src/router/index.{js,ts}'],
+    entryPoints: ['src/main.{js,ts}'],
+  },
+  {
+    name: 'Angular',
+    runtime: 'Node.js',
+    dependencies: { npm: ['@angular/core'] },
+    files: ['angular.json'],
+    routes: ['src/app/app.routes.ts', 'src/app/**/*-routing.module.ts'],
+    entryPoints: ['src/main.ts'],
+  },
+  {
+    name: 'Svelte',
+    runtime: 'Node.js',
+    dependencies: { npm: ['svelte'] },
+    files: ['**/*.svelte'],
+  },
+  {
+    name: 'SvelteKit',
+    runtime: 'Node.js',
+    dependencies: { npm: ['@sveltejs/kit'] },
+    files: ['svelte.config.{js,ts}'],
+    routes: ['src/routes/**/+{page,layout,server}{,.server}.{js,ts,svelte}'],
+    entryPoints: ['src/hooks.server.{js,ts}'],
+  },
+  {
+    name: 'Next.js',
+    runtime: 'Node.js',
+    dependencies: { npm: ['next'] },
+    files: ['next.config.{js,mjs,ts}'],
+    routes: ['{src/,}app/**/{page,layout,route}.{js,jsx,ts,tsx}', '{src/,}pages/**/*.{js,jsx,ts,tsx}'],
+    entryPoints: ['{src/,}middleware.{js,ts}'],
+  },
+  {
+    name: 'Remix',
+    runtime: 'Node.js',
+    dependencies: { npm: ['@remix-run/*'] },
+    files: ['remix.config.{js,mjs}'],
+    routes: ['app/routes/**/*.{js,jsx,ts,tsx}'],
+    entryPoints: ['app/root.{jsx,tsx}', 'app/entry.{client,server}.{jsx,tsx}'],
+  },
+  {
+    name: 'Express',
+    runtime: 'Node.js',
+    dependencies: { npm: ['express'] },
+    routes: ['{src/,}routes/**/*.{js,ts}'],
+    entryPoints: ['{src/,}app.{js,ts}', '{src/,}server.{js,ts}'],
+  },
+  {
+    name: 'NestJS',
+    runtime: 'Node.js',
+    dependencies: { npm: ['@nestjs/core'] },
+    routes: ['src/**/*.controller.ts'],
+    entryPoints: ['src/main.ts', 'src/app.module.ts'],
+  },
+  {
+    name: 'Fastify',
+    runtime: 'Node.js',
+    dependencies: { npm: ['fastify'] },
+    routes: ['{src/,}routes/**/*.{js,ts}'],
+    entryPoints: ['{src/,}app.{js,ts}', '{src/,}server.{js,ts}'],
+  },
+  {
+    name: 'Electron',
+    runtime: 'Electron',
+    dependencies: { npm: ['electron'] },
+    entryPoints: ['{src/,}main.{js,ts}', '{src/,}main/index.{js,ts}', '{src/,}preload.{js,ts}'],
+  },
+  {
+    name: 'Ink',
+    runtime: 'Node.js',
+    dependencies: { npm: ['ink'] },
+    entryPoints: ['{src/,}cli.{js,jsx,ts,tsx}', '{src/,}index.{jsx,tsx}', '{src/,}ui/App.{jsx,tsx}'],
+  },
+
+  // Python
+  {
+    name: 'Django',
+    runtime: 'Python',
+    dependencies: { pypi: ['django'] },
+    files: ['manage.py'],
+    routes: ['**/urls.py'],
+    entryPoints: ['manage.py', '**/wsgi.py', '**/asgi.py'],
+  },
+  {
+    name: 'Flask',
+    runtime: 'Python',
+    dependencies: { pypi: ['flask'] },
+    routes: ['**/routes.py', '**/views.py'],
+    entryPoints: ['app.py', 'wsgi.py'],
+  },
+  {
+    name: 'FastAPI',
+    runtime: 'Python',
+    dependencies: { pypi: ['fastapi'] },
+    routes: ['**/routers/*.py', '**/api/**/*.py'],
+    entryPoints: ['main.py', '{app,src}/main.py'],
+  },
+
+  // Go
+  {
+    name: 'Gin',
+    runtime: 'Go',
+    dependencies: { go: ['github.com/gin-gonic/gin'] },
+    routes: ['**/routes.go', '**/router.go'],
+    entryPoints: ['main.go', 'cmd/*/main.go'],
+  },
+
+  // Rust
+  {
+    name: 'Actix',
+    runtime: 'Rust',
+    dependencies: { cargo: ['actix-web'] },
+    routes: ['src/routes.rs', 'src/routes/*.rs'],
+    entryPoints: ['src/main.rs'],
+  },
+
+  // Ruby
+  {
+    name: 'Rails',
+    runtime: 'Ruby',
+    dependencies: { gem: ['rails'] },
+    files: ['config/application.rb'],
+    routes: ['config/routes.rb', 'app/controllers/**/*.rb'],
+    entryPoints: ['config/application.rb'],
+  },
+
+  // PHP
+  {
+    name: 'Laravel',
+    runtime: 'PHP',
+    dependencies: { composer: ['laravel/framework'] },
+    files: ['artisan'],
+    routes: ['routes/*.php'],
+    entryPoints: ['public/index.php', 'app/Http/Kernel.php'],
+  },
+
+  // Java and Kotlin
+  {
+    name: 'Spring',
+    runtime: 'JVM',
+    dependencies: { maven: ['org.springframework.boot:*', 'org.springframework:*', 'org.springframework.boot'] },
+    routes: ['src/main/{java,kotlin}/**/*Controller.{java,kt}'],
+    entryPoints: ['src/main/{java,kotlin}/**/*Application.{java,kt}'],
+  },
+];
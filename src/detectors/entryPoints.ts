@@ -0,0 +1,329 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { globby } from 'globby';
+import type { EntryPoint, EntryPointKind, FrameworkDetection, ProjectFile } from '../types/index.js';
+import { readJson } from '../utils/json.js';
+import { IGNORED_DIRS, tomlSection } from './manifests.js';
+
+// Order the kinds are listed in, most telling first
+const KIND_ORDER: EntryPointKind[] = ['bin', 'main', 'script', 'export', 'route', 'framework', 'container', 'test'];
+
+export const ENTRY_POINT_KIND_LABELS: Record<EntryPointKind, string> = {
+  bin: 'Executables',
+  main: 'Main modules',
+  script: 'Package scripts',
+  export: 'Package exports',
+  route: 'Routes',
+  framework: 'Framework entries',
+  container: 'Containers',
+  test: 'Test roots',
+};
+
+// Build output folders a manifest usually points into
+const BUILD_DIRS = /^(dist|lib|build|out)\//;
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mts', '.mjs', '.cjs'];
+
+const TEST_DIR = /^(?:test|tests|__tests__|spec|specs|e2e)$/;
+const TEST_FILE = /\.(?:test|spec)\.[cm]?[jt]sx?$|_test\.(?:go|py)$|(?:^|\/)test_[^/]*\.py$|_spec\.rb$|Tests?\.(?:java|kt|cs)$/;
+
+const SCRIPT_LINE = /^\s*["']?([\w.-]+)["']?\s*=\s*["']?([\w.]+):[\w.]+/gm;
+const SETUP_PY_SCRIPT = /["']([\w.-]+)\s*=\s*([\w.]+):[\w.]+["']/g;
+
+// `uvicorn app.main:app`, `gunicorn web.wsgi:application`
+const MODULE_ATTRIBUTE = /^([\w.]+):\w+$/;
+
+// Tried at the root and in src/ only when nothing declares an entry point
+const CONVENTIONAL_ENTRIES = new Set([
+  'index.js', 'index.ts', 'index.tsx',
+  'main.js', 'main.ts', 'main.tsx',
+  'app.js', 'app.ts', 'app.tsx',
+  'server.js', 'server.ts',
+  'main.py', 'app.py',
+  'Main.java', 'main.go', 'main.rs',
+]);
+
+/**
+ * Finds the project's entry points and tags each with how it was found:
+ * package.json `bin`, `main`, `exports` and `scripts`, Python console
+ * scripts, `__main__` guards and modules, `main` functions of Go, Rust
+ * and JVM code, Rust library crates, route
+ * registrations, framework routes and entries from `detections`,
+ * Dockerfile `CMD`/`ENTRYPOINT`, and test roots. Manifests usually point
+ * at build output, so their targets are mapped back to source files;
+ * targets outside the indexed files are dropped.
+ */
+export async function discoverEntryPoints(
+  rootDir: string,
+  files: ProjectFile[],
+  detections: FrameworkDetection[]
+): Promise<EntryPoint[]> {
+  const paths = new Set(files.map(f => f.path));
+  const found: EntryPoint[] = [
+    ...(await packageEntryPoints(rootDir, paths)),
+    ...(await pythonScripts(rootDir, paths)),
+    ...files.flatMap(f => (f.entrySignals ?? []).map(signal => ({ path: f.path, ...signal }))),
+    ...files
+      .filter(f => path.posix.basename(f.path) === '__main__.py')
+      .map((f): EntryPoint => ({ path: f.path, kind: 'main', source: 'python -m' })),
+    ...files
+      .filter(f => f.path === 'src/lib.rs' || f.path.endsWith('/src/lib.rs'))
+      .map((f): EntryPoint => ({ path: f.path, kind: 'export', source: 'library crate' })),
+    ...detections.flatMap(d => [
+      ...d.routes.map((route): EntryPoint => ({ path: route, kind: 'route', source: d.name })),
+      ...d.entryPoints.map((entry): EntryPoint => ({ path: entry, kind: 'framework', source: d.name })),
+    ]),
+    ...(await containerEntryPoints(rootDir, paths)),
+  ];
+
+  if (found.length === 0) {
+    for (const file of files) {
+      const dir = path.posix.dirname(file.path);
+      if ((dir === '.' || dir === 'src') && CONVENTIONAL_ENTRIES.has(path.posix.basename(file.path))) {
+        found.push({ path: file.path, kind: 'main', source: 'conventional name' });
+      }
+    }
+  }
+  found.push(...testRoots(files));
+
+  // The first way a file was found as a given kind names its source
+  const unique = new Map<string, EntryPoint>();
+  for (const entry of found) {
+    const key = `${entry.kind}\0${entry.path}`;
+    if (!unique.has(key)) unique.set(key, entry);
+  }
+  return [...unique.values()].sort((a, b) =>
+    KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) || a.path.localeCompare(b.path)
+  );
+}
+
+/** Files execution can start from, without test roots; what call-graph tracing walks from */
+export function entryFiles(entryPoints: EntryPoint[]): string[] {
+  return [...new Set(entryPoints.filter(entry => entry.kind !== 'test').map(entry => entry.path))];
+}
+
+export function groupEntryPoints(entryPoints: EntryPoint[]): Array<{ kind: EntryPointKind; paths: string[] }> {
+  return KIND_ORDER
+    .map(kind => ({ kind, paths: [...new Set(entryPoints.filter(e => e.kind === kind).map(e => e.path))] }))
+    .filter(group => group.paths.length > 0);
+}
+
+/** One line per kind, e.g. `Executables: src/index.tsx (bin explain)` */
+export function describeEntryPoints(entryPoints: EntryPoint[]): string {
+  return KIND_ORDER
+    .map(kind => {
+      const entries = entryPoints.filter(e => e.kind === kind);
+      if (entries.length === 0) return '';
+      return `${ENTRY_POINT_KIND_LABELS[kind]}: ${entries.map(e => `${e.path} (${e.source})`).join(', ')}`;
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+async function packageEntryPoints(rootDir: string, paths: Set<string>): Promise<EntryPoint[]> {
+  const manifests = await globby(['**/package.json'], { cwd: rootDir, gitignore: true, ignore: IGNORED_DIRS });
+  const entries: EntryPoint[] = [];
+
+  for (const manifest of manifests) {
+    let pkg: any;
+    try {
+      pkg = await readJson(path.join(rootDir, manifest));
+    } catch {
+      // Skip unreadable manifests
+      continue;
+    }
+    const dir = path.posix.dirname(manifest);
+    const add = (target: unknown, kind: EntryPointKind, source: string) => {
+      const file = typeof target === 'string' ? resolveScript(dir, target, paths) : undefined;
+      if (file) entries.push({ path: file, kind, source });
+    };
+
+    // A string `bin` is named after the package, without its scope
+    if (typeof pkg.bin === 'string') add(pkg.bin, 'bin', `bin ${String(pkg.name ?? '').replace(/^@[^/]+\//, '')}`.trim());
+    else if (pkg.bin && typeof pkg.bin === 'object') {
+      for (const [name, target] of Object.entries(pkg.bin)) add(target, 'bin', `bin ${name}`);
+    }
+    for (const field of ['main', 'module', 'source']) add(pkg[field], 'main', field);
+    for (const [subpath, target] of exportTargets(pkg.exports)) add(target, 'export', `exports "${subpath}"`);
+
+    for (const [name, command] of Object.entries(pkg.scripts ?? {})) {
+      if (typeof command !== 'string') continue;
+      for (const token of command.split(/\s+|&&|\|\||[;|]/)) {
+        if (!token || token.startsWith('-') || token.includes('*')) continue;
+        if (token.includes('/') || SCRIPT_EXTENSIONS.includes(path.posix.extname(token))) {
+          add(token, 'script', `npm run ${name}`);
+        }
+      }
+    }
+  }
+  return entries;
+}
+
+// Subpath and file of every condition of package.json `exports`, except type declarations
+function exportTargets(exports: unknown, subpath = '.'): Array<[string, string]> {
+  if (typeof exports === 'string') return [[subpath, exports]];
+  if (Array.isArray(exports)) return exports.flatMap(item => exportTargets(item, subpath));
+  if (!exports || typeof exports !== 'object') return [];
+  return Object.entries(exports).flatMap(([key, value]) => {
+    if (key === 'types' || key.includes('*')) return [];
+    return exportTargets(value, key.startsWith('.') ? key : subpath);
+  });
+}
+
+// console_scripts from pyproject.toml (PEP 621 or Poetry), setup.cfg and setup.py
+async function pythonScripts(rootDir: string, paths: Set<string>): Promise<EntryPoint[]> {
+  const manifests = await globby(['**/pyproject.toml', '**/setup.cfg', '**/setup.py'], {
+    cwd: rootDir,
+    gitignore: true,
+    ignore: IGNORED_DIRS,
+  });
+  const entries: EntryPoint[] = [];
+
+  for (const manifest of manifests) {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(rootDir, manifest), 'utf-8');
+    } catch {
+      continue;
+    }
+    // `name = "pkg.module:func"` lines of a scripts table; setup.py quotes the whole `'name = pkg.module:func'`
+    const [sections, script] = manifest.endsWith('.toml')
+      ? [[tomlSection(content, 'project.scripts'), tomlSection(content, 'tool.poetry.scripts')], SCRIPT_LINE]
+      : manifest.endsWith('.cfg')
+        ? [[tomlSection(content, 'options.entry_points')], SCRIPT_LINE]
+        : [[content], SETUP_PY_SCRIPT];
+
+    for (const section of sections) {
+      for (const match of section.matchAll(script)) {
+        const file = resolveModule(path.posix.dirname(manifest), match[2], paths);
+        if (file) entries.push({ path: file, kind: 'bin', source: `console_scripts ${match[1]}` });
+      }
+    }
+  }
+  return entries;
+}
+
+async function containerEntryPoints(rootDir: string, paths: Set<string>): Promise<EntryPoint[]> {
+  const dockerfiles = await globby(['**/Dockerfile', '**/Dockerfile.*', '**/*.Dockerfile'], {
+    cwd: rootDir,
+    gitignore: true,
+    ignore: IGNORED_DIRS,
+  });
+  const entries: EntryPoint[] = [];
+
+  for (const dockerfile of dockerfiles) {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(rootDir, dockerfile), 'utf-8');
+    } catch {
+      continue;
+    }
+    const dir = path.posix.dirname(dockerfile);
+    let workdir = '/';
+    for (const line of content.replace(/\\\r?\n/g, ' ').split('\n')) {
+      const instruction = line.trim().match(/^(WORKDIR|CMD|ENTRYPOINT)\s+(.+)$/i);
+      if (!instruction) continue;
+      const [, name, value] = instruction;
+      if (name.toUpperCase() === 'WORKDIR') {
+        workdir = path.posix.resolve(workdir, value.trim());
+        continue;
+      }
+
+      const args = execArgs(value);
+      const source = `${dockerfile} ${name.toUpperCase()}`;
+      for (let i = 0; i < args.length; i++) {
+        // `python -m app.main` or an ASGI/WSGI server's `app.main:app`
+        const module = args[i] === '-m' ? args[++i] : args[i].match(MODULE_ATTRIBUTE)?.[1];
+        if (module) {
+          const file = resolveModule(dir, module, paths);
+          if (file) entries.push({ path: file, kind: 'container', source });
+          continue;
+        }
+        if (!/[/.]/.test(args[i]) || args[i].startsWith('-')) continue;
+        // Paths inside the image are relative to WORKDIR, which usually mirrors the build context
+        const absolute = path.posix.resolve(workdir, args[i]);
+        const relative = absolute.startsWith(`${workdir}/`) ? absolute.slice(workdir.length).replace(/^\//, '') : args[i];
+        const file = resolveScript(dir, relative, paths) ?? resolveSource(dir, relative, paths);
+        if (file) entries.push({ path: file, kind: 'container', source });
+      }
+    }
+  }
+  return entries;
+}
+
+// Exec form `["node", "dist/index.js"]` or shell form `node dist/index.js`
+function execArgs(value: string): string[] {
+  try {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed)) return parsed.filter((arg): arg is string => typeof arg === 'string');
+  } catch {
+    // Shell form
+  }
+  return value.split(/\s+/).filter(Boolean);
+}
+
+// A script path as written in a manifest, mapped from build output back to source
+function resolveScript(dir: string, target: string, paths: Set<string>): string | undefined {
+  const relative = path.posix.normalize(target).replace(/^\.\//, '');
+  if (relative.startsWith('..') || path.posix.isAbsolute(relative)) return undefined;
+  const candidates = [relative, relative.replace(BUILD_DIRS, 'src/')].flatMap(candidate => {
+    const base = path.posix.join(dir, candidate);
+    const stem = base.slice(0, base.length - path.posix.extname(base).length);
+    return [base, ...SCRIPT_EXTENSIONS.map(ext => stem + ext)];
+  });
+  return candidates.find(candidate => paths.has(candidate));
+}
+
+// Any indexed file named exactly, e.g. `server.py` or `bin/start.rb`
+function resolveSource(dir: string, target: string, paths: Set<string>): string | undefined {
+  const file = path.posix.join(dir, target);
+  return paths.has(file) ? file : undefined;
+}
+
+// `pkg.module` to `pkg/module.py` or its package, at the top level or under src/
+function resolveModule(dir: string, module: string, paths: Set<string>): string | undefined {
+  const relative = module.replace(/\./g, '/');
+  return ['', 'src/']
+    .flatMap(base => [`${base}${relative}.py`, `${base}${relative}/__main__.py`, `${base}${relative}/__init__.py`])
+    .map(candidate => path.posix.join(dir, candidate))
+    .find(candidate => paths.has(candidate));
+}
+
+// Outermost test directories, plus one root covering test files kept next to the code
+function testRoots(files: ProjectFile[]): EntryPoint[] {
+  const roots = new Map<string, number>();
+  const colocated: string[] = [];
+  for (const file of files) {
+    const segments = file.path.split('/');
+    const index = segments.findIndex((segment, i) => i < segments.length - 1 && TEST_DIR.test(segment));
+    if (index !== -1) {
+      const root = segments.slice(0, index + 1).join('/');
+      roots.set(root, (roots.get(root) ?? 0) + 1);
+    } else if (TEST_FILE.test(file.path)) {
+      colocated.push(file.path);
+    }
+  }
+
+  const entries = [...roots].map(([root, count]): EntryPoint => ({
+    path: root,
+    kind: 'test',
+    source: count === 1 ? '1 file' : `${count} files`,
+  }));
+  if (colocated.length > 0) {
+    entries.push({
+      path: commonDir(colocated),
+      kind: 'test',
+      source: colocated.length === 1 ? '1 colocated test file' : `${colocated.length} colocated test files`,
+    });
+  }
+  return entries;
+}
+
+function commonDir(files: string[]): string {
+  const dirs = files.map(file => path.posix.dirname(file).split('/'));
+  const common: string[] = [];
+  for (let i = 0; dirs.every(dir => i < dir.length && dir[i] === dirs[0][i]); i++) {
+    common.push(dirs[0][i]);
+  }
+  return common.length > 0 ? common.join('/') : '.';
+}
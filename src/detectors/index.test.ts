@@ -0,0 +1,89 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { ProjectFile } from '../types/index.js';
+import { DetectorRegistry } from './index.js';
+
+const DETECTORS_FILE = '.explain-detectors.json';
+
+// An Express API next to a Next.js site in its own package
+const FILES: Record<string, string> = {
+  'package.json': JSON.stringify({ name: 'api', dependencies: { express: '^4.18.2', react: '~18.2.0' } }),
+  'src/server.ts': '',
+  'src/routes/users.ts': '',
+  'web/package.json': JSON.stringify({ name: 'web' }),
+  'web/next.config.js': '',
+  'web/app/page.tsx': '',
+  'requirements.txt': 'fastapi==0.110.0\n',
+};
+
+let dir: string;
+const files: ProjectFile[] = Object.keys(FILES).map(file => ({ path: file, size: 0 }));
+
+async function writeProject(root: string, extra: Record<string, string> = {}): Promise<void> {
+  for (const [file, content] of Object.entries({ ...FILES, ...extra })) {
+    await fs.mkdir(path.join(root, path.dirname(file)), { recursive: true });
+    await fs.writeFile(path.join(root, file), content);
+  }
+}
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'explain-detectors-'));
+  await writeProject(path.join(dir, 'builtin'));
+});
+
+after(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+test('detects frameworks from manifest dependencies and marker files', async () => {
+  const root = path.join(dir, 'builtin');
+  const { detections, runtimes } = await (await DetectorRegistry.create(root, DETECTORS_FILE)).detect(root, files);
+  const byName = new Map(detections.map(d => [d.name, d]));
+
+  assert.equal(byName.get('React')?.version, '18.2.0');
+  assert.deepEqual(byName.get('Express'), {
+    name: 'Express',
+    version: '4.18.2',
+    runtime: 'Node.js',
+    dir: '.',
+    routes: ['src/routes/users.ts'],
+    entryPoints: ['src/server.ts'],
+  });
+  // No `next` dependency, but a next.config.js in its own package
+  assert.equal(byName.get('Next.js')?.dir, 'web');
+  assert.equal(byName.get('Next.js')?.version, undefined);
+  assert.deepEqual(byName.get('Next.js')?.routes, ['web/app/page.tsx']);
+  assert.equal(byName.get('FastAPI')?.runtime, 'Python');
+  assert.deepEqual(runtimes.sort(), ['Node.js', 'Python']);
+});
+
+test('lets a project detectors file add detectors and replace built-ins', async () => {
+  const root = path.join(dir, 'local');
+  await writeProject(root, {
+    [DETECTORS_FILE]: JSON.stringify({
+      detectors: [
+        { name: 'Express', runtime: 'Bun', dependencies: { npm: ['express'] }, routes: ['src/server.ts'] },
+        { name: 'Acme Jobs', runtime: 'Node.js', files: ['src/routes/*.ts'], entryPoints: ['src/routes/*.ts'] },
+      ],
+    }),
+  });
+  const { detections } = await (await DetectorRegistry.create(root, DETECTORS_FILE)).detect(root, files);
+
+  const express = detections.filter(d => d.name === 'Express');
+  assert.equal(express.length, 1);
+  assert.equal(express[0].runtime, 'Bun');
+  assert.deepEqual(express[0].routes, ['src/server.ts']);
+  assert.deepEqual(detections.find(d => d.name === 'Acme Jobs')?.entryPoints, ['src/routes/users.ts']);
+});
+
+test('rejects an invalid detectors file', async () => {
+  const root = path.join(dir, 'invalid');
+  await writeProject(root, {
+    [DETECTORS_FILE]: JSON.stringify({ detectors: [{ name: 'Nothing to match', runtime: 'Node.js' }] }),
+  });
+
+  await assert.rejects(DetectorRegistry.create(root, DETECTORS_FILE), /Invalid detectors file .*detectors\.0 needs dependencies or files to match on/);
+});
@@ -0,0 +1,185 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { globby } from 'globby';
+import micromatch from 'micromatch';
+import { z } from 'zod';
+import type { DependencyEcosystem, FrameworkDetection, FrameworkDetector, ProjectFile } from '../types/index.js';
+import { readJson } from '../utils/json.js';
+import { BUILTIN_DETECTORS } from './builtin.js';
+import { IGNORED_DIRS, MANIFESTS, type Dependencies } from './manifests.js';
+
+export { BUILTIN_DETECTORS } from './builtin.js';
+
+// Routes and entry points listed per detection, so a catch-all glob cannot flood the list
+const MAX_ENTRY_POINTS = 20;
+
+const ECOSYSTEMS = ['npm', 'pypi', 'go', 'cargo', 'gem', 'composer', 'maven'] as const;
+
+const DetectorsFileSchema = z.object({
+  detectors: z.array(z.object({
+    name: z.string().min(1),
+    runtime: z.string().min(1),
+    dependencies: z.record(z.enum(ECOSYSTEMS), z.array(z.string())).optional(),
+    files: z.array(z.string()).optional(),
+    routes: z.array(z.string()).optional(),
+    entryPoints: z.array(z.string()).optional(),
+  }).refine(
+    detector => Object.keys(detector.dependencies ?? {}).length > 0 || (detector.files?.length ?? 0) > 0,
+    { message: 'needs dependencies or files to match on' }
+  )),
+});
+
+/** The manifests of one directory: what they declare and which runtimes they imply */
+interface ManifestDir {
+  dir: string;
+  dependencies: Map<DependencyEcosystem, Dependencies>;
+  runtimes: Set<string>;
+}
+
+/**
+ * Framework detectors, built-in and project-local. Detection reads every
+ * dependency manifest under the project root (package.json, requirements.txt,
+ * pyproject.toml, go.mod, Cargo.toml, Gemfile, composer.json, pom.xml,
+ * build.gradle) and evaluates each detector once per manifest directory,
+ * against that directory's dependencies and the files beneath it that no
+ * nested manifest directory claims.
+ */
+export class DetectorRegistry {
+  private detectors = new Map<string, FrameworkDetector>();
+
+  private constructor(detectors: FrameworkDetector[]) {
+    detectors.forEach(detector => this.register(detector));
+  }
+
+  /**
+   * Built-in detectors plus those of the project's detectors file, if it
+   * has one. A local detector replaces the built-in of the same name.
+   * Throws when the file exists but is not a valid detectors file.
+   */
+  static async create(rootDir: string, detectorsFile: string): Promise<DetectorRegistry> {
+    const registry = new DetectorRegistry(BUILTIN_DETECTORS);
+    const file = path.resolve(rootDir, detectorsFile);
+
+    let json: unknown;
+    try {
+      json = await readJson(file);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return registry;
+      throw new Error(`Could not read detectors file ${file}: ${(error as Error).message}`);
+    }
+
+    const parsed = DetectorsFileSchema.safeParse(json);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new Error(`Invalid detectors file ${file}: ${issue.path.join('.') || 'root'} ${issue.message}`);
+    }
+    parsed.data.detectors.forEach(detector => registry.register(detector));
+    return registry;
+  }
+
+  register(detector: FrameworkDetector): void {
+    this.detectors.set(detector.name, detector);
+  }
+
+  /**
+   * Frameworks found in the project with the runtimes they and the
+   * manifests imply. `files` are the indexed files, which detector file
+   * patterns and entry points are matched against.
+   */
+  async detect(
+    rootDir: string,
+    files: ProjectFile[]
+  ): Promise<{ detections: FrameworkDetection[]; runtimes: string[] }> {
+    const dirs = await loadManifestDirs(rootDir);
+    const filesByDir = groupFiles(files, dirs.map(d => d.dir));
+    const detections: FrameworkDetection[] = [];
+    const runtimes = new Set<string>();
+
+    for (const manifests of dirs) {
+      manifests.runtimes.forEach(runtime => runtimes.add(runtime));
+      const local = filesByDir.get(manifests.dir) ?? [];
+
+      for (const detector of this.detectors.values()) {
+        const version = matchDependencies(detector, manifests);
+        const matched = version !== undefined
+          || (detector.files?.length && local.some(file => micromatch.isMatch(file, detector.files!, { dot: true })));
+        if (!matched) continue;
+
+        const matching = (patterns?: string[]) => (patterns?.length ? micromatch(local, patterns, { dot: true }) : [])
+          .slice(0, MAX_ENTRY_POINTS)
+          .map(file => path.posix.join(manifests.dir, file));
+        detections.push({
+          name: detector.name,
+          version: version || undefined,
+          runtime: detector.runtime,
+          dir: manifests.dir,
+          routes: matching(detector.routes),
+          entryPoints: matching(detector.entryPoints),
+        });
+        runtimes.add(detector.runtime);
+      }
+    }
+
+    return { detections, runtimes: [...runtimes] };
+  }
+}
+
+/** Framework names with their versions, e.g. `React 18.2.0, Ink 5.0.1` */
+export function describeDetections(detections: FrameworkDetection[]): string {
+  const described = new Set(detections.map(d => (d.version ? `${d.name} ${d.version}` : d.name)));
+  return [...described].join(', ');
+}
+
+// Version of the first matching dependency; '' when it matched unpinned, undefined when none did
+function matchDependencies(detector: FrameworkDetector, manifests: ManifestDir): string | undefined {
+  for (const [ecosystem, patterns] of Object.entries(detector.dependencies ?? {})) {
+    const declared = manifests.dependencies.get(ecosystem as DependencyEcosystem);
+    if (!declared || !patterns?.length) continue;
+    for (const [name, version] of declared) {
+      if (micromatch.isMatch(name, patterns)) return version;
+    }
+  }
+  return undefined;
+}
+
+// The root is always a manifest directory, so file-only detectors work without manifests
+async function loadManifestDirs(rootDir: string): Promise<ManifestDir[]> {
+  const manifests = await globby(Object.keys(MANIFESTS).map(name => `**/${name}`), {
+    cwd: rootDir,
+    gitignore: true,
+    ignore: IGNORED_DIRS,
+  });
+
+  const dirs = new Map<string, ManifestDir>([['.', { dir: '.', dependencies: new Map(), runtimes: new Set() }]]);
+  for (const manifest of manifests.sort()) {
+    const dir = path.posix.dirname(manifest);
+    const format = MANIFESTS[path.posix.basename(manifest)];
+    let dependencies: Dependencies;
+    try {
+      dependencies = format.parse(await fs.readFile(path.join(rootDir, manifest), 'utf-8'));
+    } catch {
+      // Skip unreadable or malformed manifests
+      continue;
+    }
+
+    const entry = dirs.get(dir) ?? { dir, dependencies: new Map(), runtimes: new Set() };
+    const existing = entry.dependencies.get(format.ecosystem);
+    entry.dependencies.set(format.ecosystem, existing ? new Map([...existing, ...dependencies]) : dependencies);
+    entry.runtimes.add(format.runtime);
+    dirs.set(dir, entry);
+  }
+  return [...dirs.values()];
+}
+
+// Each file goes to its innermost manifest directory, with its path made relative to it
+function groupFiles(files: ProjectFile[], dirs: string[]): Map<string, string[]> {
+  const innermostFirst = [...dirs].sort((a, b) => b.length - a.length);
+  const groups = new Map<string, string[]>();
+  for (const file of files) {
+    const dir = innermostFirst.find(d => d === '.' || file.path.startsWith(`${d}/`))!;
+    const relative = dir === '.' ? file.path : file.path.slice(dir.length + 1);
+    if (!groups.has(dir)) groups.set(dir, []);
+    groups.get(dir)!.push(relative);
+  }
+  return groups;
+}
@@ -0,0 +1,184 @@
+import type { DependencyEcosystem } from '../types/index.js';
+
+/** Dependency names of one manifest mapped to their declared versions ('' when unpinned) */
+export type Dependencies = Map<string, string>;
+
+interface ManifestFormat {
+  ecosystem: DependencyEcosystem;
+  runtime: string;
+  parse: (content: string) => Dependencies;
+}
+
+/** Dependency and build folders never searched for manifests */
+export const IGNORED_DIRS = ['**/node_modules/**', '**/target/**', '**/vendor/**', '**/.venv/**', '**/venv/**'];
+
+const NODE_DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'];
+
+const CARGO_DEPENDENCY_SECTIONS = /^\[(?:(?:target\.[^\]]+\.)?(?:dev-|build-)?dependencies)\]$/;
+
+/** Manifest file names, the ecosystem they declare dependencies for, and the runtime they imply */
+export const MANIFESTS: Record<string, ManifestFormat> = {
+  'package.json': { ecosystem: 'npm', runtime: 'Node.js', parse: parsePackageJson },
+  'requirements.txt': { ecosystem: 'pypi', runtime: 'Python', parse: parseRequirements },
+  'pyproject.toml': { ecosystem: 'pypi', runtime: 'Python', parse: parsePyproject },
+  'Pipfile': { ecosystem: 'pypi', runtime: 'Python', parse: content => tomlTable(content, /^\[(?:dev-)?packages\]$/) },
+  'go.mod': { ecosystem: 'go', runtime: 'Go', parse: parseGoMod },
+  'Cargo.toml': { ecosystem: 'cargo', runtime: 'Rust', parse: parseCargoToml },
+  'Gemfile': { ecosystem: 'gem', runtime: 'Ruby', parse: parseGemfile },
+  'composer.json': { ecosystem: 'composer', runtime: 'PHP', parse: parseComposerJson },
+  'pom.xml': { ecosystem: 'maven', runtime: 'JVM', parse: parsePom },
+  'build.gradle': { ecosystem: 'maven', runtime: 'JVM', parse: parseGradle },
+  'build.gradle.kts': { ecosystem: 'maven', runtime: 'JVM', parse: parseGradle },
+};
+
+export function parsePackageJson(content: string): Dependencies {
+  const pkg = JSON.parse(content);
+  const dependencies: Dependencies = new Map();
+  for (const field of NODE_DEPENDENCY_FIELDS) {
+    for (const [name, version] of Object.entries(pkg[field] || {})) {
+      dependencies.set(name, cleanVersion(String(version)));
+    }
+  }
+  return dependencies;
+}
+
+// Module paths and versions named by `require` lines and blocks of go.mod
+export function parseGoMod(mod: string): Dependencies {
+  const dependencies: Dependencies = new Map();
+  let inBlock = false;
+  for (const raw of mod.split('\n')) {
+    const line = raw.replace(/\/\/.*$/, '').trim();
+    let requirement: string | undefined;
+    if (inBlock) {
+      if (line === ')') inBlock = false;
+      else requirement = line;
+    } else if (/^require\s*\($/.test(line)) {
+      inBlock = true;
+    } else if (line.startsWith('require ')) {
+      requirement = line.slice('require '.length);
+    }
+    const [name, version] = requirement?.trim().split(/\s+/) ?? [];
+    if (name) dependencies.set(name, cleanVersion(version ?? ''));
+  }
+  return dependencies;
+}
+
+// Every dependency table of a Cargo.toml, including target-specific ones
+export function parseCargoToml(toml: string): Dependencies {
+  return tomlTable(toml, CARGO_DEPENDENCY_SECTIONS);
+}
+
+/** Dependencies from every table whose header matches `section`, e.g. Cargo's `[dependencies]` */
+export function tomlTable(toml: string, section: RegExp): Dependencies {
+  const dependencies: Dependencies = new Map();
+  let inSection = false;
+  for (const raw of toml.split('\n')) {
+    const line = raw.replace(/#.*$/, '').trim();
+    if (line.startsWith('[')) {
+      inSection = section.test(line);
+      continue;
+    }
+    const entry = inSection ? line.match(/^([\w.-]+?)(?:\.workspace)?\s*=\s*(.*)$/) : null;
+    if (!entry) continue;
+    // `name = "1.0"` or `name = { version = "1.0", ... }`
+    const version = entry[2].match(/^["']([^"']*)["']/)?.[1] ?? entry[2].match(/version\s*=\s*["']([^"']*)["']/)?.[1] ?? '';
+    dependencies.set(entry[1], cleanVersion(version));
+  }
+  return dependencies;
+}
+
+/** Body of a `[name]` table, up to the next table header */
+export function tomlSection(toml: string, name: string): string {
+  const lines = toml.split('\n');
+  const start = lines.findIndex(line => line.trim() === `[${name}]`);
+  if (start === -1) return '';
+  const end = lines.findIndex((line, i) => i > start && line.trim().startsWith('['));
+  return lines.slice(start + 1, end === -1 ? undefined : end).join('\n');
+}
+
+/** Strings of a possibly multi-line `key = [ ... ]` array */
+export function tomlArray(section: string, key: string): string[] {
+  // Brackets inside quoted strings, like `"fastapi[all]"`, don't close the array
+  const match = section.match(new RegExp(`^\\s*${key}\\s*=\\s*\\[((?:"[^"]*"|'[^']*'|[^\\]"'])*)\\]`, 'm'));
+  if (!match) return [];
+  return [...match[1].replace(/#.*$/gm, '').matchAll(/"([^"]*)"|'([^']*)'/g)].map(m => m[1] ?? m[2]);
+}
+
+export function tomlString(section: string, key: string): string | undefined {
+  return section.match(new RegExp(`^\\s*${key}\\s*=\\s*["']([^"']+)["']`, 'm'))?.[1];
+}
+
+function parseRequirements(content: string): Dependencies {
+  const dependencies: Dependencies = new Map();
+  for (const raw of content.split('\n')) {
+    const line = raw.replace(/#.*$/, '').trim();
+    if (!line || line.startsWith('-')) continue;
+    const requirement = parseRequirement(line);
+    if (requirement) dependencies.set(...requirement);
+  }
+  return dependencies;
+}
+
+// PEP 621 `dependencies = [...]` plus Poetry's dependency tables
+function parsePyproject(content: string): Dependencies {
+  const dependencies = tomlTable(content, /^\[tool\.poetry\.(?:dev-)?dependencies\]$/);
+  for (const line of tomlArray(tomlSection(content, 'project'), 'dependencies')) {
+    const requirement = parseRequirement(line);
+    if (requirement) dependencies.set(...requirement);
+  }
+  return dependencies;
+}
+
+// `fastapi[all]>=0.100` → fastapi, 0.100
+function parseRequirement(line: string): [string, string] | undefined {
+  const match = line.match(/^([A-Za-z0-9][\w.-]*)(?:\[[^\]]*\])?\s*(?:[=~<>!]=?\s*([\w.*]+))?/);
+  return match ? [match[1].toLowerCase(), cleanVersion(match[2] ?? '')] : undefined;
+}
+
+function parseGemfile(content: string): Dependencies {
+  const dependencies: Dependencies = new Map();
+  for (const match of content.matchAll(/^\s*gem\s+["']([^"']+)["'](?:\s*,\s*["']([^"']+)["'])?/gm)) {
+    dependencies.set(match[1], cleanVersion(match[2] ?? ''));
+  }
+  return dependencies;
+}
+
+function parseComposerJson(content: string): Dependencies {
+  const composer = JSON.parse(content);
+  const dependencies: Dependencies = new Map();
+  for (const [name, version] of Object.entries({ ...composer.require, ...composer['require-dev'] })) {
+    dependencies.set(name, cleanVersion(String(version)));
+  }
+  return dependencies;
+}
+
+// `groupId:artifactId` of each <dependency>, and of the <parent> (Spring Boot's starter parent)
+function parsePom(content: string): Dependencies {
+  const dependencies: Dependencies = new Map();
+  for (const match of content.matchAll(/<(dependency|parent)>([\s\S]*?)<\/\1>/g)) {
+    const field = (tag: string) => match[2].match(new RegExp(`<${tag}>\\s*([^<]+?)\\s*</${tag}>`))?.[1];
+    const group = field('groupId');
+    const artifact = field('artifactId');
+    const version = field('version') ?? '';
+    if (group && artifact) dependencies.set(`${group}:${artifact}`, version.startsWith('$') ? '' : version);
+  }
+  return dependencies;
+}
+
+// `implementation 'group:artifact:version'` and plugin ids in Groovy or Kotlin DSL
+function parseGradle(content: string): Dependencies {
+  const dependencies: Dependencies = new Map();
+  for (const match of content.matchAll(/["']([\w.-]+):([\w.-]+)(?::([\w.-]+))?["']/g)) {
+    dependencies.set(`${match[1]}:${match[2]}`, match[3] ?? '');
+  }
+  for (const match of content.matchAll(/\bid\s*\(?\s*["']([\w.-]+)["']\s*\)?(?:\s*version\s*["']([\w.-]+)["'])?/g)) {
+    dependencies.set(match[1], match[2] ?? '');
+  }
+  return dependencies;
+}
+
+// `^1.2.3`, `~> 7.0`, `>=0.100` and `v1.9.1` all become the bare version
+function cleanVersion(version: string): string {
+  const match = version.match(/\d+(?:\.[\w-]+)*/);
+  return match && !version.startsWith('workspace:') ? match[0] : '';
+}
@@ -3,6 +3,7 @@ import { globby } from 'globby';
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import type { ProjectFile } from '../types/index.js';
+import { languageOf } from '../analyzers/index.js';
 
 export const useFileDiscovery = () => {
   const [loading, setLoading] = useState(false);
@@ -33,13 +34,10 @@ export const useFileDiscovery = () => {
         // Skip large files
         if (stats.size > 1024 * 1024) continue; // 1MB limit
         
-        const ext = path.extname(filePath);
-        const language = getLanguageFromExt(ext);
-        
         files.push({
           path: filePath,
           size: stats.size,
-          language,
+          language: languageOf(filePath),
           isEntry: isEntryPoint(filePath),
         });
       }
@@ -53,27 +51,6 @@ export const useFileDiscovery = () => {
   return { discoverFiles, loading };
 };
 
-function getLanguageFromExt(ext: string): string | undefined {
-  const langMap: Record<string, string> = {
-    '.ts': 'typescript',
-    '.tsx': 'typescript',
-    '.js': 'javascript',
-    '.jsx': 'javascript',
-    '.py': 'python',
-    '.java': 'java',
-    '.go': 'go',
-    '.rs': 'rust',
-    '.cpp': 'cpp',
-    '.c': 'c',
-    '.cs': 'csharp',
-    '.rb': 'ruby',
-    '.php': 'php',
-    '.swift': 'swift',
-    '.kt': 'kotlin',
-  };
-  return langMap[ext];
-}
-
 function isEntryPoint(filePath: string): boolean {
   const entryPatterns = [
     'index.js', 'index.ts', 'main.js', 'main.ts',
@@ -1,17 +1,22 @@
 import { useCallback } from 'react';
 import type { Config, AnalysisResult, IndexedProject } from '../types/index.js';
 import { ProjectIndexer } from '../services/ProjectIndexer.js';
-import { DeepAnalyzer } from '../services/DeepAnalyzer.js';
+import { DeepAnalyzer, type StreamHandlers } from '../services/DeepAnalyzer.js';
+import { scopeProject } from '../services/WorkspaceDetector.js';
 
 export const useProjectAnalyzer = (config: Config) => {
   const analyzeProject = useCallback(async (
     question: string,
     filters: { include: string[]; exclude: string[] },
-    onProgress?: (progress: any) => void
-  ): Promise<{ result: AnalysisResult; project: IndexedProject }> => {
-    // Step 1: Index the project with progress callback
+    scope: string[],
+    onProgress?: (progress: any) => void,
+    streaming?: StreamHandlers,
+    signal?: AbortSignal,
+    live?: IndexedProject
+  ): Promise<{ result: AnalysisResult; project: IndexedProject; indexed: IndexedProject }> => {
+    // Step 1: Index the project with progress callback; watch mode keeps a live index instead
     const indexer = new ProjectIndexer(config);
-    const project = await indexer.indexProject(process.cwd(), filters, (progress) => {
+    const project = live ?? await indexer.indexProject(process.cwd(), filters, (progress) => {
       if (onProgress) {
         // Also count insights as we find relevant code
         const insights = (progress.filesScanned || 0) > 0 
@@ -19,17 +24,21 @@ export const useProjectAnalyzer = (config: Config) => {
           : 0;
         onProgress({ ...progress, insights });
       }
-    });
+    }, signal);
+
+    // The whole repository is indexed so cross-package imports resolve;
+    // only the chosen packages are analyzed
+    const scoped = scopeProject(project, scope);
 
     // Step 2: Deep analysis with multiple Gemini calls
     const analyzer = new DeepAnalyzer(config);
-    const result = await analyzer.analyzeProject(question, project, (message) => {
+    const result = await analyzer.analyzeProject(question, scoped, (message) => {
       if (onProgress) {
         onProgress({ currentFile: message });
       }
-    });
+    }, streaming, signal);
 
-    return { result, project };
+    return { result, project: scoped, indexed: project };
   }, [config]);
 
   return { analyzeProject };
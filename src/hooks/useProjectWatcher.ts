@@ -0,0 +1,65 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { Config, IndexedProject, FileChange } from '../types/index.js';
+import { ProjectIndexer } from '../services/ProjectIndexer.js';
+import { ProjectWatcher, type WatchUpdate } from '../services/ProjectWatcher.js';
+
+/**
+ * Holds the live index in watch mode. `watch` hands over a freshly
+ * indexed project; from then on it is updated as files change and
+ * `onUpdate` hears about every change. Without `config.watch`, `watch`
+ * does nothing and `project` stays null, so every question re-indexes.
+ */
+export const useProjectWatcher = (
+  config: Config,
+  filters: { include: string[]; exclude: string[] },
+  onUpdate: (update: WatchUpdate) => void
+) => {
+  const [project, setProject] = useState<IndexedProject | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const latest = useRef({ project, onUpdate });
+  latest.current = { project, onUpdate };
+
+  const watch = useCallback((indexed: IndexedProject) => {
+    if (config.watch) setProject(indexed);
+  }, [config.watch]);
+
+  // Restarted only when a different root is watched; updates replace the project in place
+  const root = project?.root;
+  useEffect(() => {
+    if (!config.watch || !root || !latest.current.project) return;
+
+    let active: ProjectWatcher | null = null;
+    let cancelled = false;
+    setStatus('Watching for changes');
+    ProjectWatcher.start(
+      new ProjectIndexer(config),
+      latest.current.project,
+      filters,
+      (update) => {
+        setProject(update.project);
+        setStatus(describeChanges(update.changes));
+        latest.current.onUpdate(update);
+      },
+      (error) => setStatus(`Watch update failed: ${error.message}`)
+    ).then(
+      (watcher) => {
+        if (cancelled) watcher.stop();
+        else active = watcher;
+      },
+      (error) => setStatus(`Watching unavailable: ${error instanceof Error ? error.message : String(error)}`)
+    );
+
+    return () => {
+      cancelled = true;
+      active?.stop();
+    };
+  }, [config, root, filters]);
+
+  return { project, watch, status };
+};
+
+function describeChanges(changes: FileChange[]): string {
+  const time = new Date().toLocaleTimeString();
+  if (changes.length === 1) return `Updated ${changes[0].path} (${changes[0].kind}) at ${time}`;
+  return `Updated ${changes.length} files at ${time}`;
+}
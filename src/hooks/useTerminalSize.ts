@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { useStdout } from 'ink';
+
+export interface TerminalSize {
+  columns: number;
+  rows: number;
+}
+
+// What a pipe or CI log reports as no size at all
+const FALLBACK: TerminalSize = { columns: 80, rows: 24 };
+
+const sizeOf = (stdout: NodeJS.WriteStream): TerminalSize => ({
+  columns: stdout.columns || FALLBACK.columns,
+  rows: stdout.rows || FALLBACK.rows,
+});
+
+/** The terminal's size, updated when the window is resized */
+export const useTerminalSize = (): TerminalSize => {
+  const { stdout } = useStdout();
+  const [size, setSize] = useState(() => sizeOf(stdout));
+
+  useEffect(() => {
+    const onResize = () => setSize(sizeOf(stdout));
+    onResize();
+    stdout.on('resize', onResize);
+    return () => {
+      stdout.off('resize', onResize);
+    };
+  }, [stdout]);
+
+  return size;
+};
@@ -2,26 +2,78 @@
 
 import React from 'react';
 import { render } from 'ink';
+import yargs from 'yargs';
+import { hideBin } from 'yargs/helpers';
 import { App } from './ui/App.js';
 import { loadConfig } from './config/config.js';
+import { showCacheStats, pruneCache } from './commands/cache.js';
 import chalk from 'chalk';
 import dotenv from 'dotenv';
 import process from 'node:process';
 
 dotenv.config();
 
-async function main() {
-  try {
-    const config = await loadConfig();
+// chalk, and so Ink, only looks at FORCE_COLOR; https://no-color.org asks for NO_COLOR too
+if (process.env.NO_COLOR) {
+  chalk.level = 0;
+}
 
-    if (!config.apiKey) {
-      console.error(chalk.red('Error: GEMINI_API_KEY is not set.'));
-      console.error(chalk.yellow('Please set your API key in the .env file or as an environment variable.'));
-      process.exit(1);
-    }
+async function runTui(useCache: boolean, watch: boolean) {
+  // --watch turns watch mode on; without it WATCH from the environment applies
+  const config = await loadConfig(watch ? { useCache, watch } : { useCache });
+
+  if (config.provider === 'gemini' && !config.apiKey) {
+    console.error(chalk.red('Error: GEMINI_API_KEY is not set.'));
+    console.error(chalk.yellow('Please set your API key in the .env file or as an environment variable.'));
+    process.exit(1);
+  }
 
-    const { waitUntilExit } = render(<App config={config} />);
-    await waitUntilExit();
+  const { waitUntilExit } = render(<App config={config} />);
+  await waitUntilExit();
+}
+
+async function main() {
+  try {
+    await yargs(hideBin(process.argv))
+      .scriptName('explain')
+      .command(
+        '$0',
+        'Open the interactive code explainer',
+        (y) => y,
+        async (argv) => runTui(argv.cache as boolean, argv.watch as boolean)
+      )
+      .command('cache <action>', 'Inspect or prune the on-disk cache', (y) => y
+        .positional('action', {
+          choices: ['stats', 'prune'] as const,
+          describe: 'stats: show cache usage · prune: remove old entries',
+        })
+        .option('older-than', {
+          type: 'number',
+          default: 30,
+          describe: 'Days after which prune removes entries (0 clears everything)',
+        }),
+        async (argv) => {
+          const config = await loadConfig();
+          if (argv.action === 'stats') {
+            await showCacheStats(config);
+          } else {
+            await pruneCache(config, argv.olderThan);
+          }
+        }
+      )
+      .option('cache', {
+        type: 'boolean',
+        default: true,
+        describe: 'Reuse cached indexes and model responses (disable with --no-cache)',
+      })
+      .option('watch', {
+        type: 'boolean',
+        default: false,
+        describe: 'Keep the index up to date as files change while the explainer is open',
+      })
+      .strict()
+      .help()
+      .parseAsync();
   } catch (error) {
     console.error(chalk.red('Fatal error:'), error);
     process.exit(1);
@@ -41,4 +93,4 @@ process.on('unhandledRejection', (reason) => {
 main().catch((error) => {
   console.error(chalk.red('Failed to start ExplainCLI:'), error);
   process.exit(1);
-});
\ No newline at end of file
+});
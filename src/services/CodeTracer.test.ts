@@ -0,0 +1,105 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { IndexedProject } from '../types/index.js';
+import { loadConfig } from '../config/config.js';
+import { ProjectIndexer } from './ProjectIndexer.js';
+import { CodeTracer } from './CodeTracer.js';
+
+// main → start, which calls audit (a cycle with retry that reaches charge),
+// handleRequest (which also reaches charge) and renderHome (which does not)
+const FILES: Record<string, string> = {
+  'package.json': JSON.stringify({ name: 'fixture', main: 'src/main.ts' }),
+  'src/main.ts': `import { start } from './app.js';
+
+start();
+`,
+  'src/app.ts': `import { audit, handleRequest } from './payments.js';
+import { renderHome } from './views.js';
+
+export function start(): void {
+  audit(0);
+  handleRequest();
+  renderHome();
+}
+`,
+  'src/payments.ts': `export function audit(attempt: number): void {
+  retry(attempt);
+}
+
+export function retry(attempt: number): void {
+  if (attempt < 3) audit(attempt + 1);
+  chargeCard();
+}
+
+export function handleRequest(): void {
+  chargeCard();
+}
+
+export function chargeCard(): void {
+  console.log('charged');
+}
+`,
+  'src/views.ts': `export function renderHome(): void {
+  console.log('home');
+}
+`,
+};
+
+const FILTERS = { include: ['**/*.{ts,json}'], exclude: [] };
+
+let dir: string;
+let indexer: ProjectIndexer;
+let project: IndexedProject;
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'explain-trace-'));
+  for (const [file, content] of Object.entries(FILES)) {
+    await fs.mkdir(path.join(dir, 'project', path.dirname(file)), { recursive: true });
+    await fs.writeFile(path.join(dir, 'project', file), content);
+  }
+  const config = await loadConfig({
+    provider: 'mock',
+    model: 'mock',
+    mockScript: undefined,
+    cacheDir: path.join(dir, 'cache'),
+    useCache: false,
+    indexWorkers: 0,
+  });
+  indexer = new ProjectIndexer(config);
+  project = await indexer.indexProject(path.join(dir, 'project'), FILTERS);
+});
+
+after(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+test('follows only the calls leading to what the question names', async () => {
+  const steps = await new CodeTracer().traceExecutionPath('How is the card charged?', project);
+
+  assert.deepEqual(steps.map(step => step.symbol), ['start', 'audit', 'retry', 'chargeCard', 'handleRequest']);
+  assert.equal(steps[0].whyRelevant, 'Reached via src/main.ts → start');
+  assert.deepEqual(steps[0].linksTo, ['src/payments.ts#audit', 'src/payments.ts#handleRequest']);
+  assert.equal(steps[3].whyRelevant, 'Reached via src/main.ts → start → audit → retry → chargeCard');
+  assert.match(steps[3].code, /^export function chargeCard/);
+});
+
+test('finds branches through a cycle whichever branch is walked first', async () => {
+  // With handleRequest called first, chargeCard is visited before the audit/retry cycle
+  const app = path.join(dir, 'project', 'src/app.ts');
+  await fs.writeFile(app, FILES['src/app.ts'].replace('audit(0);\n  handleRequest();', 'handleRequest();\n  audit(0);'));
+  const { project: swapped } = await indexer.updateFiles(project, ['src/app.ts'], FILTERS);
+  await fs.writeFile(app, FILES['src/app.ts']);
+
+  const steps = await new CodeTracer().traceExecutionPath('How is the card charged?', swapped);
+  assert.deepEqual(steps.map(step => step.symbol), ['start', 'handleRequest', 'chargeCard', 'audit', 'retry']);
+});
+
+test('starts from a symbol quoted in the question', async () => {
+  const steps = await new CodeTracer().traceExecutionPath('What does `retry` do?', project);
+
+  assert.deepEqual(steps.map(step => step.symbol), ['retry', 'audit', 'chargeCard']);
+  assert.equal(steps[0].whyRelevant, 'Starting point of the trace');
+});
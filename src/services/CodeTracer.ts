@@ -1,257 +1,300 @@
 import fs from 'node:fs/promises';
 import path from 'node:path';
-import type { WalkthroughStep, IndexedProject } from '../types/index.js';
+import type { WalkthroughStep, IndexedProject, ProjectSymbol } from '../types/index.js';
+import { findSymbols, qualifiedName } from './SymbolIndex.js';
+import { entryFiles } from '../detectors/entryPoints.js';
 
+// How far calls are followed from a starting symbol
+const MAX_DEPTH = 6;
+
+// Longest walkthrough the tracer produces; deeper paths get cut here
+const MAX_STEPS = 12;
+
+// Symbols longer than this show only their first lines as the step's code
+const MAX_STEP_LINES = 40;
+
+// Names that only describe the code and never run
+const NON_CALLABLE = new Set(['interface', 'type']);
+
+interface Call {
+  callee: ProjectSymbol;
+  line: number;
+}
+
+export interface TraceOptions {
+  /** Start from this symbol (`name`, `Class.method` or `file#name`) instead of the entry points */
+  from?: string;
+}
+
+/**
+ * Traces execution paths through the project's static call graph. Calls
+ * come from the symbol index, so each step is a real function and each
+ * link a call the code actually makes; the model is only asked to narrate
+ * the result. When the question names things the graph can reach, only
+ * branches leading to them are followed.
+ */
 export class CodeTracer {
   async traceExecutionPath(
     question: string,
-    project: IndexedProject
+    project: IndexedProject,
+    options: TraceOptions = {}
   ): Promise<WalkthroughStep[]> {
-    const steps: WalkthroughStep[] = [];
+    const graph = new CallGraph(project);
     const keywords = this.extractKeywords(question);
-    
-    // Start from entry points
-    for (const entryPoint of project.entryPoints) {
-      const visited = new Set<string>();
-      await this.traceFromFile(
-        path.join(project.root, entryPoint),
-        keywords,
-        steps,
-        visited,
-        project
-      );
-    }
-    
-    // If no entry points, start from files that match keywords
-    if (steps.length === 0) {
-      const relevantFiles = project.files
-        .filter(f => this.fileMatchesKeywords(f, keywords))
-        .sort((a, b) => (b.isEntry ? 1 : 0) - (a.isEntry ? 1 : 0));
-      
-      for (const file of relevantFiles.slice(0, 5)) {
-        if (file.content) {
-          const relevantSpans = await this.extractRelevantSpans(
-            file.content,
-            keywords,
-            file.path
-          );
-          steps.push(...relevantSpans);
+    const matches = (s: ProjectSymbol) => keywords.some(kw => symbolMatches(s, kw));
+
+    // A symbol quoted in the question, like `indexProject`, is an explicit starting point
+    const from = options.from ?? question.match(/`([^`]+)`/)?.[1];
+    let roots = from ? graph.callable(findSymbols(project.symbols, from)) : [];
+    let leadsTo = (_: ProjectSymbol) => true;
+    let fromEntries = false;
+
+    if (roots.length === 0) {
+      roots = entryFiles(project.entryPoints).flatMap(entry => graph.entryCalls(entry));
+      fromEntries = true;
+      const distance = graph.distancesTo(matches);
+      leadsTo = s => (distance.get(s.id) ?? Infinity) <= MAX_DEPTH;
+
+      if (!roots.some(leadsTo)) {
+        // Nothing relevant is reachable from the entry points; start at the
+        // outermost relevant symbols instead, or trace everything if none match
+        const relevant = graph.outermost(graph.callable(project.symbols.symbols.filter(matches)));
+        if (relevant.length > 0) {
+          roots = relevant.slice(0, 3);
+          fromEntries = false;
         }
+        leadsTo = () => true;
       }
     }
-    
+
+    const steps: WalkthroughStep[] = [];
+    const visited = new Set<string>();
+    const walk = async (symbol: ProjectSymbol, chain: string[], depth: number) => {
+      if (visited.has(symbol.id) || steps.length >= MAX_STEPS) return;
+      visited.add(symbol.id);
+
+      const calls = graph.callsFrom(symbol).filter(call => leadsTo(call.callee));
+      steps.push(await this.stepFor(symbol, calls, chain, steps.length, project));
+      if (depth >= MAX_DEPTH) return;
+      for (const call of calls) {
+        await walk(call.callee, [...chain, qualifiedName(symbol)], depth + 1);
+      }
+    };
+
+    for (const root of roots.filter(leadsTo)) {
+      const start = fromEntries ? [this.entryFor(root, project) ?? root.file] : [];
+      await walk(root, start, 0);
+    }
+
     return steps;
   }
 
-  private async traceFromFile(
-    filePath: string,
-    keywords: string[],
-    steps: WalkthroughStep[],
-    visited: Set<string>,
+  private async stepFor(
+    symbol: ProjectSymbol,
+    calls: Call[],
+    chain: string[],
+    index: number,
     project: IndexedProject
-  ): Promise<void> {
-    if (visited.has(filePath)) return;
-    visited.add(filePath);
-    
+  ): Promise<WalkthroughStep> {
+    const lineEnd = Math.min(symbol.lineEnd, symbol.lineStart + MAX_STEP_LINES - 1);
+    const lines = (await this.readFile(symbol.file, project)).split('\n');
+    const name = qualifiedName(symbol);
+    const callees = calls.map(call => qualifiedName(call.callee));
+
+    return {
+      index,
+      file: symbol.file,
+      lineRange: [symbol.lineStart, lineEnd],
+      code: lines.slice(symbol.lineStart - 1, lineEnd).join('\n'),
+      explanation: callees.length > 0
+        ? `${capitalize(symbol.kind)} ${name} calls ${callees.join(', ')}`
+        : `${capitalize(symbol.kind)} ${name}`,
+      whyRelevant: chain.length > 0 ? `Reached via ${[...chain, name].join(' → ')}` : `Starting point of the trace`,
+      linksTo: calls.map(call => `${call.callee.file}#${qualifiedName(call.callee)}`),
+      symbol: name,
+    };
+  }
+
+  private entryFor(root: ProjectSymbol, project: IndexedProject): string | undefined {
+    return entryFiles(project.entryPoints).find(entry =>
+      (project.symbols.references.get(root.id) || []).some(ref => ref.file === entry && !ref.caller)
+    );
+  }
+
+  private async readFile(file: string, project: IndexedProject): Promise<string> {
+    const indexed = project.files.find(f => f.path === file);
+    if (indexed?.content) return indexed.content;
     try {
-      const content = await fs.readFile(filePath, 'utf-8');
-      const lines = content.split('\n');
-      
-      // Find imports
-      const imports = this.findImports(lines);
-      
-      // Find keyword matches and function definitions
-      const relevantSpans = await this.extractRelevantSpans(content, keywords, filePath);
-      steps.push(...relevantSpans);
-      
-      // Follow imports that might be relevant
-      for (const imp of imports) {
-        if (this.importMatchesKeywords(imp, keywords)) {
-          const resolvedPath = this.resolveImportPath(imp, filePath, project);
-          if (resolvedPath) {
-            await this.traceFromFile(resolvedPath, keywords, steps, visited, project);
-          }
-        }
-      }
-    } catch (error) {
-      // File might not exist or be readable
+      return await fs.readFile(path.join(project.root, file), 'utf-8');
+    } catch {
+      // Deleted since indexing; the step keeps its range without code
+      return '';
     }
   }
 
-  private async extractRelevantSpans(
-    content: string,
-    keywords: string[],
-    filePath: string
-  ): Promise<WalkthroughStep[]> {
-    const lines = content.split('\n');
-    const steps: WalkthroughStep[] = [];
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      let isRelevant = false;
-      let explanation = '';
-      let whyRelevant = '';
-      
-      // Check for keyword matches
-      for (const keyword of keywords) {
-        if (line.toLowerCase().includes(keyword.toLowerCase())) {
-          isRelevant = true;
-          
-          // Generate specific explanations based on actual code patterns
-          if (line.includes('import') && line.includes('from')) {
-            const moduleMatch = line.match(/from\s+['"]([^'"]+)['"]/);
-            const importMatch = line.match(/import\s+(?:\{([^}]+)\}|(\w+))/);
-            const imported = importMatch ? (importMatch[1] || importMatch[2]) : 'module';
-            explanation = `Imports ${imported} from ${moduleMatch ? moduleMatch[1] : 'module'}`;
-            whyRelevant = `This brings in the ${keyword} functionality needed for this feature`;
-          } else if (line.includes('require')) {
-            const moduleMatch = line.match(/require\s*\(\s*['"]([^'"]+)['"]\s*\)/);
-            explanation = `Loads ${moduleMatch ? moduleMatch[1] : 'module'} using CommonJS`;
-            whyRelevant = `This loads the ${keyword} module for use in this file`;
-          } else if (line.includes('new ')) {
-            const classMatch = line.match(/new\s+(\w+)/);
-            explanation = `Creates new instance of ${classMatch ? classMatch[1] : 'class'}`;
-            whyRelevant = `This initializes the ${keyword} service that will handle the main functionality`;
-          } else if (line.includes('class ')) {
-            const classMatch = line.match(/class\s+(\w+)/);
-            explanation = `Defines ${classMatch ? classMatch[1] : 'class'} class`;
-            whyRelevant = `This class encapsulates the ${keyword} logic and methods`;
-          } else if (line.includes('function ') || line.includes('const ') && line.includes('=>')) {
-            const funcMatch = line.match(/(?:function|const)\s+(\w+)/);
-            explanation = `Defines ${funcMatch ? funcMatch[1] : 'function'} function`;
-            whyRelevant = `This function handles ${keyword}-related operations`;
-          } else if (line.includes('await ') || line.includes('.then')) {
-            explanation = `Async call involving ${keyword}`;
-            whyRelevant = `This performs an asynchronous ${keyword} operation and waits for the result`;
-          } else if (line.match(/\.\w+\(/)) {
-            const methodMatch = line.match(/\.(\w+)\(/);
-            explanation = `Calls ${methodMatch ? methodMatch[1] : 'method'} method`;
-            whyRelevant = `This invokes the ${keyword} API to perform the requested action`;
-          } else if (line.includes('export ')) {
-            const exportMatch = line.match(/export\s+(?:default\s+)?(\w+)/);
-            explanation = `Exports ${exportMatch ? exportMatch[1] : 'component'}`;
-            whyRelevant = `This makes the ${keyword} functionality available to other modules`;
-          } else if (line.includes('=') && !line.includes('==')) {
-            const varMatch = line.match(/(?:const|let|var)?\s*(\w+)\s*=/);
-            explanation = `Assigns value to ${varMatch ? varMatch[1] : 'variable'}`;
-            whyRelevant = `This stores ${keyword} configuration or data for later use`;
-          } else {
-            explanation = `Uses ${keyword} in code logic`;
-            whyRelevant = `This line contains logic that directly involves ${keyword}`;
-          }
-          break;
-        }
-      }
-      
-      if (isRelevant) {
-        // Get context around the line
-        const startLine = Math.max(0, i - 2);
-        const endLine = Math.min(lines.length - 1, i + 5);
-        const codeSnippet = lines.slice(startLine, endLine + 1).join('\n');
-        
-        steps.push({
-          index: steps.length,
-          file: path.relative(process.cwd(), filePath),
-          lineRange: [startLine + 1, endLine + 1],
-          code: codeSnippet,
-          explanation,
-          whyRelevant,
-          linksTo: this.findLinkedFiles(lines[i], filePath),
-        });
-      }
-    }
-    
-    return steps;
+  private extractKeywords(question: string): string[] {
+    // Extract meaningful keywords from the question
+    const commonWords = new Set([
+      'where', 'is', 'the', 'how', 'what', 'when', 'why', 'does',
+      'do', 'in', 'of', 'a', 'an', 'to', 'from', 'with', 'for',
+      'implemented', 'used', 'works', 'located', 'defined'
+    ]);
+
+    return question
+      .toLowerCase()
+      .replace(/[?.,!`]/g, '')
+      .split(/\s+/)
+      .filter(word => word.length > 2 && !commonWords.has(word))
+      // "parsing" should find parse(), "tokens" should find Token
+      .map(word => (word.length > 5 ? word.replace(/(?:ing|ed|es|s)$/, '') : word));
   }
+}
+
+export interface StepNarration {
+  index: number;
+  explanation: string;
+  whyRelevant: string;
+}
+
+/** Prompt for the `narration` stage; `redact` is applied to each step's code */
+export function narrationPrompt(question: string, steps: WalkthroughStep[], redact: (code: string) => string): string {
+  const listing = steps.map(step => `Step ${step.index}: ${step.symbol} in ${step.file} (lines ${step.lineRange[0]}-${step.lineRange[1]})
+${step.whyRelevant}. ${step.explanation}.
+\`\`\`
+${redact(step.code)}
+\`\`\``).join('\n\n');
+
+  return `This execution path was traced through the static call graph of a project
+to answer: "${question}"
 
-  private findImports(lines: string[]): string[] {
-    const imports: string[] = [];
-    
-    for (const line of lines) {
-      // ES6 imports
-      const importMatch = line.match(/import\s+.*\s+from\s+['"]([^'"]+)['"]/);
-      if (importMatch) {
-        imports.push(importMatch[1]);
+${listing}
+
+Narrate the path. Do not add, remove or reorder steps. For each step, explain
+what the code does and how it moves the flow toward answering the question.
+
+Return a JSON array:
+[{
+  "index": number,
+  "explanation": "what this step does",
+  "whyRelevant": "its role in the path"
+}]`;
+}
+
+/**
+ * Takes only explanations from the model's narration; the path stays as
+ * traced, and steps the model skipped keep the tracer's own description.
+ */
+export function applyNarration(steps: WalkthroughStep[], narration: StepNarration[]): WalkthroughStep[] {
+  const byIndex = new Map(narration.map(n => [n.index, n]));
+  return steps.map(step => {
+    const told = byIndex.get(step.index);
+    return told ? { ...step, explanation: told.explanation, whyRelevant: told.whyRelevant } : step;
+  });
+}
+
+/**
+ * Caller → callee edges derived from the symbol index's references. Uses
+ * at a module's top level have no caller and are kept per file, which is
+ * how entry points start their calls.
+ */
+class CallGraph {
+  private calls = new Map<string, Call[]>();
+  private byId = new Map<string, ProjectSymbol>();
+  private callers = new Map<string, ProjectSymbol[]>();
+
+  constructor(private project: IndexedProject) {
+    for (const symbol of project.symbols.symbols) this.byId.set(symbol.id, symbol);
+
+    for (const [id, refs] of project.symbols.references) {
+      const callee = this.runnable(this.byId.get(id));
+      if (!callee) continue;
+      for (const ref of refs) {
+        const key = `${ref.file}#${ref.caller ?? ''}`;
+        const list = this.calls.get(key) || [];
+        list.push({ callee, line: ref.line });
+        this.calls.set(key, list);
       }
-      
-      // CommonJS requires
-      const requireMatch = line.match(/require\s*\(\s*['"]([^'"]+)['"]\s*\)/);
-      if (requireMatch) {
-        imports.push(requireMatch[1]);
+    }
+
+    for (const caller of this.byId.values()) {
+      for (const call of this.callsFrom(caller)) {
+        const list = this.callers.get(call.callee.id) || [];
+        list.push(caller);
+        this.callers.set(call.callee.id, list);
       }
     }
-    
-    return imports;
   }
 
-  private findLinkedFiles(line: string, currentFile: string): string[] {
-    const links: string[] = [];
-    
-    // Find imports in the line
-    const importMatch = line.match(/from\s+['"]([^'"]+)['"]/);
-    if (importMatch) {
-      links.push(importMatch[1]);
-    }
-    
-    const requireMatch = line.match(/require\s*\(\s*['"]([^'"]+)['"]\s*\)/);
-    if (requireMatch) {
-      links.push(requireMatch[1]);
-    }
-    
-    return links;
+  // Distinct callees in the order they are first called
+  callsFrom(symbol: ProjectSymbol): Call[] {
+    return this.ordered(this.calls.get(symbol.id) || []).filter(call => call.callee.id !== symbol.id);
   }
 
-  private importMatchesKeywords(importPath: string, keywords: string[]): boolean {
-    const lowerImport = importPath.toLowerCase();
-    return keywords.some(kw => lowerImport.includes(kw.toLowerCase()));
+  entryCalls(file: string): ProjectSymbol[] {
+    const topLevel = this.ordered(this.calls.get(`${file}#`) || []).map(call => call.callee);
+    if (topLevel.length > 0) return topLevel;
+    // Entry files that only export, like a library's index or a `main()` module
+    return this.callable(this.project.symbols.symbols.filter(s => s.file === file && s.exported));
   }
 
-  private fileMatchesKeywords(file: any, keywords: string[]): boolean {
-    const lowerPath = file.path.toLowerCase();
-    const lowerContent = (file.content || '').toLowerCase();
-    
-    return keywords.some(kw => {
-      const lower = kw.toLowerCase();
-      return lowerPath.includes(lower) || lowerContent.includes(lower);
-    });
+  callable(symbols: ProjectSymbol[]): ProjectSymbol[] {
+    return symbols.flatMap(s => this.runnable(s) ?? []);
   }
 
-  private resolveImportPath(
-    importPath: string,
-    fromFile: string,
-    project: IndexedProject
-  ): string | null {
-    // Handle relative imports
-    if (importPath.startsWith('./') || importPath.startsWith('../')) {
-      const dir = path.dirname(fromFile);
-      const resolved = path.resolve(dir, importPath);
-      
-      // Try with different extensions
-      const extensions = ['.ts', '.tsx', '.js', '.jsx', '/index.ts', '/index.tsx', '/index.js', '/index.jsx'];
-      for (const ext of ['', ...extensions]) {
-        const fullPath = resolved + ext;
-        if (project.files.some(f => path.join(project.root, f.path) === fullPath)) {
-          return fullPath;
+  // Symbols none of the others call, the ones doing the most calling first
+  outermost(symbols: ProjectSymbol[]): ProjectSymbol[] {
+    const called = new Set(symbols.flatMap(s => this.callsFrom(s).map(call => call.callee.id)));
+    return symbols
+      .filter(s => !called.has(s.id))
+      .sort((a, b) => this.callsFrom(b).length - this.callsFrom(a).length);
+  }
+
+  /**
+   * For each symbol that can reach one matching `predicate`, the fewest
+   * calls it takes (0 for a match itself). Found breadth-first from the
+   * matches along reversed call edges, so the answer for a symbol does not
+   * depend on which caller asks first.
+   */
+  distancesTo(predicate: (s: ProjectSymbol) => boolean): Map<string, number> {
+    const distance = new Map<string, number>();
+    let frontier = this.project.symbols.symbols.filter(predicate);
+    for (const symbol of frontier) distance.set(symbol.id, 0);
+
+    for (let hops = 1; frontier.length > 0; hops++) {
+      const next: ProjectSymbol[] = [];
+      for (const symbol of frontier) {
+        for (const caller of this.callers.get(symbol.id) || []) {
+          if (distance.has(caller.id)) continue;
+          distance.set(caller.id, hops);
+          next.push(caller);
         }
       }
+      frontier = next;
     }
-    
-    // Handle node_modules imports (simplified)
-    return null;
+    return distance;
   }
 
-  private extractKeywords(question: string): string[] {
-    // Extract meaningful keywords from the question
-    const commonWords = new Set([
-      'where', 'is', 'the', 'how', 'what', 'when', 'why', 'does', 
-      'do', 'in', 'of', 'a', 'an', 'to', 'from', 'with', 'for',
-      'implemented', 'used', 'works', 'located', 'defined'
-    ]);
-    
-    return question
-      .toLowerCase()
-      .replace(/[?.,!]/g, '')
-      .split(/\s+/)
-      .filter(word => word.length > 2 && !commonWords.has(word));
+  // What running a symbol executes: a class runs its constructor
+  private runnable(symbol: ProjectSymbol | undefined): ProjectSymbol | undefined {
+    if (!symbol || NON_CALLABLE.has(symbol.kind)) return undefined;
+    if (symbol.kind !== 'class') return symbol;
+    return this.byId.get(`${symbol.file}#${symbol.name}.constructor`)
+      ?? this.byId.get(`${symbol.file}#${symbol.name}.__init__`)
+      ?? symbol;
   }
-}
\ No newline at end of file
+
+  private ordered(calls: Call[]): Call[] {
+    const seen = new Set<string>();
+    return [...calls]
+      .sort((a, b) => a.line - b.line)
+      .filter(call => !seen.has(call.callee.id) && seen.add(call.callee.id));
+  }
+}
+
+function symbolMatches(symbol: ProjectSymbol, keyword: string): boolean {
+  return qualifiedName(symbol).toLowerCase().includes(keyword);
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { IndexedProject, ProjectFile } from '../types/index.js';
+import { ContextBuilder } from './ContextBuilder.js';
+import { MockProvider } from './providers/MockProvider.js';
+
+// Mock token counts are `length / 4`, so 4 characters make a token
+const builder = () => new ContextBuilder(new MockProvider());
+
+const source = (filePath: string, content: string): ProjectFile => ({
+  path: filePath,
+  size: content.length,
+  language: 'typescript',
+  content,
+});
+
+function project(files: ProjectFile[]): IndexedProject {
+  return {
+    root: '/project',
+    name: 'project',
+    files,
+    entryPoints: [],
+    frameworks: [],
+    runtimes: ['Node.js'],
+    detections: [],
+    languages: new Set(['typescript']),
+    importGraph: new Map(),
+    symbols: { symbols: [], references: new Map() },
+    workspace: { tools: [], packages: [] },
+    totalSize: files.reduce((sum, f) => sum + f.size, 0),
+  };
+}
+
+test('fitLines keeps leading lines within the budget and reports the rest', () => {
+  const lines = Array.from({ length: 10 }, (_, i) => `line ${i}`); // 7 characters + newline = 2 tokens each
+  const fitted = builder().fitLines(lines, 7, 'test lines');
+
+  assert.equal(fitted.tokens, 6);
+  assert.deepEqual(fitted.text.split('\n'), ['line 0', 'line 1', 'line 2', '... 7 more omitted']);
+  assert.deepEqual(fitted.omissions, ['7 of 10 test lines left out of the context']);
+
+  const all = builder().fitLines(lines, 100, 'test lines');
+  assert.equal(all.text.split('\n').length, 10);
+  assert.deepEqual(all.omissions, []);
+});
+
+test('fitFile drops the functions least related to the question first', () => {
+  const filler = (name: string) => `function ${name}() {\n${'  work();\n'.repeat(20)}}`;
+  const file = source('src/auth.ts', [filler('parseConfig'), filler('verifyToken'), filler('renderPage')].join('\n'));
+  const fitted = builder().fitFile(file, 'How is the token verified? verifyToken', 250);
+
+  assert.ok(fitted.tokens <= 250);
+  assert.match(fitted.text, /function verifyToken/);
+  assert.doesNotMatch(fitted.text, /function renderPage/);
+  assert.match(fitted.text, /lines \d+-\d+ omitted/);
+  assert.equal(fitted.omissions.length, 1);
+  assert.match(fitted.omissions[0], /^src\/auth\.ts: 1 section omitted \(renderPage\)/);
+});
+
+test('build stays within its budget and lists the files it left out', async () => {
+  const files = Array.from({ length: 20 }, (_, i) => source(`src/module${i}.ts`, `export const value${i} = ${i};\n`.repeat(40)));
+  files.push(source('src/payments.ts', 'export function charge() {}\n'));
+  const budget = 1000;
+  const context = await builder().build(project(files), 'How are payments charged?', budget);
+
+  assert.ok(context.tokens <= budget, `${context.tokens} tokens used`);
+  assert.ok(context.text.length / 4 <= budget * 1.05);
+  // The most relevant file comes first
+  const bodies = context.text.slice(context.text.indexOf('Code Files'));
+  assert.ok(bodies.indexOf('src/payments.ts') < bodies.indexOf('src/module'));
+  assert.ok(context.omissions.some(o => /lower-relevance files? left out of the context/.test(o)));
+});
@@ -0,0 +1,422 @@
+import type { IndexedProject, LLMProvider, ProjectFile } from '../types/index.js';
+import { describeDetections } from '../detectors/index.js';
+import { describeEntryPoints } from '../detectors/entryPoints.js';
+
+export interface CodeUnit {
+  name: string;
+  startLine: number;
+  endLine: number;
+  // Opening/closing line of a declaration that was split into members
+  structural?: boolean;
+}
+
+export interface FittedText {
+  text: string;
+  tokens: number;
+  omissions: string[];
+}
+
+// Share of the budget the file tree and import graph may use at most;
+// whatever they leave unused goes to file bodies
+const TREE_SHARE = 0.1;
+const GRAPH_SHARE = 0.1;
+
+// Below this many tokens a partial file is not worth including
+const MIN_PARTIAL_FILE_TOKENS = 300;
+
+// Rough sample size used to calibrate the provider's tokenizer
+const CALIBRATION_SAMPLE_CHARS = 20000;
+
+/**
+ * Assembles prompt context within a token budget. Token counts come from the
+ * provider: one real count calibrates a characters-per-token ratio that is
+ * then used for every section, so large projects do not need one tokenizer
+ * call per file. Files are prioritized by relevance to the question and cut
+ * at function/class boundaries; everything left out is reported as an
+ * omission so the UI can show it.
+ */
+export class ContextBuilder {
+  private charsPerToken?: number;
+
+  constructor(private provider: LLMProvider) {}
+
+  async calibrate(project: IndexedProject): Promise<void> {
+    if (this.charsPerToken) return;
+
+    let sample = '';
+    for (const file of project.files) {
+      if (sample.length >= CALIBRATION_SAMPLE_CHARS) break;
+      if (file.content) sample += file.content.slice(0, CALIBRATION_SAMPLE_CHARS - sample.length);
+    }
+    if (!sample) {
+      this.charsPerToken = 4;
+      return;
+    }
+
+    try {
+      const tokens = await this.provider.countTokens(sample);
+      this.charsPerToken = tokens > 0 ? sample.length / tokens : 4;
+    } catch {
+      this.charsPerToken = 4;
+    }
+  }
+
+  countTokens(text: string): number {
+    return Math.ceil(text.length / (this.charsPerToken || 4));
+  }
+
+  /**
+   * Builds the full analysis context: project summary, file tree, import
+   * graph and file bodies in order of relevance to the question.
+   */
+  async build(project: IndexedProject, question: string, maxTokens: number): Promise<FittedText> {
+    await this.calibrate(project);
+    const omissions: string[] = [];
+
+    let context = `Project: ${project.name}\n`;
+    context += `Frameworks: ${describeDetections(project.detections)}\n`;
+    context += `Runtimes: ${project.runtimes.join(', ')}\n`;
+    context += `Languages: ${Array.from(project.languages).join(', ')}\n`;
+    context += `Entry Points:\n${describeEntryPoints(project.entryPoints)}\n\n`;
+    let remaining = maxTokens - this.countTokens(context);
+
+    const tree = this.fitLines(
+      buildFileTree(project.files).split('\n'),
+      Math.floor(maxTokens * TREE_SHARE),
+      'file tree entries'
+    );
+    context += 'Project Structure:\n' + tree.text + '\n\n';
+    omissions.push(...tree.omissions);
+    remaining -= tree.tokens;
+
+    const graph = this.fitLines(
+      Array.from(project.importGraph.entries()).map(([file, imports]) => `${file} imports: ${imports.join(', ')}`),
+      Math.floor(maxTokens * GRAPH_SHARE),
+      'import graph entries'
+    );
+    context += 'Import Graph:\n' + graph.text + '\n\n';
+    omissions.push(...graph.omissions);
+    remaining -= graph.tokens;
+
+    context += 'Code Files (most relevant first):\n';
+    const dropped: string[] = [];
+    for (const file of this.rankFiles(project.files, question)) {
+      if (!file.content) continue;
+
+      const header = `\n--- ${file.path} ---\n`;
+      const available = remaining - this.countTokens(header);
+      if (available < MIN_PARTIAL_FILE_TOKENS) {
+        dropped.push(file.path);
+        continue;
+      }
+
+      const body = this.fitFile(file, question, available);
+      context += header + body.text + '\n';
+      omissions.push(...body.omissions);
+      remaining -= this.countTokens(header) + body.tokens;
+    }
+
+    if (dropped.length > 0) {
+      const shown = dropped.slice(0, 10).join(', ');
+      omissions.push(
+        `${dropped.length} lower-relevance file${dropped.length === 1 ? '' : 's'} left out of the context: ${shown}${dropped.length > 10 ? ', ...' : ''}`
+      );
+    }
+
+    return { text: context, tokens: maxTokens - remaining, omissions };
+  }
+
+  /**
+   * Keeps as many leading lines as fit in `budget` tokens.
+   */
+  fitLines(lines: string[], budget: number, label: string): FittedText {
+    const kept: string[] = [];
+    let tokens = 0;
+    for (const line of lines) {
+      const lineTokens = this.countTokens(line + '\n');
+      if (tokens + lineTokens > budget) break;
+      kept.push(line);
+      tokens += lineTokens;
+    }
+
+    const omissions = kept.length < lines.length
+      ? [`${lines.length - kept.length} of ${lines.length} ${label} left out of the context`]
+      : [];
+    if (omissions.length > 0) {
+      kept.push(`... ${lines.length - kept.length} more omitted`);
+    }
+    return { text: kept.join('\n'), tokens, omissions };
+  }
+
+  /**
+   * Renders a file with line numbers, dropping whole functions/classes that
+   * are least relevant to the question until it fits in `budget` tokens.
+   * Omitted regions are replaced by a marker naming what was cut.
+   */
+  fitFile(file: ProjectFile, question: string, budget: number): FittedText {
+    const lines = (file.content || '').split('\n');
+    const numbered = lines.map((line, i) => `${String(i + 1).padStart(5, ' ')} | ${line}`);
+    const full = numbered.join('\n');
+    const fullTokens = this.countTokens(full);
+    if (fullTokens <= budget) {
+      return { text: full, tokens: fullTokens, omissions: [] };
+    }
+
+    const unitTokens = (unit: CodeUnit) =>
+      this.countTokens(numbered.slice(unit.startLine - 1, unit.endLine).join('\n'));
+    // Classes and other large units are opened up so individual members can be kept
+    const units = splitIntoUnits(lines, file.language).flatMap(unit =>
+      unitTokens(unit) > budget / 2 ? splitMembers(lines, unit, file.language) : [unit]
+    );
+    const keywords = extractKeywords(question);
+    const scored = units.map((unit, order) => {
+      const text = lines.slice(unit.startLine - 1, unit.endLine).join('\n').toLowerCase();
+      const score = keywords.reduce((sum, kw) => sum + (text.split(kw).length - 1), 0)
+        + (unit.name.toLowerCase().includes('import') ? 0.5 : 0)
+        // Keep the enclosing declaration's opening and closing lines for context
+        + (unit.structural ? 1000 : 0);
+      return { unit, order, score, tokens: unitTokens(unit) };
+    });
+
+    // Greedily keep the most relevant units that still fit
+    const kept = new Set<CodeUnit>();
+    let used = 0;
+    for (const entry of [...scored].sort((a, b) => b.score - a.score || a.order - b.order)) {
+      if (used + entry.tokens <= budget) {
+        kept.add(entry.unit);
+        used += entry.tokens;
+      }
+    }
+
+    const parts: string[] = [];
+    const omittedNames: string[] = [];
+    let gap: CodeUnit[] = [];
+    const flushGap = () => {
+      if (gap.length === 0) return;
+      const names = gap.filter(u => !u.structural).map(u => u.name);
+      omittedNames.push(...names);
+      parts.push(`  ... lines ${gap[0].startLine}-${gap[gap.length - 1].endLine} omitted (${names.slice(0, 5).join(', ')}${names.length > 5 ? ', ...' : ''}) ...`);
+      gap = [];
+    };
+    for (const unit of units) {
+      if (kept.has(unit)) {
+        flushGap();
+        parts.push(numbered.slice(unit.startLine - 1, unit.endLine).join('\n'));
+      } else {
+        gap.push(unit);
+      }
+    }
+    flushGap();
+
+    // Nothing fit as a whole unit: fall back to the leading lines
+    if (kept.size === 0) {
+      const head = this.fitLines(numbered, budget, 'lines');
+      return {
+        text: head.text,
+        tokens: head.tokens,
+        omissions: [`${file.path}: truncated to its first ${head.text.split('\n').length - 1} lines`],
+      };
+    }
+
+    return {
+      text: parts.join('\n'),
+      tokens: used,
+      omissions: [`${file.path}: ${omittedNames.length} section${omittedNames.length === 1 ? '' : 's'} omitted (${omittedNames.slice(0, 5).join(', ')}${omittedNames.length > 5 ? ', ...' : ''})`],
+    };
+  }
+
+  rankFiles(files: ProjectFile[], question: string): ProjectFile[] {
+    const keywords = extractKeywords(question);
+
+    return files
+      .map(file => {
+        let score = 0;
+        const lowerPath = file.path.toLowerCase();
+        const lowerContent = (file.content || '').toLowerCase();
+
+        for (const keyword of keywords) {
+          // Filename matches count far more than mentions in the body
+          if (lowerPath.includes(keyword)) score += 10;
+          score += lowerContent.split(keyword).length - 1;
+        }
+        if (file.isEntry) score += 5;
+
+        return { file, score };
+      })
+      .sort((a, b) => b.score - a.score)
+      .map(({ file }) => file);
+  }
+}
+
+export function extractKeywords(question: string): string[] {
+  const commonWords = new Set(['is', 'the', 'where', 'how', 'what', 'when', 'why', 'does', 'in', 'of', 'a', 'an']);
+  return question
+    .toLowerCase()
+    .replace(/[?.,!"'`]/g, '')
+    .split(/\s+/)
+    .filter(word => word.length > 2 && !commonWords.has(word));
+}
+
+const DECLARATION_NAME = /(?:function\*?|class|interface|type|enum|def|fn|func|struct|trait|impl|module|const|let|var)\s+([A-Za-z_$][\w$]*)/;
+const MEMBER_NAME = /^\s*(?:(?:public|private|protected|static|async|readonly|override|abstract|get|set)\s+)*\*?([A-Za-z_$][\w$]*)\s*[(<=:?!]/;
+const IMPORT_LINE = /^\s*(?:import|from\s+\S+\s+import|export\s+(?:\*|\{[^}]*\})\s+from|#include|use\s|require|package\s)/;
+
+/**
+ * Splits source into top-level syntactic units (functions, classes, import
+ * blocks, statements). Brace languages are split where nesting depth returns
+ * to zero; Python where indentation returns to column zero. Heuristic but
+ * good enough to avoid cutting a function in half.
+ */
+export function splitIntoUnits(lines: string[], language?: string): CodeUnit[] {
+  const units = language === 'python'
+    ? splitByIndentation(lines)
+    : splitByBraces(lines);
+
+  // Merge runs of imports into one unit so they are kept or dropped together
+  const merged: CodeUnit[] = [];
+  for (const unit of units) {
+    const prev = merged[merged.length - 1];
+    if (prev && prev.name === 'imports' && unit.name === 'imports') {
+      prev.endLine = unit.endLine;
+    } else {
+      merged.push({ ...unit });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Splits one large unit (typically a class) into its members, keeping the
+ * opening line and, for brace languages, the closing line as their own units.
+ */
+function splitMembers(lines: string[], unit: CodeUnit, language?: string): CodeUnit[] {
+  const hasClosingLine = language !== 'python';
+  const innerStart = unit.startLine + 1;
+  const innerEnd = hasClosingLine ? unit.endLine - 1 : unit.endLine;
+  if (innerEnd - innerStart < 2) return [unit];
+
+  const inner = lines.slice(innerStart - 1, innerEnd);
+  const indent = Math.min(
+    ...inner.filter(l => l.trim()).map(l => l.match(/^\s*/)![0].length)
+  );
+  const members = splitIntoUnits(inner.map(l => l.slice(indent)), language).map(member => ({
+    name: `${unit.name}.${member.name}`,
+    startLine: member.startLine + innerStart - 1,
+    endLine: member.endLine + innerStart - 1,
+  }));
+  if (members.length < 2) return [unit];
+
+  const result: CodeUnit[] = [
+    { name: unit.name, startLine: unit.startLine, endLine: innerStart - 1, structural: true },
+    ...members,
+  ];
+  if (hasClosingLine) {
+    result.push({ name: unit.name, startLine: unit.endLine, endLine: unit.endLine, structural: true });
+  }
+  return result;
+}
+
+function unitName(line: string): string {
+  if (IMPORT_LINE.test(line)) return 'imports';
+  const match = line.match(DECLARATION_NAME) || line.match(MEMBER_NAME);
+  if (match) return match[1];
+  const trimmed = line.trim();
+  return trimmed.length > 30 ? trimmed.slice(0, 27) + '...' : trimmed;
+}
+
+function splitByBraces(lines: string[]): CodeUnit[] {
+  const units: CodeUnit[] = [];
+  let depth = 0;
+  let current: CodeUnit | null = null;
+  // Leading comments belong to the declaration that follows them
+  let commentOnly = false;
+
+  lines.forEach((line, i) => {
+    // Ignore braces inside strings and line comments
+    const code = line
+      .replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '""')
+      .replace(/\/\/.*$/, '');
+    const isComment = /^\s*(?:\/\/|\/\*|\*)/.test(line);
+
+    if (!current && depth === 0) {
+      if (!line.trim()) return;
+      current = { name: unitName(line), startLine: i + 1, endLine: i + 1 };
+      commentOnly = isComment;
+    } else if (current && commentOnly && !isComment && line.trim()) {
+      current.name = unitName(line);
+      commentOnly = false;
+    }
+
+    if (isComment) return;
+
+    for (const char of code) {
+      if (char === '{' || char === '(' || char === '[') depth++;
+      else if (char === '}' || char === ')' || char === ']') depth = Math.max(0, depth - 1);
+    }
+
+    if (current && depth === 0) {
+      const next = lines[i + 1];
+      const trimmed = code.trimEnd();
+      const continues = next !== undefined && /^\s*[.?:|&+\-]/.test(next);
+      if (!continues && (/[;}\])]$/.test(trimmed) || next === undefined || !next.trim() || !/^\s/.test(next))) {
+        current.endLine = i + 1;
+        units.push(current);
+        current = null;
+      }
+    }
+  });
+
+  if (current) {
+    (current as CodeUnit).endLine = lines.length;
+    units.push(current);
+  }
+  return units;
+}
+
+function splitByIndentation(lines: string[]): CodeUnit[] {
+  const units: CodeUnit[] = [];
+  let current: CodeUnit | null = null;
+  let pendingDecorator = false;
+
+  lines.forEach((line, i) => {
+    const startsAtColumnZero = line.length > 0 && !/^\s/.test(line);
+    if (startsAtColumnZero && !pendingDecorator) {
+      if (current) units.push(current);
+      current = { name: unitName(line), startLine: i + 1, endLine: i + 1 };
+    } else if (current && line.trim()) {
+      current.endLine = i + 1;
+    }
+    if (startsAtColumnZero) {
+      pendingDecorator = line.startsWith('@');
+      if (current && !pendingDecorator && current.name.startsWith('@')) {
+        current.name = unitName(line);
+      }
+      if (current) current.endLine = i + 1;
+    }
+  });
+
+  if (current) units.push(current);
+  return units;
+}
+
+function buildFileTree(files: ProjectFile[]): string {
+  const tree: Record<string, any> = {};
+
+  for (const file of files) {
+    let current = tree;
+    for (const part of file.path.split('/')) {
+      current[part] ??= {};
+      current = current[part];
+    }
+  }
+
+  const render = (node: Record<string, any>, depth: number): string => {
+    let result = '';
+    for (const [name, children] of Object.entries(node)) {
+      result += `${'  '.repeat(depth)}${name}\n`;
+      result += render(children, depth + 1);
+    }
+    return result;
+  };
+  return render(tree, 0).trimEnd();
+}
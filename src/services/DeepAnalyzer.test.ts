@@ -0,0 +1,75 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { Config, IndexedProject } from '../types/index.js';
+import { loadConfig } from '../config/config.js';
+import { ProjectIndexer } from './ProjectIndexer.js';
+import { DeepAnalyzer } from './DeepAnalyzer.js';
+
+// A tiny project whose call graph runs main → start → loadSettings
+const FILES: Record<string, string> = {
+  'package.json': JSON.stringify({ name: 'fixture', main: 'src/main.ts' }),
+  'src/main.ts': `import { start } from './app.js';
+
+start();
+`,
+  'src/app.ts': `import { loadSettings } from './settings.js';
+
+export function start(): void {
+  const settings = loadSettings();
+  console.log(settings.port);
+}
+`,
+  'src/settings.ts': `export function loadSettings(): { port: number } {
+  return { port: Number(process.env.PORT || 3000) };
+}
+`,
+};
+
+let dir: string;
+let config: Config;
+let project: IndexedProject;
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'explain-test-'));
+  for (const [file, content] of Object.entries(FILES)) {
+    await fs.mkdir(path.join(dir, 'project', path.dirname(file)), { recursive: true });
+    await fs.writeFile(path.join(dir, 'project', file), content);
+  }
+  config = await loadConfig({
+    provider: 'mock',
+    model: 'mock',
+    mockScript: undefined,
+    cacheDir: path.join(dir, 'cache'),
+    useCache: false,
+    indexWorkers: 0,
+  });
+});
+
+after(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+test('indexes the project and its symbols', async () => {
+  project = await new ProjectIndexer(config).indexProject(path.join(dir, 'project'), { include: ['**/*.{ts,json}'], exclude: [] });
+
+  const paths = project.files.map(f => f.path);
+  for (const file of ['src/main.ts', 'src/app.ts', 'src/settings.ts']) assert.ok(paths.includes(file), `${file} indexed`);
+  assert.deepEqual(
+    project.symbols.symbols.map(s => s.name).sort(),
+    ['loadSettings', 'start']
+  );
+});
+
+test('traces and narrates the walkthrough with the mock provider', async () => {
+  const result = await new DeepAnalyzer(config).analyzeProject('How are the settings loaded?', project);
+
+  assert.deepEqual(result.walkthrough.map(step => step.symbol), ['start', 'loadSettings']);
+  assert.deepEqual(result.walkthrough.map(step => step.file), ['src/app.ts', 'src/settings.ts']);
+  assert.match(result.walkthrough[0].explanation, /^Mock narration of start/);
+  assert.deepEqual(result.walkthrough[0].linksTo, ['src/settings.ts#loadSettings']);
+  assert.ok(result.answer.length > 0);
+  assert.equal(result.uncertainties, undefined);
+});
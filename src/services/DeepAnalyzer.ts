@@ -1,4 +1,3 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import type { 
@@ -7,29 +6,98 @@ import type {
   AnalysisResult,
   WalkthroughStep,
   ArchitectureOverview,
-  ProjectFile
+  ProjectFile,
+  LLMProvider,
+  OutputSchema,
+  PromptStage,
+  StreamUpdate
 } from '../types/index.js';
 import { SecurityService } from './SecurityService.js';
+import { createProvider } from './providers/index.js';
+import { ResponseCache } from './ResponseCache.js';
+import { ContextBuilder } from './ContextBuilder.js';
+import { MalformedOutputError, TimeoutError } from './providers/errors.js';
+import { parseStructured } from './providers/structured.js';
+import { ArchitectureOverviewSchema, FileListSchema, FileSectionsSchema, PathNarrationSchema } from './schemas.js';
+import { CodeTracer, applyNarration, narrationPrompt } from './CodeTracer.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { CancelledError, throwIfCancelled } from '../utils/cancellation.js';
+import { snapToSymbol } from './SymbolIndex.js';
+import { packageOf } from './WorkspaceDetector.js';
+import { describeDetections } from '../detectors/index.js';
+import { describeEntryPoints, entryFiles, groupEntryPoints } from '../detectors/entryPoints.js';
+
+// Share of the context budget a stage's file list may use; the rest is
+// left for the instructions, the other context and the model's reply
+const FILE_LIST_SHARE = 0.5;
+
+/**
+ * State shared by the stages of one analysis. Fallbacks, skipped work and
+ * budget cuts are reported rather than hidden; `reached` tracks progress so
+ * a cancelled run can say how far it got.
+ */
+interface AnalysisRun {
+  uncertainties: string[];
+  omissions: string[];
+  signal?: AbortSignal;
+  reached: string;
+}
+
+/** Receives the connections narrative and answer as they are generated. */
+export interface StreamHandlers {
+  onText: (update: StreamUpdate) => void;
+  /** Aborting stops the stream in progress; the partial text is kept. */
+  signal?: AbortSignal;
+}
+
+interface StreamedText {
+  text: string;
+  cancelled: boolean;
+}
 
 export class DeepAnalyzer {
-  private genAI: GoogleGenerativeAI;
-  private model: any;
+  private provider: LLMProvider;
   private security: SecurityService;
+  private responseCache: ResponseCache;
+  private contextBuilder: ContextBuilder;
+  private codeTracer: CodeTracer;
 
   constructor(private config: Config) {
-    this.genAI = new GoogleGenerativeAI(config.apiKey);
-    this.model = this.genAI.getGenerativeModel({ 
-      model: 'gemini-2.5-pro'
-    });
+    this.provider = createProvider(config);
+    this.responseCache = new ResponseCache(config);
+    this.contextBuilder = new ContextBuilder(this.provider);
     this.security = new SecurityService();
+    this.codeTracer = new CodeTracer();
   }
 
   async analyzeProject(
     question: string,
     project: IndexedProject,
-    onProgress?: (message: string) => void
+    onProgress?: (message: string) => void,
+    streaming?: StreamHandlers,
+    signal?: AbortSignal
+  ): Promise<AnalysisResult> {
+    const run: AnalysisRun = { uncertainties: [], omissions: [], signal, reached: 'before any model calls' };
+    try {
+      return await this.runStages(question, project, run, onProgress, streaming);
+    } catch (error) {
+      // Aborted model calls and file reads surface as assorted errors;
+      // report them all as the cancellation they are
+      if (signal?.aborted && !(error instanceof CancelledError)) {
+        throw new CancelledError(run.reached, { cause: error });
+      }
+      throw error;
+    }
+  }
+
+  private async runStages(
+    question: string,
+    project: IndexedProject,
+    run: AnalysisRun,
+    onProgress?: (message: string) => void,
+    streaming?: StreamHandlers
   ): Promise<AnalysisResult> {
-    const totalSteps = 6;
+    const totalSteps = 5;
     let currentStep = 0;
     
     const updateProgress = (step: string, detail?: string) => {
@@ -40,49 +108,59 @@ export class DeepAnalyzer {
       }
     };
 
+    await this.contextBuilder.calibrate(project);
+
     // Step 1: Analyze overall architecture
+    run.reached = 'while analyzing the architecture';
     if (onProgress) onProgress('[0%] 🏗️ Analyzing project architecture...');
-    const overview = await this.analyzeArchitecture(project, question);
+    const overview = await this.analyzeArchitecture(project, run);
     updateProgress('✓ Architecture analyzed', `${project.frameworks.join(', ')}`);
 
-    // Step 2: Find relevant files for the question
-    if (onProgress) onProgress('[17%] 🔍 Searching for relevant files...');
-    const relevantFiles = await this.findRelevantFiles(project, question);
-    updateProgress('✓ Found relevant files', `${relevantFiles.length} files to analyze`);
-
-    // Step 3: Build execution path through the code
-    if (onProgress) onProgress('[33%] 🗺️ Building code execution path...');
-    const executionPath = await this.buildExecutionPath(relevantFiles, question, project);
-    updateProgress('✓ Execution path mapped', `${executionPath.length} key files`);
-
-    // Step 4: Analyze each file in the path with Gemini
-    if (onProgress) onProgress('[50%] 📖 Performing deep file analysis...');
-    const walkthrough: WalkthroughStep[] = [];
-    for (let i = 0; i < executionPath.length; i++) {
-      const file = executionPath[i];
-      const fileName = file.path.split('/').pop() || file.path;
-      if (onProgress) {
-        const fileProgress = 50 + Math.floor((i / executionPath.length) * 33);
-        onProgress(`[${fileProgress}%] 📄 Analyzing: ${fileName} (${i + 1}/${executionPath.length})`);
-      }
-      
-      const steps = await this.analyzeFile(file, question, i, project);
-      walkthrough.push(...steps);
-      
-      // Show what we found in this file
-      if (onProgress && steps.length > 0) {
-        onProgress(`[${50 + Math.floor(((i + 1) / executionPath.length) * 33)}%] ✓ Found ${steps.length} important section${steps.length > 1 ? 's' : ''} in ${fileName}`);
-      }
+    // Step 2: Trace the execution path through the static call graph
+    run.reached = 'after the architecture overview';
+    if (onProgress) onProgress('[17%] 🗺️ Tracing the execution path through the call graph...');
+    const traced = await this.codeTracer.traceExecutionPath(question, project);
+    updateProgress('✓ Execution path traced', `${traced.length} steps`);
+
+    let walkthrough: WalkthroughStep[];
+    if (traced.length > 0) {
+      // Step 3: Have the model explain the path it was given, never choose it
+      run.reached = `after tracing ${traced.length} steps`;
+      if (onProgress) onProgress('[33%] 📖 Explaining each step of the path...');
+      walkthrough = await this.narratePath(question, traced, project, run);
+      updateProgress('✓ Path explained', `${walkthrough.length} steps`);
+    } else {
+      // Nothing the symbol index knows leads anywhere (no parser for the
+      // language, or no calls found): fall back to sections the model picks
+      run.uncertainties.push('No call path could be traced for this question; walkthrough sections were picked by the model from the most relevant files.');
+      run.reached = 'after the architecture overview';
+      if (onProgress) onProgress('[33%] 🔍 Searching for relevant files...');
+      const relevantFiles = await this.findRelevantFiles(project, question, run);
+      walkthrough = await this.analyzeFiles(relevantFiles, question, project, run, onProgress);
+      updateProgress('✓ Files analyzed', `${walkthrough.length} sections in ${relevantFiles.length} files`);
     }
 
-    // Step 5: Analyze how everything connects
+    // Step 4: Analyze how everything connects
+    run.reached = `after ${walkthrough.length} walkthrough steps`;
     if (onProgress) onProgress('[83%] 🔗 Analyzing code connections and dependencies...');
-    const connections = await this.analyzeConnections(walkthrough, project, question);
-    updateProgress('✓ Connections mapped', `${connections.length} relationships found`);
-    
-    // Step 6: Generate comprehensive answer
-    if (onProgress) onProgress('[95%] 💡 Generating comprehensive answer...');
-    const answer = await this.generateAnswer(question, overview, walkthrough, connections);
+    const connections = await this.analyzeConnections(walkthrough, project, question, run, streaming);
+    updateProgress('✓ Connections mapped', `${connections.text.length} characters`);
+
+    // Step 5: Generate comprehensive answer, unless the user already stopped
+    // the stream; answering from a truncated narrative would mislead
+    let answer: string;
+    run.reached = 'after mapping connections';
+    if (connections.cancelled) {
+      run.uncertainties.push('Connections narrative was cancelled; the answer was not generated');
+      answer = connections.text;
+    } else {
+      if (onProgress) onProgress('[95%] 💡 Generating comprehensive answer...');
+      const streamed = await this.generateAnswer(question, overview, walkthrough, connections.text, project, run, streaming);
+      if (streamed.cancelled) {
+        run.uncertainties.push('Answer was cancelled before it finished; the text shown is partial');
+      }
+      answer = streamed.text;
+    }
     if (onProgress) onProgress('[100%] ✅ Analysis complete!');
 
     return {
@@ -90,25 +168,80 @@ export class DeepAnalyzer {
       walkthrough,
       answer,
       citations: this.extractCitations(walkthrough),
-      confidence: 'high',
+      uncertainties: run.uncertainties.length > 0 ? run.uncertainties : undefined,
+      omissions: run.omissions.length > 0 ? run.omissions : undefined,
+      confidence: run.uncertainties.length > 0 ? 'medium' : 'high',
     };
   }
 
-  private async analyzeArchitecture(project: IndexedProject, question: string): Promise<ArchitectureOverview> {
-    const prompt = `Analyze this project's architecture in the context of the question: "${question}"
+  private async analyzeArchitecture(
+    project: IndexedProject,
+    run: AnalysisRun
+  ): Promise<ArchitectureOverview> {
+    // Deliberately question-independent so the cached overview is reused
+    // for every question until the project's files change
+    const { packages } = project.workspace;
+    const fileList = this.contextBuilder.fitLines(
+      // In a monorepo the packages describe the layout; only files outside them are listed
+      project.files.filter(f => !packageOf(project.workspace, f.path)).map(f => f.path),
+      Math.floor(this.config.maxContextTokens * FILE_LIST_SHARE),
+      'project files'
+    );
+    run.omissions.push(...fileList.omissions);
+
+    const packageList = packages.map(pkg => {
+      const details = [
+        pkg.frameworks.length > 0 ? `frameworks: ${pkg.frameworks.join(', ')}` : '',
+        pkg.entryPoints.length > 0 ? `entry: ${pkg.entryPoints.join(', ')}` : '',
+        `depends on: ${pkg.dependencies.length > 0 ? pkg.dependencies.join(', ') : 'none'}`,
+      ].filter(Boolean);
+      return `${pkg.name} (${pkg.dir}, ${pkg.ecosystem}) - ${details.join('; ')}`;
+    }).join('\n');
+
+    const prompt = packages.length > 0
+      ? `Analyze this monorepo's architecture.
+
+Workspace (${project.workspace.tools.join(', ')}) packages and their internal dependencies:
+${packageList}
+
+Files outside the packages:
+${fileList.text}
+
+Detected frameworks: ${describeDetections(project.detections) || 'none'}
+Detected runtimes: ${project.runtimes.join(', ') || 'none'}
+
+Provide a concise overview focusing on:
+1. Main frameworks and technologies used
+2. How the packages are organized and layered
+3. What each package is responsible for
+4. How packages depend on and call into each other
+5. Which packages are most important for understanding the project
+
+Format as JSON:
+{
+  "frameworks": ["list of frameworks"],
+  "runtimes": ["runtime environments"],
+  "folderLayout": "description of how packages are organized",
+  "mainComponents": ["key packages"],
+  "controlFlow": "how execution and data flow between packages",
+  "packages": [{"name": "package name", "role": "one-line responsibility"}]
+}`
+      : `Analyze this project's architecture.
 
 Project files:
-${project.files.map(f => f.path).join('\n')}
+${fileList.text}
 
-Entry points: ${project.entryPoints.join(', ')}
-Detected frameworks: ${project.frameworks.join(', ')}
+Entry points:
+${describeEntryPoints(project.entryPoints) || 'none found'}
+Detected frameworks: ${describeDetections(project.detections) || 'none'}
+Detected runtimes: ${project.runtimes.join(', ') || 'none'}
 
 Provide a concise overview focusing on:
 1. Main frameworks and technologies used
 2. How the project is structured (folder layout)
-3. Key components relevant to: ${question}
+3. Key components and what they are responsible for
 4. How control flows through the application
-5. Which files are most important for understanding: ${question}
+5. Which files are most important for understanding the project
 
 Format as JSON:
 {
@@ -119,52 +252,53 @@ Format as JSON:
   "controlFlow": "how execution flows"
 }`;
 
-    const result = await this.model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
-    
+    // Dependencies and entry points come from the manifests and code, never from the model
+    const describePackages = (roles: Array<{ name: string; role: string }>) => packages.length > 0
+      ? packages.map(pkg => ({
+          name: pkg.name,
+          role: roles.find(r => r.name === pkg.name)?.role ?? '',
+          dependsOn: pkg.dependencies,
+        }))
+      : undefined;
+
     try {
-      const json = JSON.parse(text.match(/\{[\s\S]*\}/)?.[0] || '{}');
-      
-      // Ensure mainComponents is an array of strings
-      let mainComponents = json.mainComponents || [];
-      if (!Array.isArray(mainComponents)) {
-        mainComponents = [];
-      } else {
-        mainComponents = mainComponents.map((comp: any) => {
-          if (typeof comp === 'string') return comp;
-          if (comp && typeof comp === 'object' && comp.file) return comp.file;
-          if (comp && typeof comp === 'object' && comp.name) return comp.name;
-          return String(comp);
-        });
-      }
-      
-      return {
-        frameworks: json.frameworks || project.frameworks,
-        runtimes: json.runtimes || ['Node.js'],
-        folderLayout: json.folderLayout || 'Standard project structure',
-        mainComponents,
-        controlFlow: json.controlFlow || 'Request/response flow',
-      };
-    } catch {
+      const { packages: roles, ...overview } = await this.generateStructuredCached(
+        'architecture', prompt, project.files, ArchitectureOverviewSchema, run
+      );
+      return { ...overview, packages: describePackages(roles), entryPoints: groupEntryPoints(project.entryPoints) };
+    } catch (error) {
+      if (!(error instanceof MalformedOutputError)) throw error;
+      run.uncertainties.push('Architecture overview could not be parsed from the model; showing locally detected frameworks and entry points instead.');
       return {
         frameworks: project.frameworks,
-        runtimes: ['Node.js'],
-        folderLayout: 'Standard project structure',
-        mainComponents: project.entryPoints,
-        controlFlow: 'Application flow',
+        runtimes: project.runtimes,
+        folderLayout: 'Not determined',
+        mainComponents: entryFiles(project.entryPoints),
+        controlFlow: 'Not determined',
+        packages: describePackages([]),
+        entryPoints: groupEntryPoints(project.entryPoints),
       };
     }
   }
 
-  private async findRelevantFiles(project: IndexedProject, question: string): Promise<ProjectFile[]> {
-    // Send file list to Gemini to identify relevant files
-    const fileList = project.files.map(f => `${f.path} (${f.language || 'unknown'})`).join('\n');
+  private async findRelevantFiles(
+    project: IndexedProject,
+    question: string,
+    run: AnalysisRun
+  ): Promise<ProjectFile[]> {
+    // Send the file list to the model to identify relevant files, most
+    // promising first so the budget cuts the least likely candidates
+    const fileList = this.contextBuilder.fitLines(
+      this.contextBuilder.rankFiles(project.files, question).map(f => `${f.path} (${f.language || 'unknown'})`),
+      Math.floor(this.config.maxContextTokens * FILE_LIST_SHARE),
+      'candidate files'
+    );
+    run.omissions.push(...fileList.omissions);
     
     const prompt = `Given the question: "${question}"
     
 And these project files:
-${fileList}
+${fileList.text}
 
 Identify the files that are most relevant for understanding the answer. Consider:
 1. Files that directly implement the feature
@@ -175,14 +309,12 @@ Identify the files that are most relevant for understanding the answer. Consider
 Return a JSON array of file paths in order of execution/importance:
 ["path1", "path2", ...]`;
 
-    const result = await this.model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
-    
     try {
-      const paths = JSON.parse(text.match(/\[[\s\S]*\]/)?.[0] || '[]');
+      const paths = await this.generateStructuredCached('relevant-files', prompt, project.files, FileListSchema, run);
       return project.files.filter(f => paths.includes(f.path)).slice(0, 20); // Max 20 files
-    } catch {
+    } catch (error) {
+      if (!(error instanceof MalformedOutputError)) throw error;
+      run.uncertainties.push('Relevant files could not be parsed from the model; files were selected by keyword matching instead.');
       // Fallback to keyword matching
       const keywords = question.toLowerCase().split(/\s+/);
       return project.files
@@ -195,61 +327,93 @@ Return a JSON array of file paths in order of execution/importance:
     }
   }
 
-  private async buildExecutionPath(
-    relevantFiles: ProjectFile[],
+  /**
+   * Asks the model to explain each traced step. The path itself is fixed
+   * (see `applyNarration`); if the model fails, steps keep the tracer's
+   * own descriptions.
+   */
+  private async narratePath(
     question: string,
-    project: IndexedProject
-  ): Promise<ProjectFile[]> {
-    if (relevantFiles.length === 0) return [];
-
-    const prompt = `Given these relevant files for the question "${question}":
-${relevantFiles.map(f => f.path).join('\n')}
-
-And knowing the import graph:
-${Array.from(project.importGraph.entries()).map(([file, imports]) => 
-  `${file} imports: ${imports.join(', ')}`
-).join('\n')}
+    steps: WalkthroughStep[],
+    project: IndexedProject,
+    run: AnalysisRun
+  ): Promise<WalkthroughStep[]> {
+    const prompt = narrationPrompt(question, steps, code => this.security.redactSensitiveData(code));
+    try {
+      const narration = await this.generateStructuredCached('narration', prompt, this.filesOf(steps, project), PathNarrationSchema, run);
+      return applyNarration(steps, narration);
+    } catch (error) {
+      if (!(error instanceof MalformedOutputError) && !(error instanceof TimeoutError)) throw error;
+      run.uncertainties.push(`The traced path could not be narrated (${error.message}); steps show the call graph's own descriptions.`);
+      return steps;
+    }
+  }
 
-Order these files in the logical execution flow - from entry point through to implementation.
-Consider: initialization → configuration → routing → business logic → utilities
+  /** Model-picked sections of each file, several files at a time; used when no path could be traced */
+  private async analyzeFiles(
+    files: ProjectFile[],
+    question: string,
+    project: IndexedProject,
+    run: AnalysisRun,
+    onProgress?: (message: string) => void
+  ): Promise<WalkthroughStep[]> {
+    if (onProgress) onProgress('[50%] 📖 Performing deep file analysis...');
+    let completed = 0;
+    run.reached = `while analyzing files (0/${files.length} done)`;
+    const fileSteps = await mapWithConcurrency(files, this.config.analysisConcurrency, async (file, i) => {
+      const fileName = file.path.split('/').pop() || file.path;
+      if (onProgress) {
+        const fileProgress = 50 + Math.floor((completed / files.length) * 33);
+        onProgress(`[${fileProgress}%] 📄 Analyzing: ${fileName} (${i + 1}/${files.length})`);
+      }
 
-Return a JSON array of file paths in execution order:
-["path1", "path2", ...]`;
+      let steps: WalkthroughStep[];
+      try {
+        steps = await this.analyzeFile(file, question, i, project, run);
+      } catch (error) {
+        // One slow file should not sink the whole analysis
+        if (!(error instanceof TimeoutError)) throw error;
+        run.uncertainties.push(`Skipped ${file.path}: ${error.message}`);
+        steps = [];
+      }
+      completed++;
+      run.reached = `while analyzing files (${completed}/${files.length} done)`;
 
-    const result = await this.model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
-    
-    try {
-      const orderedPaths = JSON.parse(text.match(/\[[\s\S]*\]/)?.[0] || '[]');
-      const orderedFiles = orderedPaths
-        .map((p: string) => relevantFiles.find(f => f.path === p))
-        .filter(Boolean);
-      return orderedFiles.length > 0 ? orderedFiles : relevantFiles;
-    } catch {
-      return relevantFiles;
-    }
+      // Show what we found in this file
+      if (onProgress && steps.length > 0) {
+        onProgress(`[${50 + Math.floor((completed / files.length) * 33)}%] ✓ Found ${steps.length} important section${steps.length > 1 ? 's' : ''} in ${fileName} (${completed}/${files.length} done)`);
+      }
+      return steps;
+    });
+    return fileSteps.flat();
   }
 
   private async analyzeFile(
     file: ProjectFile,
     question: string,
     stepIndex: number,
-    project: IndexedProject
+    project: IndexedProject,
+    run: AnalysisRun
   ): Promise<WalkthroughStep[]> {
     if (!file.content) {
       // Read the file if content not loaded
       try {
-        file.content = await fs.readFile(path.join(project.root, file.path), 'utf-8');
+        file.content = await fs.readFile(path.join(project.root, file.path), { encoding: 'utf-8', signal: run.signal });
       } catch {
         return [];
       }
     }
 
+    const body = this.contextBuilder.fitFile(file, question, this.config.maxFileTokens);
+    run.omissions.push(...body.omissions);
+
     const prompt = `Analyze this code file in the context of: "${question}"
 
 File: ${file.path}
 
+Code (with line numbers):
+${this.security.redactSensitiveData(body.text)}
+
 Identify the most important sections (max 2-3) that help answer the question. 
 Focus on the key logic, not boilerplate or imports.
 
@@ -269,29 +433,30 @@ Return a JSON array:
   "connections": ["file paths it connects to"]
 }]`;
 
-    const result = await this.model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
-    
     try {
-      const sections = JSON.parse(text.match(/\[[\s\S]*\]/)?.[0] || '[]');
+      const sections = await this.generateStructuredCached('file-sections', prompt, [file], FileSectionsSchema, run);
       
       // Limit to max 3 sections per file
-      return sections.slice(0, 3).map((section: any, i: number) => {
-        const lineStart = Math.max(1, section.lineStart || 1);
-        const lineEnd = Math.max(lineStart, section.lineEnd || lineStart + 20);
+      return sections.slice(0, 3).map((section, i): WalkthroughStep => {
+        const lineStart = section.lineStart;
+        const lineEnd = Math.max(lineStart, section.lineEnd);
+        // Show whole functions rather than whatever slice the model picked
+        const { lineRange, symbol } = snapToSymbol(project.symbols, file.path, lineStart, lineEnd);
         
         return {
           index: stepIndex * 10 + i,
           file: file.path,
-          lineRange: [lineStart, lineEnd],
+          lineRange,
+          symbol,
           code: '', // We'll load this in the UI
-          explanation: section.explanation || 'This section implements key functionality',
-          whyRelevant: section.whyRelevant || `Relevant to: ${question}`,
-          linksTo: section.connections || [],
+          explanation: section.explanation,
+          whyRelevant: section.whyRelevant,
+          linksTo: section.connections,
         };
       });
-    } catch {
+    } catch (error) {
+      if (!(error instanceof MalformedOutputError)) throw error;
+      run.uncertainties.push(`Sections of ${file.path} could not be parsed from the model; showing the start of its code instead.`);
       // Fallback - highlight the most important part of the file
       const lines = file.content!.split('\n');
       
@@ -321,8 +486,10 @@ Return a JSON array:
   private async analyzeConnections(
     walkthrough: WalkthroughStep[],
     project: IndexedProject,
-    question: string
-  ): Promise<string> {
+    question: string,
+    run: AnalysisRun,
+    streaming?: StreamHandlers
+  ): Promise<StreamedText> {
     const prompt = `Analyze how these code sections connect to answer: "${question}"
 
 Files analyzed:
@@ -336,17 +503,18 @@ Explain:
 
 Provide a clear, concise explanation of how everything connects.`;
 
-    const result = await this.model.generateContent(prompt);
-    const response = await result.response;
-    return response.text();
+    return this.streamCached('connections', prompt, this.filesOf(walkthrough, project), run, streaming);
   }
 
   private async generateAnswer(
     question: string,
     overview: ArchitectureOverview,
     walkthrough: WalkthroughStep[],
-    connections: string
-  ): Promise<string> {
+    connections: string,
+    project: IndexedProject,
+    run: AnalysisRun,
+    streaming?: StreamHandlers
+  ): Promise<StreamedText> {
     const prompt = `Based on the code analysis, answer this question: "${question}"
 
 Architecture: ${overview.frameworks.join(', ')} application with ${overview.controlFlow}
@@ -359,14 +527,92 @@ ${connections}
 
 Provide a direct, comprehensive answer with specific file:line references where relevant.`;
 
-    const result = await this.model.generateContent(prompt);
-    const response = await result.response;
-    return response.text();
+    return this.streamCached('answer', prompt, this.filesOf(walkthrough, project), run, streaming);
+  }
+
+  /**
+   * Runs a prompt through the response cache, streaming the reply to
+   * `streaming.onText` as it arrives. `files` are the inputs the stage
+   * depends on; their content hashes are part of the cache key. A cached
+   * reply is emitted in one update, and a cancelled stream is returned
+   * as-is but never cached.
+   */
+  private async streamCached(
+    stage: PromptStage,
+    prompt: string,
+    files: ProjectFile[],
+    run: AnalysisRun,
+    streaming?: StreamHandlers
+  ): Promise<StreamedText> {
+    throwIfCancelled(run.signal, run.reached);
+    const key = {
+      stage,
+      provider: this.provider.name,
+      model: this.provider.model,
+      prompt,
+      files,
+    };
+    const cached = await this.responseCache.get(key);
+    if (cached !== null) {
+      streaming?.onText({ stage, text: cached });
+      return { text: cached, cancelled: false };
+    }
+
+    // Stopping the stream keeps the partial text; cancelling the run does not
+    const stop = streaming?.signal;
+    if (stop?.aborted) return { text: '', cancelled: true };
+    const signals = [run.signal, stop].filter((s): s is AbortSignal => s !== undefined);
+    const signal = signals.length > 0 ? AbortSignal.any(signals) : undefined;
+
+    let text = '';
+    try {
+      for await (const chunk of this.provider.stream(prompt, { stage, signal })) {
+        text += chunk;
+        streaming?.onText({ stage, text });
+      }
+    } catch (error) {
+      if (run.signal?.aborted) throw new CancelledError(run.reached, { cause: error });
+      if (stop?.aborted) return { text, cancelled: true };
+      throw error;
+    }
+
+    await this.responseCache.set(key, text);
+    return { text, cancelled: false };
+  }
+
+  /**
+   * Structured counterpart of streamCached. Only responses that pass
+   * validation are cached, so a malformed answer is never replayed.
+   */
+  private async generateStructuredCached<T>(
+    stage: PromptStage,
+    prompt: string,
+    files: ProjectFile[],
+    schema: OutputSchema<T>,
+    run: AnalysisRun
+  ): Promise<T> {
+    throwIfCancelled(run.signal, run.reached);
+    const key = {
+      stage,
+      provider: this.provider.name,
+      model: this.provider.model,
+      prompt,
+      files,
+    };
+    const cached = await this.responseCache.get(key);
+    if (cached !== null) {
+      const parsed = parseStructured(cached, schema);
+      if (parsed.ok) return parsed.value;
+    }
+
+    const value = await this.provider.generateStructured(prompt, schema, { stage, signal: run.signal });
+    await this.responseCache.set(key, JSON.stringify(value));
+    return value;
   }
 
-  private extractLines(content: string, start: number, end: number): string {
-    const lines = content.split('\n');
-    return lines.slice(start, end).join('\n');
+  private filesOf(walkthrough: WalkthroughStep[], project: IndexedProject): ProjectFile[] {
+    const paths = new Set(walkthrough.map(w => w.file));
+    return project.files.filter(f => paths.has(f.path));
   }
 
   private extractCitations(walkthrough: WalkthroughStep[]): Array<{ claim: string; file: string; line: number }> {
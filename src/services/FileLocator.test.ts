@@ -0,0 +1,65 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { IndexedProject, ProjectFile } from '../types/index.js';
+import { parseLocation, readProjectFile, resolveProjectFile } from './FileLocator.js';
+
+let dir: string;
+let root: string;
+let project: IndexedProject;
+
+const indexed = (filePath: string, content?: string): ProjectFile => ({ path: filePath, size: 1, content });
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'explain-locator-'));
+  root = path.join(dir, 'project');
+  await fs.mkdir(path.join(root, 'src', 'util'), { recursive: true });
+  await fs.writeFile(path.join(root, 'src', 'app.ts'), 'on disk\n');
+  await fs.writeFile(path.join(root, 'notes.txt'), 'not indexed\n');
+  await fs.writeFile(path.join(root, '.env'), 'API_KEY=secret\n');
+  await fs.writeFile(path.join(dir, 'outside.txt'), 'outside the project\n');
+
+  project = {
+    root,
+    files: [indexed('src/app.ts', 'indexed content\n'), indexed('src/util/index.ts'), indexed('lib/index.ts')],
+  } as IndexedProject;
+});
+
+after(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+test('parses path, line and range', () => {
+  assert.deepEqual(parseLocation('src/app.ts'), { file: 'src/app.ts', line: 1, lineEnd: undefined });
+  assert.deepEqual(parseLocation('`src/app.ts:42`'), { file: 'src/app.ts', line: 42, lineEnd: undefined });
+  assert.deepEqual(parseLocation('src/app.ts:50-42'), { file: 'src/app.ts', line: 50, lineEnd: 50 });
+});
+
+test('resolves relative, absolute and unique-suffix paths to indexed files', () => {
+  assert.equal(resolveProjectFile(project, './src/app.ts')?.path, 'src/app.ts');
+  assert.equal(resolveProjectFile(project, path.join(root, 'src/app.ts'))?.path, 'src/app.ts');
+  assert.equal(resolveProjectFile(project, 'app.ts')?.path, 'src/app.ts');
+  // Two files end in index.ts
+  assert.equal(resolveProjectFile(project, 'index.ts'), undefined);
+  assert.equal(resolveProjectFile(project, 'util/index.ts')?.path, 'src/util/index.ts');
+});
+
+test('never resolves paths leaving the project', () => {
+  assert.equal(resolveProjectFile(project, '../outside.txt'), undefined);
+  assert.equal(resolveProjectFile(project, 'src/../../outside.txt'), undefined);
+});
+
+test('reads indexed content first, then other files inside the project', async () => {
+  assert.deepEqual(await readProjectFile(root, 'src/app.ts', project), { path: 'src/app.ts', content: 'indexed content\n' });
+  assert.deepEqual(await readProjectFile(root, 'notes.txt', project), { path: 'notes.txt', content: 'not indexed\n' });
+  await assert.rejects(readProjectFile(root, 'missing.ts', project), /No such file: missing\.ts/);
+});
+
+test('refuses paths outside the project and secret files', async () => {
+  await assert.rejects(readProjectFile(root, '../outside.txt', project), /outside the project/);
+  await assert.rejects(readProjectFile(root, path.join(dir, 'outside.txt'), project), /outside the project/);
+  await assert.rejects(readProjectFile(root, '.env', project), /may hold secrets/);
+  await assert.rejects(readProjectFile(root, './.env'), /may hold secrets/);
+});
@@ -0,0 +1,73 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { FileLocation, IndexedProject, ProjectFile } from '../types/index.js';
+import { SecurityService } from './SecurityService.js';
+
+const security = new SecurityService();
+
+// `src/app.ts`, `src/app.ts:42` or `src/app.ts:42-50`
+const LOCATION = /^(.+?)(?::(\d+)(?:-(\d+))?)?$/;
+
+/** Parses `path[:line[-end]]` as typed after `/open` or written in a citation */
+export function parseLocation(text: string): FileLocation | undefined {
+  const match = text.trim().replace(/^["'`]|["'`]$/g, '').match(LOCATION);
+  if (!match) return undefined;
+  const line = match[2] ? Math.max(1, Number(match[2])) : 1;
+  const lineEnd = match[3] ? Math.max(line, Number(match[3])) : undefined;
+  return { file: match[1], line, lineEnd };
+}
+
+/**
+ * Finds the indexed file a path refers to. Paths may be written relative
+ * (`./src/x.ts`), absolute inside the project, or by a unique suffix
+ * (`x.ts`); anything `SecurityService.validateFilePath` refuses, such as
+ * `../` traversal, matches nothing.
+ */
+export function resolveProjectFile(project: IndexedProject, written: string): ProjectFile | undefined {
+  const relative = projectRelative(project.root, written);
+  if (relative === undefined) return undefined;
+
+  const exact = project.files.find(f => f.path === relative);
+  if (exact) return exact;
+  const bySuffix = project.files.filter(f => f.path.endsWith(`/${relative}`));
+  return bySuffix.length === 1 ? bySuffix[0] : undefined;
+}
+
+/**
+ * Reads a file for display. Indexed files are looked up as in
+ * `resolveProjectFile`; other paths are read from disk as long as they pass
+ * the same safety rules and stay inside `root`. Secret files such as `.env`
+ * are refused either way, as indexing and search skip them.
+ */
+export async function readProjectFile(
+  root: string,
+  written: string,
+  project?: IndexedProject
+): Promise<{ path: string; content: string }> {
+  if (security.isSecretFile(written.trim())) {
+    throw new Error(`Refusing to open ${written}: it may hold secrets`);
+  }
+  const indexed = project && resolveProjectFile(project, written);
+  if (indexed?.content !== undefined) return { path: indexed.path, content: indexed.content };
+
+  const relative = indexed?.path ?? projectRelative(root, written);
+  if (relative === undefined) throw new Error(`Refusing to open ${written}: the path is outside the project`);
+  const fullPath = path.resolve(root, relative);
+  if (path.relative(root, fullPath).startsWith('..')) {
+    throw new Error(`Refusing to open ${written}: the path is outside the project`);
+  }
+
+  try {
+    return { path: relative, content: await fs.readFile(fullPath, 'utf-8') };
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    throw new Error(code === 'ENOENT' ? `No such file: ${relative}` : `Could not read ${relative}: ${(error as Error).message}`);
+  }
+}
+
+function projectRelative(root: string, written: string): string | undefined {
+  let relative = written.trim().replace(/\\/g, '/');
+  if (relative.startsWith(`${root}/`)) relative = relative.slice(root.length + 1);
+  relative = relative.replace(/^\.\//, '');
+  return relative && security.validateFilePath(relative) ? relative : undefined;
+}
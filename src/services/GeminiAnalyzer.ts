@@ -1,183 +1,79 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import type { 
   Config, 
   IndexedProject, 
   AnalysisResult,
   WalkthroughStep,
-  ArchitectureOverview 
+  LLMProvider
 } from '../types/index.js';
 import { SecurityService } from './SecurityService.js';
-import { CodeTracer } from './CodeTracer.js';
+import { createProvider } from './providers/index.js';
+import { MalformedOutputError } from './providers/errors.js';
+import { AnalysisResponseSchema, PathNarrationSchema } from './schemas.js';
+import { CodeTracer, applyNarration, narrationPrompt, type TraceOptions } from './CodeTracer.js';
+import { ContextBuilder, type FittedText } from './ContextBuilder.js';
+import { entryFiles, groupEntryPoints } from '../detectors/entryPoints.js';
 
 export class GeminiAnalyzer {
-  private genAI: GoogleGenerativeAI;
-  private model: any;
+  private provider: LLMProvider;
   private security: SecurityService;
   private codeTracer: CodeTracer;
+  private contextBuilder: ContextBuilder;
 
   constructor(private config: Config) {
-    this.genAI = new GoogleGenerativeAI(config.apiKey);
-    this.model = this.genAI.getGenerativeModel({ 
-      model: 'gemini-2.5-pro'
-    });
+    this.provider = createProvider(config);
     this.security = new SecurityService();
     this.codeTracer = new CodeTracer();
+    this.contextBuilder = new ContextBuilder(this.provider);
   }
 
   async analyze(
     question: string,
-    project: IndexedProject
+    project: IndexedProject,
+    trace: TraceOptions = {}
   ): Promise<AnalysisResult> {
-    // First, trace the actual code execution path
-    const walkthrough = await this.codeTracer.traceExecutionPath(question, project);
+    // First, trace the actual code execution path, then have the model explain it
+    const traced = await this.codeTracer.traceExecutionPath(question, project, trace);
+    const walkthrough = await this.narratePath(question, traced);
     
     // Prepare deep context
     const context = await this.prepareDeepContext(project, question);
 
     // Redact sensitive information
-    const safeContext = this.security.redactSensitiveData(context);
+    const safeContext = this.security.redactSensitiveData(context.text);
 
     // Build the prompt
     const prompt = this.buildPrompt(question, safeContext, 'deep');
 
-    // Send to Gemini for overview and answer
-    const result = await this.model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
-
-    // Parse the response and combine with real walkthrough
-    const parsed = this.parseResponse(text, project);
+    // Send to the model for overview and answer
+    const parsed = await this.requestAnalysis(prompt, project);
     
     // Use the real traced walkthrough instead of AI-generated one
     return {
       ...parsed,
       walkthrough: walkthrough.length > 0 ? walkthrough : parsed.walkthrough,
+      omissions: context.omissions,
     };
   }
 
-  private async prepareBestEffortContext(
-    project: IndexedProject,
-    question: string
-  ): Promise<string> {
-    const relevantFiles = this.rankFilesByRelevance(project.files, question);
-    const topFiles = relevantFiles.slice(0, 10);
-    
-    let context = `Project: ${project.name}\n`;
-    context += `Frameworks: ${project.frameworks.join(', ')}\n`;
-    context += `Languages: ${Array.from(project.languages).join(', ')}\n`;
-    context += `Entry Points: ${project.entryPoints.join(', ')}\n\n`;
-    
-    context += 'Relevant Code Sections:\n';
-    for (const file of topFiles) {
-      if (file.content) {
-        context += `\n--- ${file.path} ---\n`;
-        context += file.content.slice(0, 2000); // First 2000 chars
-        context += '\n';
-      }
-    }
+  /** Asks the model to explain each traced step; see `applyNarration` for what is kept */
+  private async narratePath(question: string, steps: WalkthroughStep[]): Promise<WalkthroughStep[]> {
+    if (steps.length === 0) return steps;
 
-    return context;
+    const prompt = narrationPrompt(question, steps, code => this.security.redactSensitiveData(code));
+    try {
+      const narration = await this.provider.generateStructured(prompt, PathNarrationSchema, { stage: 'narration' });
+      return applyNarration(steps, narration);
+    } catch (error) {
+      if (!(error instanceof MalformedOutputError)) throw error;
+      return steps;
+    }
   }
 
   private async prepareDeepContext(
     project: IndexedProject,
     question: string
-  ): Promise<string> {
-    let context = `Project: ${project.name}\n`;
-    context += `Frameworks: ${project.frameworks.join(', ')}\n`;
-    context += `Languages: ${Array.from(project.languages).join(', ')}\n`;
-    context += `Entry Points: ${project.entryPoints.join(', ')}\n\n`;
-    
-    context += 'Project Structure:\n';
-    const fileTree = this.buildFileTree(project.files);
-    context += fileTree + '\n\n';
-
-    context += 'Import Graph:\n';
-    for (const [file, imports] of project.importGraph) {
-      context += `${file} imports: ${imports.join(', ')}\n`;
-    }
-    context += '\n';
-
-    context += 'All Code Files:\n';
-    let totalSize = 0;
-    for (const file of project.files) {
-      if (file.content && totalSize < this.config.maxContextSize) {
-        context += `\n--- ${file.path} ---\n`;
-        context += file.content;
-        context += '\n';
-        totalSize += file.content.length;
-      }
-    }
-
-    return context;
-  }
-
-  private rankFilesByRelevance(files: any[], question: string): any[] {
-    const keywords = this.extractKeywords(question);
-    
-    return files.map(file => {
-      let score = 0;
-      
-      // Check filename relevance
-      for (const keyword of keywords) {
-        if (file.path.toLowerCase().includes(keyword.toLowerCase())) {
-          score += 10;
-        }
-      }
-      
-      // Check if entry point
-      if (file.isEntry) score += 5;
-      
-      // Check content relevance
-      if (file.content) {
-        for (const keyword of keywords) {
-          const matches = (file.content.match(new RegExp(keyword, 'gi')) || []).length;
-          score += matches;
-        }
-      }
-      
-      return { ...file, relevanceScore: score };
-    }).sort((a, b) => b.relevanceScore - a.relevanceScore);
-  }
-
-  private extractKeywords(question: string): string[] {
-    const commonWords = new Set(['is', 'the', 'where', 'how', 'what', 'when', 'why', 'does', 'in', 'of', 'a', 'an']);
-    return question
-      .toLowerCase()
-      .split(/\s+/)
-      .filter(word => word.length > 2 && !commonWords.has(word));
-  }
-
-  private buildFileTree(files: any[]): string {
-    const tree: any = {};
-    
-    for (const file of files) {
-      const parts = file.path.split('/');
-      let current = tree;
-      
-      for (const part of parts) {
-        if (!current[part]) {
-          current[part] = {};
-        }
-        current = current[part];
-      }
-    }
-    
-    return this.renderTree(tree, 0);
-  }
-
-  private renderTree(tree: any, depth: number): string {
-    let result = '';
-    const indent = '  '.repeat(depth);
-    
-    for (const [name, children] of Object.entries(tree)) {
-      result += `${indent}${name}\n`;
-      if (Object.keys(children as any).length > 0) {
-        result += this.renderTree(children, depth + 1);
-      }
-    }
-    
-    return result;
+  ): Promise<FittedText> {
+    return this.contextBuilder.build(project, question, this.config.maxContextTokens);
   }
 
   private buildPrompt(question: string, context: string, mode: string): string {
@@ -225,74 +121,44 @@ Format your response as JSON with this structure:
 }`;
   }
 
-  private parseResponse(text: string, project: IndexedProject): AnalysisResult {
+  private async requestAnalysis(prompt: string, project: IndexedProject): Promise<AnalysisResult> {
     try {
-      // Extract JSON from the response
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in response');
-      }
-      
-      const parsed = JSON.parse(jsonMatch[0]);
-      
-      // Ensure mainComponents is an array of strings
-      let mainComponents = parsed.overview?.mainComponents || [];
-      if (!Array.isArray(mainComponents)) {
-        mainComponents = [];
-      } else {
-        mainComponents = mainComponents.map((comp: any) => {
-          if (typeof comp === 'string') return comp;
-          if (comp && typeof comp === 'object' && comp.file) return comp.file;
-          if (comp && typeof comp === 'object' && comp.name) return comp.name;
-          return String(comp);
-        });
-      }
-      
-      // Convert to our types
-      const overview: ArchitectureOverview = {
-        frameworks: parsed.overview?.frameworks || project.frameworks,
-        runtimes: parsed.overview?.runtimes || [],
-        folderLayout: parsed.overview?.folderLayout || 'Standard project structure',
-        mainComponents,
-        controlFlow: parsed.overview?.controlFlow || 'Request/response flow',
-      };
+      const parsed = await this.provider.generateStructured(prompt, AnalysisResponseSchema, { stage: 'analysis' });
 
-      const walkthrough: WalkthroughStep[] = (parsed.walkthrough || []).map((step: any, index: number) => ({
+      const walkthrough: WalkthroughStep[] = parsed.walkthrough.map((step, index) => ({
         index,
-        file: step.file,
-        lineRange: step.lineRange || [1, 10],
-        code: step.code || '',
-        explanation: step.explanation || '',
-        whyRelevant: step.whyRelevant || '',
-        linksTo: step.linksTo || [],
+        ...step,
       }));
 
       return {
-        overview,
+        // Package roles are only asked for by the deep analyzer's monorepo prompt
+        overview: { ...parsed.overview, packages: undefined, entryPoints: groupEntryPoints(project.entryPoints) },
         walkthrough,
-        answer: parsed.answer || 'Unable to determine answer',
-        citations: parsed.citations || [],
+        answer: parsed.answer,
+        citations: parsed.citations,
         uncertainties: parsed.uncertainties,
         omissions: [],
-        confidence: parsed.confidence || 'medium',
+        confidence: parsed.confidence,
       };
     } catch (error) {
-      // Fallback response if parsing fails
+      if (!(error instanceof MalformedOutputError)) throw error;
+      // Fallback response if the model never produced valid output
       return {
         overview: {
           frameworks: project.frameworks,
-          runtimes: [],
-          folderLayout: 'Project structure analyzed',
-          mainComponents: project.entryPoints,
-          controlFlow: 'Standard application flow',
+          runtimes: project.runtimes,
+          folderLayout: 'Not determined',
+          mainComponents: entryFiles(project.entryPoints),
+          controlFlow: 'Not determined',
+          entryPoints: groupEntryPoints(project.entryPoints),
         },
         walkthrough: [],
-        answer: 'Analysis completed but response parsing failed. The project appears to be a ' + 
+        answer: 'Analysis completed but the model response could not be parsed. The project appears to be a ' + 
                 project.frameworks.join(', ') + ' application.',
         citations: [],
-        uncertainties: ['Response parsing error'],
+        uncertainties: [`Model output was invalid: ${error.message}`],
         confidence: 'low',
       };
     }
   }
-}
\ No newline at end of file
+}
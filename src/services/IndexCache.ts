@@ -0,0 +1,209 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import type {
+  Config,
+  EntrySignal,
+  ExportRecord,
+  ImportRecord,
+  IndexedProject,
+  ProjectSymbol,
+  SymbolDefinition,
+  SymbolIndex,
+  SymbolReference,
+  SymbolUsage,
+} from '../types/index.js';
+
+// Bump when the cached shape or the per-file processing changes meaning
+const CACHE_VERSION = 7;
+
+export interface CachedFile {
+  path: string;
+  size: number;
+  hash: string;
+  language?: string;
+  entrySignals?: EntrySignal[];
+  namespaces?: string[];
+  imports?: ImportRecord[];
+  exports?: ExportRecord[];
+  definitions?: SymbolDefinition[];
+  usages?: SymbolUsage[];
+}
+
+interface CachedIndex {
+  version: number;
+  root: string;
+  settingsKey: string;
+  fingerprint: string;
+  files: CachedFile[];
+  importGraph: Array<[string, string[]]>;
+  symbols: ProjectSymbol[];
+  references: Array<[string, SymbolReference[]]>;
+}
+
+export interface LoadedIndex {
+  files: Map<string, CachedFile>;
+  fingerprint: string;
+  importGraph: Map<string, string[]>;
+  symbols: SymbolIndex;
+}
+
+/**
+ * Persists the per-file results of indexing under `cacheDir` so repeated
+ * questions only re-process files whose content hash changed. Entries are
+ * discarded wholesale when include/exclude filters or `maxFileSize` change,
+ * since those alter which files are part of the index at all.
+ */
+export class IndexCache {
+  constructor(private config: Config) {}
+
+  static hashContent(content: string | Buffer): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * Combined hash over every file path and content hash in the index.
+   */
+  static fingerprint(files: Array<{ path: string; hash?: string }>): string {
+    const hash = crypto.createHash('sha256');
+    for (const file of [...files].sort((a, b) => a.path.localeCompare(b.path))) {
+      hash.update(`${file.path}\0${file.hash || ''}\n`);
+    }
+    return hash.digest('hex');
+  }
+
+  async load(
+    rootDir: string,
+    filters: { include: string[]; exclude: string[] }
+  ): Promise<LoadedIndex | null> {
+    const cachePath = this.cachePath(rootDir);
+    if (!cachePath || !this.config.useCache) return null;
+
+    try {
+      const raw = await fs.readFile(cachePath, 'utf-8');
+      const data = JSON.parse(raw) as CachedIndex;
+      if (data.version !== CACHE_VERSION || data.settingsKey !== this.settingsKey(filters)) {
+        return null;
+      }
+      return {
+        files: new Map(data.files.map(f => [f.path, f])),
+        fingerprint: data.fingerprint,
+        importGraph: new Map(data.importGraph),
+        symbols: { symbols: data.symbols, references: new Map(data.references) },
+      };
+    } catch {
+      // Missing or corrupt cache - index from scratch
+      return null;
+    }
+  }
+
+  async save(
+    project: IndexedProject,
+    filters: { include: string[]; exclude: string[] }
+  ): Promise<void> {
+    const cachePath = this.cachePath(project.root);
+    if (!cachePath) return;
+
+    const data: CachedIndex = {
+      version: CACHE_VERSION,
+      root: project.root,
+      settingsKey: this.settingsKey(filters),
+      fingerprint: IndexCache.fingerprint(project.files),
+      files: project.files
+        .filter(f => f.hash)
+        .map(f => ({
+          path: f.path,
+          size: f.size,
+          hash: f.hash!,
+          language: f.language,
+          entrySignals: f.entrySignals,
+          namespaces: f.namespaces,
+          imports: f.imports,
+          exports: f.exports,
+          definitions: f.definitions,
+          usages: f.usages,
+        })),
+      importGraph: Array.from(project.importGraph.entries()),
+      symbols: project.symbols.symbols,
+      references: Array.from(project.symbols.references.entries()),
+    };
+
+    try {
+      await fs.mkdir(path.dirname(cachePath), { recursive: true });
+      // Write then rename so a crash never leaves a half-written cache
+      const tmpPath = `${cachePath}.${process.pid}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(data), 'utf-8');
+      await fs.rename(tmpPath, cachePath);
+    } catch {
+      // Caching is best-effort; a read-only home directory must not break indexing
+    }
+  }
+
+  async stats(): Promise<{ entries: number; bytes: number; roots: string[] }> {
+    const stats = { entries: 0, bytes: 0, roots: [] as string[] };
+    for (const entryPath of await this.listEntries()) {
+      try {
+        const raw = await fs.readFile(entryPath, 'utf-8');
+        stats.entries++;
+        stats.bytes += Buffer.byteLength(raw);
+        stats.roots.push((JSON.parse(raw) as CachedIndex).root);
+      } catch {
+        // Ignore unreadable entries; prune removes them
+      }
+    }
+    return stats;
+  }
+
+  /**
+   * Removes indexes not refreshed within `maxAgeMs`, indexes of projects that
+   * no longer exist on disk, and unreadable entries.
+   */
+  async prune(maxAgeMs: number): Promise<number> {
+    const cutoff = Date.now() - maxAgeMs;
+    let removed = 0;
+    for (const entryPath of await this.listEntries()) {
+      let stale = true;
+      try {
+        const { mtimeMs } = await fs.stat(entryPath);
+        const data = JSON.parse(await fs.readFile(entryPath, 'utf-8')) as CachedIndex;
+        await fs.access(data.root);
+        stale = mtimeMs < cutoff;
+      } catch {
+        // Corrupt entry or deleted project - remove it
+      }
+      if (stale) {
+        await fs.rm(entryPath, { force: true });
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  private async listEntries(): Promise<string[]> {
+    if (!this.config.cacheDir) return [];
+    const dir = path.join(this.config.cacheDir, 'index');
+    try {
+      const names = await fs.readdir(dir);
+      return names.filter(n => n.endsWith('.json')).map(n => path.join(dir, n));
+    } catch {
+      return [];
+    }
+  }
+
+  private cachePath(rootDir: string): string | null {
+    if (!this.config.cacheDir) return null;
+    const rootHash = crypto.createHash('sha256').update(path.resolve(rootDir)).digest('hex').slice(0, 16);
+    return path.join(this.config.cacheDir, 'index', `${rootHash}.json`);
+  }
+
+  private settingsKey(filters: { include: string[]; exclude: string[] }): string {
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify({
+        include: filters.include,
+        exclude: filters.exclude,
+        maxFileSize: this.config.maxFileSize,
+      }))
+      .digest('hex');
+  }
+}
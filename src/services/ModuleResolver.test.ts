@@ -0,0 +1,67 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { ImportRecord } from '../types/index.js';
+import { ModuleResolver } from './ModuleResolver.js';
+
+const FILES: Record<string, string> = {
+  'tsconfig.json': JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@app/*': ['src/*'] } } }),
+  'package.json': JSON.stringify({ name: 'root', private: true, workspaces: ['packages/*'] }),
+  'packages/shared/package.json': JSON.stringify({ name: '@acme/shared', main: 'dist/index.js' }),
+  'packages/shared/src/index.ts': 'export const shared = 1;\n',
+  'src/app.ts': '',
+  'src/util/format.ts': '',
+  'src/models/index.ts': '',
+  'api/__init__.py': '',
+  'api/views.py': '',
+  'api/models/__init__.py': '',
+  'api/models/user.py': '',
+};
+
+let dir: string;
+let resolver: ModuleResolver;
+
+const record = (source: string, names: string[] = []): ImportRecord => ({ source, names, kind: 'static', line: 1 });
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'explain-resolver-'));
+  for (const [file, content] of Object.entries(FILES)) {
+    await fs.mkdir(path.join(dir, path.dirname(file)), { recursive: true });
+    await fs.writeFile(path.join(dir, file), content);
+  }
+  resolver = await ModuleResolver.create(dir, Object.keys(FILES));
+});
+
+after(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+test('resolves relative imports, ESM .js specifiers and index files', () => {
+  assert.deepEqual(resolver.resolve(record('./util/format.js'), 'src/app.ts', 'typescript'), { target: 'file', resolved: 'src/util/format.ts' });
+  assert.deepEqual(resolver.resolve(record('./util/format'), 'src/app.ts', 'typescript'), { target: 'file', resolved: 'src/util/format.ts' });
+  assert.deepEqual(resolver.resolve(record('../models'), 'src/util/format.ts', 'typescript'), { target: 'file', resolved: 'src/models/index.ts' });
+  assert.equal(resolver.resolve(record('./missing.js'), 'src/app.ts', 'typescript').target, 'unresolved');
+});
+
+test('resolves tsconfig paths and workspace packages to their sources', () => {
+  assert.deepEqual(resolver.resolve(record('@app/util/format'), 'src/app.ts', 'typescript'), { target: 'file', resolved: 'src/util/format.ts' });
+  assert.deepEqual(resolver.resolve(record('@acme/shared'), 'src/app.ts', 'typescript'), { target: 'file', resolved: 'packages/shared/src/index.ts' });
+});
+
+test('classifies Node builtins and npm packages', () => {
+  assert.deepEqual(resolver.resolve(record('node:fs/promises'), 'src/app.ts', 'typescript'), { target: 'builtin', resolved: 'fs/promises' });
+  assert.deepEqual(resolver.resolve(record('path'), 'src/app.ts', 'typescript'), { target: 'builtin', resolved: 'path' });
+  assert.equal(resolver.resolve(record('react'), 'src/app.ts', 'typescript').target, 'external');
+  assert.equal(resolver.resolve(record('@scope/pkg/sub'), 'src/app.ts', 'typescript').target, 'external');
+});
+
+test('resolves Python relative and absolute imports', () => {
+  assert.deepEqual(resolver.resolve(record('.models.user'), 'api/views.py', 'python'), { target: 'file', resolved: 'api/models/user.py' });
+  assert.deepEqual(resolver.resolve(record('.models', ['user']), 'api/views.py', 'python').resolved, 'api/models/user.py');
+  assert.deepEqual(resolver.resolve(record('..views'), 'api/models/user.py', 'python'), { target: 'file', resolved: 'api/views.py' });
+  assert.deepEqual(resolver.resolve(record('api.models'), 'api/views.py', 'python'), { target: 'file', resolved: 'api/models/__init__.py' });
+  assert.deepEqual(resolver.resolve(record('os.path'), 'api/views.py', 'python'), { target: 'builtin', resolved: 'os' });
+  assert.deepEqual(resolver.resolve(record('django.db'), 'api/views.py', 'python'), { target: 'external', resolved: 'django' });
+});
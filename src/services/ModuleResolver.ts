@@ -0,0 +1,606 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { builtinModules } from 'node:module';
+import { globby } from 'globby';
+import type { ImportRecord, ImportTarget } from '../types/index.js';
+import { readJson } from '../utils/json.js';
+import { IGNORED_DIRS, tomlSection, tomlString } from '../detectors/manifests.js';
+import { loadNodeManifests } from './WorkspaceDetector.js';
+
+export interface Resolution {
+  target: ImportTarget;
+  /** Project-relative file for `file`, package name for `external`, module name for `builtin` */
+  resolved?: string;
+  /** Every file of an imported package or namespace, when the import names more than one */
+  files?: string[];
+}
+
+/** Go module (go.mod) or Rust crate (Cargo.toml) declared in the project */
+interface SourceModule {
+  name: string;
+  /** Project-relative directory of the manifest */
+  dir: string;
+}
+
+interface PathMapping {
+  /** Directory that `paths` substitutions are relative to, project-relative */
+  baseDir: string;
+  /** Directory non-relative specifiers are tried against, when `baseUrl` is set */
+  baseUrl?: string;
+  paths: Array<{ pattern: string; substitutions: string[] }>;
+}
+
+interface ResolvablePackage {
+  name: string;
+  dir: string;
+  main?: string;
+  exports?: unknown;
+}
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mts', '.cts', '.mjs', '.cjs', '.json'];
+
+// TypeScript ESM projects import `./foo.js` while the file on disk is foo.ts
+const ESM_REWRITES: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+// Export conditions in preference order; source-facing ones first
+const EXPORT_CONDITIONS = ['source', 'types', 'import', 'module', 'node', 'require', 'default'];
+
+// Build output folders a workspace package's entry usually points into
+const BUILD_DIRS = /^(dist|lib|build|out)\//;
+
+const NODE_BUILTINS = new Set(builtinModules);
+
+// Common standard-library modules; anything else non-relative is treated as a package
+const PYTHON_STDLIB = new Set([
+  '__future__', 'abc', 'argparse', 'array', 'ast', 'asyncio', 'base64', 'bisect', 'builtins',
+  'collections', 'concurrent', 'contextlib', 'copy', 'csv', 'dataclasses', 'datetime', 'decimal',
+  'enum', 'errno', 'functools', 'gc', 'glob', 'gzip', 'hashlib', 'heapq', 'hmac', 'html', 'http',
+  'importlib', 'inspect', 'io', 'itertools', 'json', 'logging', 'math', 'multiprocessing', 'operator',
+  'os', 'pathlib', 'pickle', 'platform', 'pprint', 'queue', 'random', 're', 'secrets', 'select',
+  'shutil', 'signal', 'socket', 'sqlite3', 'ssl', 'stat', 'statistics', 'string', 'struct',
+  'subprocess', 'sys', 'tempfile', 'textwrap', 'threading', 'time', 'timeit', 'traceback', 'types',
+  'typing', 'unittest', 'urllib', 'uuid', 'warnings', 'weakref', 'xml', 'zipfile', 'zlib',
+]);
+
+const RUST_BUILTIN_CRATES = new Set(['std', 'core', 'alloc', 'proc_macro', 'test']);
+const JVM_BUILTIN_ROOTS = new Set(['java', 'javax', 'jdk', 'sun', 'kotlin']);
+const CSHARP_BUILTIN_ROOTS = new Set(['System', 'Microsoft']);
+
+// Common standard-library requires; gems are anything else not found in the project
+const RUBY_STDLIB = new Set([
+  'benchmark', 'bigdecimal', 'cgi', 'csv', 'date', 'digest', 'English', 'erb', 'fileutils', 'find',
+  'forwardable', 'io/console', 'ipaddr', 'json', 'logger', 'net/http', 'observer', 'open3', 'open-uri',
+  'optparse', 'ostruct', 'pathname', 'pp', 'prettyprint', 'securerandom', 'set', 'shellwords',
+  'singleton', 'socket', 'stringio', 'strscan', 'tempfile', 'time', 'timeout', 'tmpdir', 'uri', 'yaml',
+  'zlib',
+]);
+
+// Directories `#include` paths are commonly relative to, after the including file's own
+const INCLUDE_DIRS = ['', 'include', 'src'];
+
+/**
+ * Maps import specifiers to project files the way the language toolchain
+ * would: relative paths with extension and index probing, `.js` to `.ts`
+ * ESM rewriting, tsconfig `paths`/`baseUrl` (following relative `extends`),
+ * and npm/yarn/pnpm workspace packages via their package.json `exports` or
+ * `main`. Other languages follow their own rules: Go import paths under
+ * a go.mod module, Rust `crate`/`self`/`super` paths and workspace crates,
+ * Java, Kotlin, C# and PHP names through the packages or namespaces files
+ * declare, Ruby and shell paths, and C/C++ includes. Specifiers that do
+ * not land in the project are classified as builtins or external
+ * packages; relative ones that point nowhere are `unresolved`.
+ */
+export class ModuleResolver {
+  private files: Set<string>;
+  private dirs = new Map<string, string[]>();
+
+  private constructor(
+    files: Iterable<string>,
+    private mappings: Map<string, PathMapping | null>,
+    private workspaces: Map<string, ResolvablePackage>,
+    private namespaces: Map<string, string[]>,
+    private goModules: SourceModule[],
+    private crates: SourceModule[]
+  ) {
+    this.files = new Set(files);
+    for (const file of this.files) {
+      const dir = path.posix.dirname(file);
+      const siblings = this.dirs.get(dir);
+      if (siblings) siblings.push(file);
+      else this.dirs.set(dir, [file]);
+    }
+  }
+
+  /**
+   * Loads every tsconfig.json, workspace package.json, go.mod and
+   * Cargo.toml the project has. `files` are the project-relative paths of
+   * the indexed files; `namespaces` maps each declared package or
+   * namespace (Java, Kotlin, C#, PHP) to the files declaring it.
+   */
+  static async create(
+    rootDir: string,
+    files: string[],
+    namespaces: Map<string, string[]> = new Map()
+  ): Promise<ModuleResolver> {
+    const tsconfigs = await globby(['**/tsconfig.json'], {
+      cwd: rootDir,
+      gitignore: true,
+      ignore: ['**/node_modules/**'],
+    });
+    const mappings = new Map<string, PathMapping | null>();
+    for (const tsconfig of tsconfigs) {
+      mappings.set(path.posix.dirname(tsconfig), await loadPathMapping(rootDir, tsconfig));
+    }
+
+    const goModules = files.some(f => f.endsWith('.go')) ? await loadSourceModules(rootDir, 'go.mod') : [];
+    const crates = files.some(f => f.endsWith('.rs')) ? await loadSourceModules(rootDir, 'Cargo.toml') : [];
+
+    return new ModuleResolver(files, mappings, await loadWorkspaces(rootDir), namespaces, goModules, crates);
+  }
+
+  resolve(record: ImportRecord, fromFile: string, language: string): Resolution {
+    switch (language) {
+      case 'python':
+        return this.resolvePython(record, fromFile);
+      case 'go':
+        return this.resolveGo(record.source);
+      case 'rust':
+        return this.resolveRust(record.source, fromFile);
+      case 'java':
+      case 'kotlin':
+        return this.resolveJvm(record);
+      case 'csharp':
+        return this.resolveCSharp(record);
+      case 'php':
+        return this.resolvePhp(record, fromFile);
+      case 'ruby':
+        return this.resolveRuby(record.source, fromFile);
+      case 'c':
+      case 'cpp':
+        return this.resolveInclude(record.source, fromFile);
+      case 'protobuf':
+        return record.source.startsWith('google/protobuf/')
+          ? { target: 'builtin', resolved: record.source }
+          : this.fileResult(this.probeFrom([path.posix.dirname(fromFile), ''], record.source));
+      case 'terraform':
+        return this.resolveTerraform(record.source, fromFile);
+      case 'shell':
+        return this.resolveShell(record.source, fromFile);
+      default:
+        return this.resolveScript(record.source, fromFile);
+    }
+  }
+
+  private resolveScript(specifier: string, fromFile: string): Resolution {
+    const bare = specifier.replace(/^node:/, '');
+    if (specifier.startsWith('node:') || NODE_BUILTINS.has(bare) || NODE_BUILTINS.has(bare.split('/')[0])) {
+      return { target: 'builtin', resolved: bare };
+    }
+
+    if (specifier.startsWith('.') || specifier.startsWith('/')) {
+      const base = specifier.startsWith('/')
+        ? specifier.slice(1)
+        : path.posix.join(path.posix.dirname(fromFile), specifier);
+      return this.fileResult(this.probe(base));
+    }
+
+    const mapping = this.mappingFor(fromFile);
+    if (mapping) {
+      const mapped = this.resolveMapped(specifier, mapping);
+      if (mapped) return { target: 'file', resolved: mapped };
+    }
+
+    const workspace = this.resolveWorkspace(specifier);
+    if (workspace) return { target: 'file', resolved: workspace };
+
+    return { target: 'external', resolved: packageName(specifier) };
+  }
+
+  private resolvePython(record: ImportRecord, fromFile: string): Resolution {
+    const specifier = record.source;
+    const dots = specifier.match(/^\.*/)![0].length;
+    const modulePath = specifier.slice(dots).split('.').filter(Boolean).join('/');
+
+    if (dots > 0) {
+      // One dot is the current package, each further dot goes up a level
+      let dir = path.posix.dirname(fromFile);
+      for (let i = 1; i < dots; i++) dir = path.posix.dirname(dir);
+      return this.fileResult(this.probePythonImport(path.posix.join(dir, modulePath), record.names));
+    }
+
+    // Absolute imports resolve from the project root or a src/ layout
+    for (const root of ['', 'src']) {
+      const found = this.probePythonImport(path.posix.join(root, modulePath), record.names);
+      if (found) return { target: 'file', resolved: found };
+    }
+
+    const top = specifier.split('.')[0];
+    return PYTHON_STDLIB.has(top) ? { target: 'builtin', resolved: top } : { target: 'external', resolved: top };
+  }
+
+  // An import path names a package directory; the module it falls under maps it to one
+  private resolveGo(specifier: string): Resolution {
+    const module = this.goModules
+      .filter(m => specifier === m.name || specifier.startsWith(`${m.name}/`))
+      .sort((a, b) => b.name.length - a.name.length)[0];
+    if (module) {
+      const dir = path.posix.join(module.dir, specifier.slice(module.name.length + 1));
+      return this.packageResult((this.dirs.get(dir) ?? []).filter(f => f.endsWith('.go') && !f.endsWith('_test.go')));
+    }
+
+    // Standard library paths have no domain in their first element
+    const first = specifier.split('/')[0];
+    if (!first.includes('.')) return { target: 'builtin', resolved: specifier };
+    const isForge = /^(github\.com|gitlab\.com|bitbucket\.org)$/.test(first);
+    return { target: 'external', resolved: isForge ? specifier.split('/').slice(0, 3).join('/') : specifier };
+  }
+
+  private resolveRust(specifier: string, fromFile: string): Resolution {
+    const segments = specifier.split('::');
+    const first = segments[0];
+    if (RUST_BUILTIN_CRATES.has(first)) return { target: 'builtin', resolved: first };
+
+    let base: string;
+    let rest = segments.slice(1);
+    if (first === 'crate') {
+      base = this.crateSourceDir(fromFile);
+    } else if (first === 'self') {
+      base = rustModuleDir(fromFile);
+    } else if (first === 'super') {
+      // Each `super` steps out to the parent module
+      const depth = segments.findIndex(s => s !== 'super');
+      base = rustModuleDir(fromFile);
+      for (let i = 0; i < (depth === -1 ? segments.length : depth); i++) base = path.posix.dirname(base);
+      rest = depth === -1 ? [] : segments.slice(depth);
+    } else {
+      const crate = this.crates.find(c => c.name.replace(/-/g, '_') === first);
+      if (!crate) return { target: 'external', resolved: first };
+      base = path.posix.join(crate.dir, 'src');
+    }
+
+    // The longest prefix naming a module file wins; the rest are items inside it
+    for (let length = rest.length; length > 0; length--) {
+      const found = this.probeRustModule(path.posix.join(base, ...rest.slice(0, length)));
+      if (found) return { target: 'file', resolved: found };
+    }
+    return this.fileResult(this.probeRustModule(base));
+  }
+
+  private resolveJvm(record: ImportRecord): Resolution {
+    const segments = record.source.split('.');
+    if (JVM_BUILTIN_ROOTS.has(segments[0])) return { target: 'builtin', resolved: segments.slice(0, 2).join('.') };
+
+    if (record.names[0] === '*') {
+      const members = this.namespaces.get(record.source);
+      if (members) return this.packageResult(members);
+    }
+    // `a.b.Outer.Inner` lives in Outer's file; try the longest package first
+    for (let length = segments.length - 1; length > 0; length--) {
+      const found = this.classFile(segments.slice(0, length).join('.'), segments[length]);
+      if (found) return { target: 'file', resolved: found };
+    }
+    const pkg = record.names[0] === '*' ? record.source : segments.slice(0, -1).join('.');
+    return { target: 'external', resolved: pkg };
+  }
+
+  private resolveCSharp(record: ImportRecord): Resolution {
+    const root = record.source.split('.')[0];
+    if (CSHARP_BUILTIN_ROOTS.has(root)) return { target: 'builtin', resolved: record.source };
+
+    const members = this.namespaces.get(record.source);
+    if (members) return this.packageResult(members);
+    // Aliases and `using static` name a type inside a namespace
+    const dot = record.source.lastIndexOf('.');
+    const found = dot > 0 ? this.classFile(record.source.slice(0, dot), record.source.slice(dot + 1)) : undefined;
+    return found ? { target: 'file', resolved: found } : { target: 'external', resolved: record.source };
+  }
+
+  private resolvePhp(record: ImportRecord, fromFile: string): Resolution {
+    if (record.kind === 'require') {
+      const dirs = record.source.startsWith('.') ? [path.posix.dirname(fromFile)] : [path.posix.dirname(fromFile), ''];
+      return this.fileResult(this.probeFrom(dirs, record.source));
+    }
+
+    const separator = record.source.lastIndexOf('\\');
+    if (separator === -1) return { target: 'builtin', resolved: record.source };
+    const namespace = record.source.slice(0, separator);
+    const found = this.classFile(namespace, record.source.slice(separator + 1));
+    if (found) return { target: 'file', resolved: found };
+    const members = this.namespaces.get(record.source);
+    if (members) return this.packageResult(members);
+    // A class missing from a namespace the project declares is not a package's
+    if (this.namespaces.has(namespace)) return { target: 'unresolved' };
+    return { target: 'external', resolved: record.source.split('\\').slice(0, 2).join('\\') };
+  }
+
+  private resolveRuby(specifier: string, fromFile: string): Resolution {
+    const withExtension = specifier.endsWith('.rb') ? specifier : `${specifier}.rb`;
+    if (specifier.startsWith('.')) {
+      return this.fileResult(this.probeFrom([path.posix.dirname(fromFile)], withExtension));
+    }
+    // `require` searches the load path, which for an app or gem is lib/ (and app/ in Rails)
+    const found = this.probeFrom(['lib', 'app', ''], withExtension);
+    if (found) return { target: 'file', resolved: found };
+    return RUBY_STDLIB.has(specifier)
+      ? { target: 'builtin', resolved: specifier }
+      : { target: 'external', resolved: specifier.split('/')[0] };
+  }
+
+  // Quoted includes search next to the including file first; angled ones only the include dirs
+  private resolveInclude(specifier: string, fromFile: string): Resolution {
+    const angled = specifier.startsWith('<');
+    const header = angled ? specifier.slice(1, -1) : specifier;
+    const dirs = angled ? INCLUDE_DIRS : [path.posix.dirname(fromFile), ...INCLUDE_DIRS];
+    const found = this.probeFrom(dirs, header);
+    if (found) return { target: 'file', resolved: found };
+    return angled ? { target: 'builtin', resolved: header } : { target: 'unresolved' };
+  }
+
+  // Local module sources are directories of .tf files; anything else is a registry or git address
+  private resolveTerraform(specifier: string, fromFile: string): Resolution {
+    if (!specifier.startsWith('.')) return { target: 'external', resolved: specifier };
+    const dir = path.posix.join(path.posix.dirname(fromFile), specifier);
+    return this.packageResult((this.dirs.get(dir) ?? []).filter(f => f.endsWith('.tf')));
+  }
+
+  // `$DIR/lib.sh` is almost always relative to the script itself
+  private resolveShell(specifier: string, fromFile: string): Resolution {
+    const relative = specifier.replace(/^\$\{?\w+\}?\//, '');
+    return this.fileResult(this.probeFrom([path.posix.dirname(fromFile), ''], relative));
+  }
+
+  private fileResult(found: string | undefined): Resolution {
+    return found ? { target: 'file', resolved: found } : { target: 'unresolved' };
+  }
+
+  private packageResult(files: string[]): Resolution {
+    if (files.length === 0) return { target: 'unresolved' };
+    const sorted = [...files].sort();
+    return { target: 'file', resolved: sorted[0], files: sorted };
+  }
+
+  /** The first of `dirs` that has an indexed file at `relative` */
+  private probeFrom(dirs: string[], relative: string): string | undefined {
+    for (const dir of dirs) {
+      const candidate = path.posix.normalize(path.posix.join(dir, relative));
+      if (this.files.has(candidate)) return candidate;
+    }
+    return undefined;
+  }
+
+  // A type is declared in the file named after it, in a file declaring its package or namespace
+  private classFile(namespace: string, name: string): string | undefined {
+    return this.namespaces.get(namespace)?.find(file => path.posix.parse(file).name === name);
+  }
+
+  private probeRustModule(base: string): string | undefined {
+    const normalized = path.posix.normalize(base);
+    for (const candidate of [`${normalized}.rs`, `${normalized}/mod.rs`, `${normalized}/lib.rs`, `${normalized}/main.rs`]) {
+      if (this.files.has(candidate)) return candidate;
+    }
+    return undefined;
+  }
+
+  // `crate::` starts at the src/ directory of the innermost crate containing the file
+  private crateSourceDir(fromFile: string): string {
+    const crate = this.crates
+      .filter(c => c.dir === '.' || fromFile.startsWith(`${c.dir}/`))
+      .sort((a, b) => b.dir.length - a.dir.length)[0];
+    return path.posix.join(crate?.dir ?? '.', 'src');
+  }
+
+  /** Finds the indexed file `base` refers to, trying extensions and index files. */
+  private probe(base: string): string | undefined {
+    const normalized = path.posix.normalize(base).replace(/^\.\//, '').replace(/\/$/, '');
+    if (this.files.has(normalized)) return normalized;
+
+    const extension = path.posix.extname(normalized);
+    for (const replacement of ESM_REWRITES[extension] || []) {
+      const rewritten = normalized.slice(0, -extension.length) + replacement;
+      if (this.files.has(rewritten)) return rewritten;
+    }
+    for (const candidate of SCRIPT_EXTENSIONS) {
+      if (this.files.has(normalized + candidate)) return normalized + candidate;
+    }
+    for (const candidate of SCRIPT_EXTENSIONS) {
+      const index = path.posix.join(normalized, `index${candidate}`);
+      if (this.files.has(index)) return index;
+    }
+    return undefined;
+  }
+
+  // `from pkg import name` may name a submodule rather than an attribute of pkg
+  private probePythonImport(base: string, names: string[]): string | undefined {
+    for (const name of names) {
+      if (name === '*') continue;
+      const submodule = this.probePython(path.posix.join(base, name));
+      if (submodule) return submodule;
+    }
+    return this.probePython(base);
+  }
+
+  private probePython(base: string): string | undefined {
+    const normalized = path.posix.normalize(base).replace(/^\.\/?/, '');
+    for (const candidate of [`${normalized}.py`, `${normalized}/__init__.py`]) {
+      const file = candidate.replace(/^\//, '');
+      if (this.files.has(file)) return file;
+    }
+    return undefined;
+  }
+
+  // The nearest tsconfig.json above the importing file governs it
+  private mappingFor(fromFile: string): PathMapping | null {
+    for (let dir = path.posix.dirname(fromFile); ; dir = path.posix.dirname(dir)) {
+      if (this.mappings.has(dir)) return this.mappings.get(dir) ?? null;
+      if (dir === '.' || dir === '/' || dir === '') return null;
+    }
+  }
+
+  private resolveMapped(specifier: string, mapping: PathMapping): string | undefined {
+    // The most specific pattern wins, as in the compiler
+    const matches = mapping.paths
+      .map(entry => ({ entry, capture: matchPattern(entry.pattern, specifier) }))
+      .filter((m): m is { entry: PathMapping['paths'][number]; capture: string } => m.capture !== undefined)
+      .sort((a, b) => b.entry.pattern.indexOf('*') - a.entry.pattern.indexOf('*'));
+
+    for (const { entry, capture } of matches) {
+      for (const substitution of entry.substitutions) {
+        const found = this.probe(path.posix.join(mapping.baseDir, substitution.replace('*', capture)));
+        if (found) return found;
+      }
+    }
+    return mapping.baseUrl !== undefined ? this.probe(path.posix.join(mapping.baseUrl, specifier)) : undefined;
+  }
+
+  private resolveWorkspace(specifier: string): string | undefined {
+    const name = packageName(specifier);
+    const pkg = this.workspaces.get(name);
+    if (!pkg) return undefined;
+
+    const subpath = '.' + specifier.slice(name.length);
+    const targets = pkg.exports !== undefined
+      ? exportTargets(pkg.exports, subpath)
+      : subpath === '.' ? [pkg.main || 'index'] : [subpath];
+
+    for (const target of targets) {
+      const relative = path.posix.normalize(target).replace(/^\.\//, '');
+      const found = this.probe(path.posix.join(pkg.dir, relative));
+      if (found) return found;
+      // Entries usually point at build output; the source sits under src/
+      if (BUILD_DIRS.test(relative)) {
+        const source = this.probe(path.posix.join(pkg.dir, relative.replace(BUILD_DIRS, 'src/')));
+        if (source) return source;
+      }
+    }
+    return this.probe(path.posix.join(pkg.dir, 'src', 'index'));
+  }
+}
+
+async function loadPathMapping(rootDir: string, tsconfig: string, depth = 0): Promise<PathMapping | null> {
+  let config: any;
+  try {
+    config = await readJson(path.join(rootDir, tsconfig));
+  } catch {
+    return null;
+  }
+
+  const dir = path.posix.dirname(tsconfig);
+  const options = config.compilerOptions || {};
+
+  // Only relative `extends` can be followed without node_modules
+  let inherited: PathMapping | null = null;
+  const parent = typeof config.extends === 'string' ? config.extends : undefined;
+  if (parent && parent.startsWith('.') && depth < 5) {
+    const parentPath = path.posix.join(dir, parent.endsWith('.json') ? parent : `${parent}.json`);
+    inherited = await loadPathMapping(rootDir, parentPath, depth + 1);
+  }
+
+  const baseUrl = typeof options.baseUrl === 'string' ? path.posix.join(dir, options.baseUrl) : inherited?.baseUrl;
+  if (options.paths && typeof options.paths === 'object') {
+    return {
+      baseDir: baseUrl ?? dir,
+      baseUrl,
+      paths: Object.entries(options.paths as Record<string, string[]>).map(([pattern, substitutions]) => ({
+        pattern,
+        substitutions: Array.isArray(substitutions) ? substitutions : [],
+      })),
+    };
+  }
+  if (inherited || baseUrl !== undefined) {
+    return { baseDir: inherited?.baseDir ?? dir, baseUrl, paths: inherited?.paths ?? [] };
+  }
+  return null;
+}
+
+/** Go modules (`module` in go.mod) or Rust crates (`[package] name` in Cargo.toml) */
+async function loadSourceModules(rootDir: string, manifest: 'go.mod' | 'Cargo.toml'): Promise<SourceModule[]> {
+  const manifests = await globby([`**/${manifest}`], { cwd: rootDir, gitignore: true, ignore: IGNORED_DIRS });
+  const modules: SourceModule[] = [];
+  for (const file of manifests) {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(rootDir, file), 'utf-8');
+    } catch {
+      continue;
+    }
+    const name = manifest === 'go.mod'
+      ? content.match(/^module\s+(\S+)/m)?.[1]
+      : tomlString(tomlSection(content, 'package'), 'name');
+    if (name) modules.push({ name, dir: path.posix.dirname(file) });
+  }
+  return modules;
+}
+
+// Child modules of `src/a.rs` live in `src/a/`; of `mod.rs`, `lib.rs` and `main.rs`, next to them
+function rustModuleDir(file: string): string {
+  const { dir, name } = path.posix.parse(file);
+  return ['mod', 'lib', 'main'].includes(name) ? dir : path.posix.join(dir, name);
+}
+
+async function loadWorkspaces(rootDir: string): Promise<Map<string, ResolvablePackage>> {
+  const packages = new Map<string, ResolvablePackage>();
+  const { root, members } = await loadNodeManifests(rootDir);
+
+  // A package importing itself by name resolves through its own exports
+  if (typeof root?.name === 'string') {
+    packages.set(root.name, { name: root.name, dir: '.', main: root.main, exports: root.exports });
+  }
+  for (const { dir, json } of members) {
+    if (typeof json.name === 'string') {
+      packages.set(json.name, { name: json.name, dir, main: json.module || json.main, exports: json.exports });
+    }
+  }
+  return packages;
+}
+
+/** Candidate files for `subpath` in a package.json `exports` field, best first. */
+function exportTargets(exports: unknown, subpath: string): string[] {
+  if (typeof exports === 'string') return subpath === '.' ? [exports] : [];
+  if (Array.isArray(exports)) return exports.flatMap(e => exportTargets(e, subpath));
+  if (!exports || typeof exports !== 'object') return [];
+
+  const entries = exports as Record<string, unknown>;
+  const isSubpathMap = Object.keys(entries).some(key => key.startsWith('.'));
+  if (!isSubpathMap) return subpath === '.' ? conditionTargets(entries) : [];
+
+  if (subpath in entries) return conditionTargets(entries[subpath]);
+  for (const [key, value] of Object.entries(entries)) {
+    const capture = key.includes('*') ? matchPattern(key, subpath) : undefined;
+    if (capture !== undefined) {
+      return conditionTargets(value).map(target => target.replace(/\*/g, capture));
+    }
+  }
+  return [];
+}
+
+function conditionTargets(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(conditionTargets);
+  if (!value || typeof value !== 'object') return [];
+
+  const conditions = value as Record<string, unknown>;
+  return EXPORT_CONDITIONS.filter(c => c in conditions).flatMap(c => conditionTargets(conditions[c]));
+}
+
+// Matches a single-`*` pattern (tsconfig paths, exports keys) and returns what `*` captured
+function matchPattern(pattern: string, specifier: string): string | undefined {
+  const star = pattern.indexOf('*');
+  if (star === -1) return pattern === specifier ? '' : undefined;
+
+  const prefix = pattern.slice(0, star);
+  const suffix = pattern.slice(star + 1);
+  if (specifier.length < prefix.length + suffix.length) return undefined;
+  if (!specifier.startsWith(prefix) || !specifier.endsWith(suffix)) return undefined;
+  return specifier.slice(prefix.length, specifier.length - suffix.length);
+}
+
+// "@scope/pkg/sub/path" -> "@scope/pkg", "pkg/sub" -> "pkg"
+function packageName(specifier: string): string {
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
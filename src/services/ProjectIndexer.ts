@@ -1,18 +1,206 @@
-import fs from 'node:fs/promises';
 import path from 'node:path';
 import { globby } from 'globby';
-import type { Config, ProjectFile, IndexedProject } from '../types/index.js';
+import type { Config, ProjectFile, IndexedProject, FileChange } from '../types/index.js';
+import { IndexCache, type LoadedIndex } from './IndexCache.js';
+import { throwIfCancelled } from '../utils/cancellation.js';
+import { extractModuleInfo, languageOf } from '../analyzers/index.js';
+import { ModuleResolver } from './ModuleResolver.js';
+import { buildSymbolIndex, updateSymbolIndex } from './SymbolIndex.js';
+import { addImportDependencies, detectWorkspace } from './WorkspaceDetector.js';
+import { DetectorRegistry } from '../detectors/index.js';
+import { MANIFESTS } from '../detectors/manifests.js';
+import { discoverEntryPoints, entryFiles } from '../detectors/entryPoints.js';
+import { IndexWorkerPool } from './indexing/IndexWorkerPool.js';
+import { processFile, type FileResult, type FileTask } from './indexing/fileTask.js';
+
+// Below this many files, indexing stays on the main thread
+const MIN_FILES_FOR_WORKERS = 500;
+
+// Minimum time between per-file progress events
+const PROGRESS_INTERVAL_MS = 50;
+
+// Import resolution hands control back to the event loop this often
+const YIELD_EVERY_FILES = 1000;
 
 export class ProjectIndexer {
-  constructor(private config: Config) {}
+  private cache: IndexCache;
+  // Kept for watch-mode edits, which leave the set of files and so the resolver unchanged
+  private resolvers = new WeakMap<IndexedProject, ModuleResolver>();
+
+  constructor(private config: Config) {
+    this.cache = new IndexCache(config);
+  }
 
   async indexProject(
     rootDir: string,
     filters: { include: string[]; exclude: string[] },
-    onProgress?: (progress: any) => void
+    onProgress?: (progress: any) => void,
+    signal?: AbortSignal
   ): Promise<IndexedProject> {
-    const projectName = path.basename(rootDir);
+    const cached = await this.cache.load(rootDir, filters);
+
+    // Stage 1: Discover files (0-40%)
+    onProgress?.({ stage: 'Discovering files...', stageProgress: 0, currentFile: 'Discovering files...' });
+    const files = await this.discoverFiles(rootDir, filters, cached, (progress) => {
+      if (onProgress) {
+        const overallProgress = Math.min(40, (progress.filesScanned || 0) / Math.max(1, progress.totalFiles || 1) * 40);
+        onProgress({
+          ...progress,
+          overallProgress,
+          stage: 'Discovering files'
+        });
+      }
+    }, signal);
+
+    // Nothing changed since the last run - reuse the whole cached index
+    const unchanged = cached !== null && cached.fingerprint === IndexCache.fingerprint(files);
     
+    throwIfCancelled(signal, `after discovering ${files.length} files`);
+
+    const project = await this.buildProject(rootDir, files, unchanged ? cached : null, onProgress, signal);
+
+    if (!unchanged) {
+      await this.cache.save(project, filters);
+    }
+
+    return project;
+  }
+
+  /**
+   * Re-reads `paths` (project-relative) after they changed on disk and
+   * rebuilds what depends on them. Unchanged files keep their parsed
+   * imports and symbols; paths that no longer exist, or have grown past
+   * `maxFileSize`, leave the index. Returns the updated project and what
+   * changed, with the touched line range where both versions were read.
+   */
+  async updateFiles(
+    project: IndexedProject,
+    paths: string[],
+    filters: { include: string[]; exclude: string[] }
+  ): Promise<{ project: IndexedProject; changes: FileChange[] }> {
+    const previous = new Map(project.files.map(f => [f.path, f]));
+    const updated = new Map<string, ProjectFile | null>();
+    const changes: FileChange[] = [];
+
+    for (const filePath of [...new Set(paths)]) {
+      const old = previous.get(filePath);
+      const result = await processFile({
+        index: 0,
+        path: filePath,
+        fullPath: path.join(project.root, filePath),
+        language: languageOf(filePath),
+        maxFileSize: this.config.maxFileSize,
+        keepContent: true,
+      });
+
+      if (result.skipped) {
+        if (old) {
+          updated.set(filePath, null);
+          changes.push({ path: filePath, kind: 'deleted' });
+        }
+        continue;
+      }
+      // Saved without edits, or touched by a tool
+      if (old && result.hash && old.hash === result.hash) continue;
+
+      updated.set(filePath, {
+        path: filePath,
+        size: result.size,
+        hash: result.hash,
+        language: languageOf(filePath),
+        content: result.content,
+        preview: result.preview,
+        entrySignals: result.info?.entrySignals,
+        namespaces: result.info?.namespaces,
+        imports: result.info?.imports,
+        exports: result.info?.exports,
+        definitions: result.info?.definitions,
+        usages: result.info?.usages,
+      });
+      changes.push(old
+        ? { path: filePath, kind: 'modified', ...changedLines(old.content, result.content) }
+        : { path: filePath, kind: 'added' });
+    }
+
+    if (changes.length === 0) return { project, changes };
+
+    const files = project.files
+      .filter(f => updated.get(f.path) !== null)
+      .map(f => updated.get(f.path) ?? f);
+    for (const [filePath, file] of updated) {
+      if (file && !previous.has(filePath)) files.push(file);
+    }
+
+    const next = changes.every(change => isLocalEdit(change, previous.get(change.path), updated.get(change.path)))
+      ? await this.patchProject(project, files, previous, new Set(changes.map(change => change.path)))
+      : await this.buildProject(project.root, files, null);
+    await this.cache.save(next, filters);
+    return { project: next, changes };
+  }
+
+  /**
+   * The project after in-place edits to `edited` source files (see
+   * `isLocalEdit`). Only their imports are resolved again, and only symbol
+   * references from them and from the files importing them are redone;
+   * frameworks and the workspace layout carry over, and entry points are
+   * rediscovered only if an edit changed what a file declares.
+   */
+  private async patchProject(
+    project: IndexedProject,
+    files: ProjectFile[],
+    previous: Map<string, ProjectFile>,
+    edited: Set<string>
+  ): Promise<IndexedProject> {
+    const resolver = this.resolvers.get(project)
+      ?? await ModuleResolver.create(project.root, files.map(f => f.path), namespaceMap(files));
+    const changed = files.filter(f => edited.has(f.path));
+
+    const importGraph = new Map(project.importGraph);
+    for (const file of changed) {
+      const edges = resolveImports(file, resolver);
+      if (edges.length > 0) importGraph.set(file.path, edges);
+      else importGraph.delete(file.path);
+    }
+
+    const signalsChanged = changed.some(f =>
+      JSON.stringify(f.entrySignals ?? []) !== JSON.stringify(previous.get(f.path)?.entrySignals ?? [])
+    );
+    const entryPoints = signalsChanged
+      ? await discoverEntryPoints(project.root, files, project.detections)
+      : project.entryPoints;
+    const entries = new Set(entryFiles(entryPoints));
+    for (const file of signalsChanged ? files : changed) file.isEntry = entries.has(file.path);
+
+    // New imports across packages add dependencies; one dropped by the edit
+    // stays until the next full index, as declared dependencies would
+    const workspace = {
+      ...project.workspace,
+      packages: project.workspace.packages.map(pkg => ({ ...pkg, dependencies: [...pkg.dependencies] })),
+    };
+    addImportDependencies(workspace, new Map([...importGraph].filter(([file]) => edited.has(file))));
+
+    const next: IndexedProject = {
+      ...project,
+      files,
+      entryPoints,
+      languages: this.detectLanguages(files),
+      importGraph,
+      symbols: updateSymbolIndex(project.symbols, files, edited, importGraph),
+      workspace,
+      totalSize: files.reduce((sum, f) => sum + f.size, 0),
+    };
+    this.resolvers.set(next, resolver);
+    return next;
+  }
+
+  /** Everything derived from the files once they are read: frameworks, entry points, graph and symbols */
+  private async buildProject(
+    rootDir: string,
+    files: ProjectFile[],
+    reuse: LoadedIndex | null,
+    onProgress?: (progress: any) => void,
+    signal?: AbortSignal
+  ): Promise<IndexedProject> {
     // Track overall progress through stages
     const updateOverallProgress = (stage: string, stageProgress: number = 100) => {
       if (onProgress) {
@@ -23,39 +211,33 @@ export class ProjectIndexer {
         });
       }
     };
-    
-    // Stage 1: Discover files (0-40%)
-    updateOverallProgress('Discovering files...', 0);
-    const files = await this.discoverFiles(rootDir, filters, (progress) => {
-      if (onProgress) {
-        const overallProgress = Math.min(40, (progress.filesScanned || 0) / Math.max(1, progress.totalFiles || 1) * 40);
-        onProgress({
-          ...progress,
-          overallProgress,
-          stage: 'Discovering files'
-        });
-      }
-    });
-    
-    // Stage 2: Find entry points (40-50%)
-    updateOverallProgress('Finding entry points...', 40);
-    const entryPoints = this.findEntryPoints(files);
+
+    // Stage 2: Detect frameworks (40-50%)
+    // Manifests and the detectors file are re-read every run; both are cheap to parse and may change
+    // without any indexed file changing
+    updateOverallProgress('Detecting frameworks...', 40);
+    const registry = await DetectorRegistry.create(rootDir, this.config.detectorsFile);
+    const { detections, runtimes } = await registry.detect(rootDir, files);
+    const frameworks = [...new Set(detections.map(d => d.name))];
     if (onProgress) {
       onProgress({ 
-        entryPoints: entryPoints.length,
+        frameworks,
         overallProgress: 50,
-        stage: 'Entry points found'
+        stage: 'Frameworks detected'
       });
     }
-    
-    // Stage 3: Detect frameworks (50-60%)
-    updateOverallProgress('Detecting frameworks...', 50);
-    const frameworks = await this.detectFrameworks(rootDir, files);
+
+    // Stage 3: Find entry points (50-60%)
+    updateOverallProgress('Finding entry points...', 50);
+    const entryPoints = await discoverEntryPoints(rootDir, files, detections);
+    const entries = new Set(entryFiles(entryPoints));
+    files.forEach(f => { f.isEntry = entries.has(f.path); });
+    const workspace = await detectWorkspace(rootDir, files, detections);
     if (onProgress) {
       onProgress({ 
-        frameworks,
+        entryPoints: entryPoints.length,
         overallProgress: 60,
-        stage: 'Frameworks detected'
+        stage: 'Entry points found'
       });
     }
     
@@ -69,9 +251,11 @@ export class ProjectIndexer {
       });
     }
     
+    throwIfCancelled(signal, 'while detecting frameworks');
+
     // Stage 5: Build import graph (70-100%)
     updateOverallProgress('Building dependency graph...', 70);
-    const importGraph = await this.buildImportGraph(files);
+    const importGraph = reuse ? reuse.importGraph : await this.buildImportGraph(rootDir, files);
     if (onProgress) {
       onProgress({ 
         overallProgress: 100,
@@ -79,16 +263,25 @@ export class ProjectIndexer {
       });
     }
 
+    throwIfCancelled(signal, 'while building the dependency graph');
+
+    addImportDependencies(workspace, importGraph);
+
+    const symbols = reuse ? reuse.symbols : buildSymbolIndex(files);
     const totalSize = files.reduce((sum, f) => sum + f.size, 0);
 
     return {
       root: rootDir,
-      name: projectName,
+      name: path.basename(rootDir),
       files,
       entryPoints,
       frameworks,
+      runtimes,
+      detections,
       languages,
       importGraph,
+      symbols,
+      workspace,
       totalSize,
     };
   }
@@ -96,7 +289,9 @@ export class ProjectIndexer {
   private async discoverFiles(
     rootDir: string,
     filters: { include: string[]; exclude: string[] },
-    onProgress?: (progress: any) => void
+    cached: LoadedIndex | null,
+    onProgress?: (progress: any) => void,
+    signal?: AbortSignal
   ): Promise<ProjectFile[]> {
     // Use the patterns directly without joining with rootDir
     const patterns = filters.include;
@@ -110,55 +305,65 @@ export class ProjectIndexer {
       cwd: rootDir,
     });
 
-    const files: ProjectFile[] = [];
-    
     // Report total files
     if (onProgress) {
       onProgress({ totalFiles: filePaths.length });
     }
 
-    for (let i = 0; i < filePaths.length; i++) {
-      const filePath = filePaths[i];
-      const fullPath = path.join(rootDir, filePath);
-      const stats = await fs.stat(fullPath);
-
-      // Skip files larger than max size
-      if (stats.size > this.config.maxFileSize) continue;
-
-      const ext = path.extname(filePath);
-      const language = this.getLanguageFromExt(ext);
-
-      // Read content for code files
-      let content: string | undefined;
-      let preview: string | undefined;
-      
-      if (language && stats.size < 100000) { // Read files under 100KB
-        try {
-          content = await fs.readFile(fullPath, 'utf-8');
-          preview = content.split('\n').slice(0, 5).join('\n');
-        } catch {
-          // Skip files that can't be read
-        }
+    const results: Array<FileResult | undefined> = new Array(filePaths.length);
+    let retained = 0;
+    let scanned = 0;
+    let lastReport = 0;
+
+    // Pulled lazily by the pool, so content is only kept while under the memory ceiling
+    const tasks = this.fileTasks(rootDir, filePaths, cached, () => retained < this.config.indexMemoryLimit);
+
+    // Small projects are not worth the worker start-up cost
+    const workers = filePaths.length >= MIN_FILES_FOR_WORKERS ? this.config.indexWorkers : 0;
+    await new IndexWorkerPool(workers).run(tasks, (result) => {
+      results[result.index] = result;
+      retained += result.content?.length ?? 0;
+      scanned++;
+
+      // Throttled so tens of thousands of files don't flood the UI with renders
+      const now = Date.now();
+      if (onProgress && now - lastReport >= PROGRESS_INTERVAL_MS) {
+        lastReport = now;
+        onProgress({
+          filesScanned: scanned,
+          currentFile: filePaths[result.index]
+        });
       }
+    }, signal);
+
+    throwIfCancelled(signal, `while discovering files (${scanned}/${filePaths.length} read)`);
+
+    const files: ProjectFile[] = [];
+    for (const result of results) {
+      if (!result || result.skipped) continue;
+      const filePath = filePaths[result.index];
+
+      // Carry over per-file results from the cache when the content is identical
+      const previous = result.hash ? cached?.files.get(filePath) : undefined;
+      const reusable = previous?.hash === result.hash ? previous : undefined;
+      const info = result.info ?? reusable;
 
       files.push({
         path: filePath,
-        size: stats.size,
-        language,
-        content,
-        preview,
-        isEntry: this.isEntryPoint(filePath),
+        size: result.size,
+        hash: result.hash,
+        language: languageOf(filePath),
+        content: result.content,
+        preview: result.preview,
+        entrySignals: info?.entrySignals,
+        namespaces: info?.namespaces,
+        imports: info?.imports,
+        exports: info?.exports,
+        definitions: info?.definitions,
+        usages: info?.usages,
       });
-      
-      // Report progress more frequently
-      if (onProgress) {
-        onProgress({ 
-          filesScanned: i + 1,
-          currentFile: filePath 
-        });
-      }
     }
-    
+
     // Final progress update
     if (onProgress) {
       onProgress({ 
@@ -170,46 +375,24 @@ export class ProjectIndexer {
     return files;
   }
 
-  private findEntryPoints(files: ProjectFile[]): string[] {
-    return files
-      .filter(f => f.isEntry)
-      .map(f => f.path);
-  }
-
-  private async detectFrameworks(rootDir: string, files: ProjectFile[]): Promise<string[]> {
-    const frameworks: Set<string> = new Set();
-
-    // Check package.json for Node.js frameworks
-    const packageJson = files.find(f => f.path === 'package.json');
-    if (packageJson && packageJson.content) {
-      try {
-        const pkg = JSON.parse(packageJson.content);
-        const deps = { ...pkg.dependencies, ...pkg.devDependencies };
-        
-        if (deps['react']) frameworks.add('React');
-        if (deps['vue']) frameworks.add('Vue');
-        if (deps['@angular/core']) frameworks.add('Angular');
-        if (deps['express']) frameworks.add('Express');
-        if (deps['next']) frameworks.add('Next.js');
-        if (deps['@nestjs/core']) frameworks.add('NestJS');
-        if (deps['fastify']) frameworks.add('Fastify');
-      } catch {
-        // Invalid package.json
-      }
-    }
-
-    // Check for other framework indicators
-    if (files.some(f => f.path.includes('requirements.txt'))) {
-      frameworks.add('Python');
-    }
-    if (files.some(f => f.path === 'go.mod')) {
-      frameworks.add('Go');
-    }
-    if (files.some(f => f.path === 'Cargo.toml')) {
-      frameworks.add('Rust');
+  private *fileTasks(
+    rootDir: string,
+    filePaths: string[],
+    cached: LoadedIndex | null,
+    keepContent: () => boolean
+  ): Generator<FileTask> {
+    for (let index = 0; index < filePaths.length; index++) {
+      const filePath = filePaths[index];
+      yield {
+        index,
+        path: filePath,
+        fullPath: path.join(rootDir, filePath),
+        language: languageOf(filePath),
+        maxFileSize: this.config.maxFileSize,
+        knownHash: cached?.files.get(filePath)?.hash,
+        keepContent: keepContent(),
+      };
     }
-
-    return Array.from(frameworks);
   }
 
   private detectLanguages(files: ProjectFile[]): Set<string> {
@@ -220,80 +403,116 @@ export class ProjectIndexer {
     return languages;
   }
 
-  private async buildImportGraph(files: ProjectFile[]): Promise<Map<string, string[]>> {
+  private async buildImportGraph(rootDir: string, files: ProjectFile[]): Promise<Map<string, string[]>> {
     const graph = new Map<string, string[]>();
 
-    for (const file of files) {
-      if (!file.content || !file.language) continue;
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i];
+      if (!file.language) continue;
 
-      const imports = this.extractImports(file.content, file.language);
-      if (imports.length > 0) {
-        graph.set(file.path, imports);
+      // Let the UI render between batches on very large projects
+      if (i % YIELD_EVERY_FILES === YIELD_EVERY_FILES - 1) {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+
+      // Files were parsed while being read; this only catches ones that
+      // were not, like files read by an older indexer
+      if (!file.imports || !file.exports || !file.definitions || !file.usages) {
+        if (!file.content) continue;
+        const info = extractModuleInfo(file.content, file.language, file.path);
+        file.imports = info.imports;
+        file.exports = info.exports;
+        file.definitions = info.definitions;
+        file.usages = info.usages;
+        file.entrySignals = info.entrySignals;
+        file.namespaces = info.namespaces;
       }
     }
 
-    return graph;
-  }
+    const resolver = await ModuleResolver.create(rootDir, files.map(f => f.path), namespaceMap(files));
 
-  private extractImports(content: string, language: string): string[] {
-    const imports: string[] = [];
-    
-    if (language === 'javascript' || language === 'typescript') {
-      // ES6 imports
-      const importRegex = /import\s+(?:.*\s+from\s+)?['"]([^'"]+)['"]/g;
-      let match;
-      while ((match = importRegex.exec(content)) !== null) {
-        imports.push(match[1]);
-      }
-      
-      // CommonJS requires
-      const requireRegex = /require\s*\(\s*['"]([^'"]+)['"]\s*\)/g;
-      while ((match = requireRegex.exec(content)) !== null) {
-        imports.push(match[1]);
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i];
+      if (!file.language || !file.imports) continue;
+
+      if (i % YIELD_EVERY_FILES === YIELD_EVERY_FILES - 1) {
+        await new Promise(resolve => setImmediate(resolve));
       }
-    } else if (language === 'python') {
-      const importRegex = /(?:from\s+(\S+)\s+import|import\s+(\S+))/g;
-      let match;
-      while ((match = importRegex.exec(content)) !== null) {
-        imports.push(match[1] || match[2]);
+
+      // Resolution depends on the rest of the project (new files, tsconfig,
+      // workspaces), so it is redone even for unchanged files
+      const edges = resolveImports(file, resolver);
+      if (edges.length > 0) {
+        graph.set(file.path, edges);
       }
     }
 
-    return imports;
+    return graph;
   }
+}
 
-  private getLanguageFromExt(ext: string): string | undefined {
-    const langMap: Record<string, string> = {
-      '.ts': 'typescript',
-      '.tsx': 'typescript',
-      '.js': 'javascript',
-      '.jsx': 'javascript',
-      '.py': 'python',
-      '.java': 'java',
-      '.go': 'go',
-      '.rs': 'rust',
-      '.cpp': 'cpp',
-      '.c': 'c',
-      '.cs': 'csharp',
-      '.rb': 'ruby',
-      '.php': 'php',
-      '.swift': 'swift',
-      '.kt': 'kotlin',
-    };
-    return langMap[ext];
+// Java, Kotlin, C# and PHP import names, not paths; the declared
+// packages and namespaces map them back to files
+function namespaceMap(files: ProjectFile[]): Map<string, string[]> {
+  const namespaces = new Map<string, string[]>();
+  for (const file of files) {
+    for (const namespace of file.namespaces ?? []) {
+      const members = namespaces.get(namespace);
+      if (members) members.push(file.path);
+      else namespaces.set(namespace, [file.path]);
+    }
   }
+  return namespaces;
+}
 
-  private isEntryPoint(filePath: string): boolean {
-    const entryPatterns = [
-      'index.js', 'index.ts', 'index.tsx',
-      'main.js', 'main.ts', 'main.tsx',
-      'app.js', 'app.ts', 'app.tsx',
-      'server.js', 'server.ts',
-      '__main__.py', 'main.py', 'app.py',
-      'Main.java', 'main.go', 'main.rs',
-    ];
-    
-    const filename = path.basename(filePath);
-    return entryPatterns.includes(filename);
+/** Resolves the file's import records in place and returns the project files it depends on */
+function resolveImports(file: ProjectFile, resolver: ModuleResolver): string[] {
+  for (const record of file.imports ?? []) {
+    const { target, resolved, files: members } = resolver.resolve(record, file.path, file.language!);
+    record.target = target;
+    record.resolved = resolved;
+    record.files = members;
   }
-}
\ No newline at end of file
+
+  // A Go package or C# namespace import depends on every file in it
+  return [...new Set(
+    (file.imports ?? [])
+      .filter(i => i.target === 'file')
+      .flatMap(i => i.files ?? [i.resolved!])
+      .filter(target => target !== file.path)
+  )];
+}
+
+/**
+ * Whether an update to one file can be applied without re-indexing the
+ * rest: a source file edited in place whose namespaces stay the same.
+ * Added and deleted files change module resolution for everyone, and
+ * manifests, tsconfig and the like feed detection, workspaces and
+ * resolution of the whole project.
+ */
+function isLocalEdit(change: FileChange, before: ProjectFile | undefined, after: ProjectFile | null | undefined): boolean {
+  if (change.kind !== 'modified' || !before || !after) return false;
+  const name = path.posix.basename(change.path);
+  if (!after.language || name in MANIFESTS || name === 'tsconfig.json') return false;
+  return JSON.stringify(before.namespaces ?? []) === JSON.stringify(after.namespaces ?? []);
+}
+
+/**
+ * The lines of `before` that `after` replaced, found by trimming the
+ * common head and tail. Both versions are needed; without them the whole
+ * file counts as changed.
+ */
+function changedLines(before: string | undefined, after: string | undefined): Pick<FileChange, 'lines' | 'delta'> {
+  if (before === undefined || after === undefined) return {};
+  const old = before.split('\n');
+  const next = after.split('\n');
+  let head = 0;
+  while (head < old.length && head < next.length && old[head] === next[head]) head++;
+  let tail = 0;
+  while (
+    tail < old.length - head &&
+    tail < next.length - head &&
+    old[old.length - 1 - tail] === next[next.length - 1 - tail]
+  ) tail++;
+  return { lines: { start: head + 1, end: old.length - tail }, delta: next.length - old.length };
+}
@@ -0,0 +1,291 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import micromatch from 'micromatch';
+import type {
+  IndexedProject,
+  ProjectFile,
+  ProjectSymbol,
+  SearchHit,
+  SearchMode,
+  SearchQuery,
+  SearchResult,
+} from '../types/index.js';
+import { SecurityService } from './SecurityService.js';
+import { findSymbols, innermostAt, qualifiedName } from './SymbolIndex.js';
+import { throwIfCancelled } from '../utils/cancellation.js';
+
+const DEFAULT_CONTEXT = 2;
+const MAX_CONTEXT = 10;
+
+// Hits kept overall, and from any one file so a single noisy file cannot crowd out the rest
+const MAX_HITS = 200;
+const MAX_HITS_PER_FILE = 20;
+
+// Lines longer than this are minified or generated; they are matched but shown cut
+const MAX_LINE_CHARS = 400;
+
+const TEST_PATH = /(^|\/)(__tests__|tests?|spec)\/|\.(test|spec)\.\w+$/;
+
+const security = new SecurityService();
+
+export const SEARCH_USAGE =
+  '/find "text" | /find /regex/i | /find @symbol, then any of in:<glob> not:<glob> context:<n>';
+
+/**
+ * Parses what follows `/find`. The pattern is a quoted or bare literal, a
+ * `/regex/flags`, or `@name` for a symbol (`@Parser.parse`,
+ * `@src/parser.ts#parse`). `in:` and `not:` add include and exclude globs
+ * (a bare directory like `in:src` means everything under it) and
+ * `context:` sets the lines shown around each hit. Literal and regex
+ * queries are case-insensitive unless the pattern has a capital letter.
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const include: string[] = [];
+  const exclude: string[] = [];
+  let context = DEFAULT_CONTEXT;
+  const words: string[] = [];
+
+  for (const token of tokenize(input)) {
+    const option = token.quoted ? null : token.text.match(/^(in|not|context):(.+)$/);
+    if (!option) {
+      words.push(token.quoted ? `"${token.text}"` : token.text);
+    } else if (option[1] === 'in') {
+      include.push(toGlob(option[2]));
+    } else if (option[1] === 'not') {
+      exclude.push(toGlob(option[2]));
+    } else {
+      const lines = Number(option[2]);
+      if (!Number.isInteger(lines) || lines < 0) throw new Error(`context: takes a number of lines, got "${option[2]}"`);
+      context = Math.min(lines, MAX_CONTEXT);
+    }
+  }
+
+  const raw = words.join(' ').trim();
+  if (!raw) throw new Error(`Nothing to search for. Usage: ${SEARCH_USAGE}`);
+
+  let mode: SearchMode = 'literal';
+  let pattern = raw;
+  let caseSensitive = /[A-Z]/.test(raw);
+  const regex = raw.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    mode = 'regex';
+    pattern = regex[1];
+    caseSensitive = !regex[2].includes('i') && /[A-Z]/.test(pattern.replace(/\\./g, ''));
+    compile(pattern, caseSensitive);
+  } else if (raw.startsWith('@')) {
+    mode = 'symbol';
+    pattern = raw.slice(1);
+    caseSensitive = true;
+  } else if (words.length === 1 && raw.startsWith('"') && raw.endsWith('"')) {
+    pattern = raw.slice(1, -1);
+  }
+
+  return { mode, pattern, include, exclude, context, caseSensitive };
+}
+
+/**
+ * Searches the indexed files (never secret files) and returns hits best
+ * first. Text hits rank higher when they match a whole word, sit on a
+ * definition, or come from a file whose path matches the query or that
+ * is an entry point; hits in tests rank lower. Symbol hits rank exact
+ * names above case-insensitive ones, prefixes and substrings.
+ */
+export async function searchProject(
+  project: IndexedProject,
+  query: SearchQuery,
+  signal?: AbortSignal
+): Promise<SearchResult> {
+  const files = project.files.filter(f => inScope(f.path, query) && !security.isSecretFile(f.path));
+  const hits = query.mode === 'symbol'
+    ? await symbolHits(project, files, query, signal)
+    : await textHits(project, files, query, signal);
+
+  hits.sort((a, b) => b.score - a.score || a.file.localeCompare(b.file) || a.line - b.line);
+  return {
+    query,
+    hits: hits.slice(0, MAX_HITS),
+    filesSearched: files.length,
+    omitted: Math.max(0, hits.length - MAX_HITS),
+  };
+}
+
+/** A hit with its context lines, numbered, as attached to a Q&A question */
+export function formatHit(hit: SearchHit): string {
+  const first = hit.line - hit.before.length;
+  return [...hit.before, hit.text, ...hit.after]
+    .map((line, i) => `${String(first + i).padStart(5, ' ')} | ${line}`)
+    .join('\n');
+}
+
+async function textHits(
+  project: IndexedProject,
+  files: ProjectFile[],
+  query: SearchQuery,
+  signal?: AbortSignal
+): Promise<SearchHit[]> {
+  const matcher = lineMatcher(query);
+  const needle = query.pattern.toLowerCase();
+  const entryFiles = new Set(project.entryPoints.map(e => e.path));
+  const symbolsByFile = new Map<string, ProjectSymbol[]>();
+  for (const symbol of project.symbols.symbols) {
+    const symbols = symbolsByFile.get(symbol.file) ?? [];
+    symbols.push(symbol);
+    symbolsByFile.set(symbol.file, symbols);
+  }
+
+  const hits: SearchHit[] = [];
+  for (const file of files) {
+    throwIfCancelled(signal, `while searching (${hits.length} matches so far)`);
+    const lines = await linesOf(project, file);
+    if (!lines) continue;
+
+    let fileBonus = 0;
+    if (query.mode === 'literal' && file.path.toLowerCase().includes(needle)) fileBonus += 3;
+    if (entryFiles.has(file.path)) fileBonus += 2;
+    if (TEST_PATH.test(file.path)) fileBonus -= 3;
+
+    const fileSymbols = symbolsByFile.get(file.path) ?? [];
+    const definitionLines = new Set(fileSymbols.map(s => s.lineStart));
+    const fileHits: SearchHit[] = [];
+    for (let i = 0; i < lines.length && fileHits.length < MAX_HITS_PER_FILE; i++) {
+      const match = matcher(lines[i]);
+      if (!match) continue;
+
+      let score = 10 + fileBonus;
+      if (isWholeWord(lines[i], match.index, match.length)) score += 5;
+      if (definitionLines.has(i + 1)) score += 10;
+      const symbol = innermostAt(fileSymbols, i + 1);
+      fileHits.push(makeHit(file.path, lines, i, match, query.context, score, symbol && qualifiedName(symbol)));
+    }
+    hits.push(...fileHits);
+  }
+  return hits;
+}
+
+async function symbolHits(
+  project: IndexedProject,
+  files: ProjectFile[],
+  query: SearchQuery,
+  signal?: AbortSignal
+): Promise<SearchHit[]> {
+  const inScopeFiles = new Map(files.map(f => [f.path, f]));
+  const exact = new Set(findSymbols(project.symbols, query.pattern));
+  const name = query.pattern.includes('#') ? query.pattern.split('#', 2)[1] : query.pattern;
+  const lower = name.toLowerCase();
+
+  const scored: Array<[ProjectSymbol, number]> = [];
+  for (const symbol of project.symbols.symbols) {
+    if (!inScopeFiles.has(symbol.file)) continue;
+    const qualified = qualifiedName(symbol).toLowerCase();
+    const short = symbol.name.toLowerCase();
+    let score = 0;
+    if (exact.has(symbol)) score = 100;
+    else if (query.pattern.includes('#')) continue;
+    else if (short === lower || qualified === lower) score = 80;
+    else if (short.startsWith(lower) || qualified.startsWith(lower)) score = 60;
+    else if (qualified.includes(lower)) score = 40;
+    else continue;
+    if (symbol.exported) score += 5;
+    if (TEST_PATH.test(symbol.file)) score -= 3;
+    scored.push([symbol, score]);
+  }
+
+  const hits: SearchHit[] = [];
+  for (const [symbol, score] of scored) {
+    throwIfCancelled(signal, `while searching (${hits.length} matches so far)`);
+    const lines = await linesOf(project, inScopeFiles.get(symbol.file)!);
+    if (!lines || symbol.lineStart > lines.length) continue;
+    const index = symbol.lineStart - 1;
+    const column = lines[index].indexOf(symbol.name);
+    const match = { index: Math.max(0, column), length: column === -1 ? 0 : symbol.name.length };
+    hits.push(makeHit(symbol.file, lines, index, match, query.context, score, qualifiedName(symbol)));
+  }
+  return hits;
+}
+
+function makeHit(
+  file: string,
+  lines: string[],
+  index: number,
+  match: { index: number; length: number },
+  context: number,
+  score: number,
+  symbol?: string
+): SearchHit {
+  return {
+    file,
+    line: index + 1,
+    column: match.index + 1,
+    length: match.length,
+    text: clip(lines[index]),
+    before: lines.slice(Math.max(0, index - context), index).map(clip),
+    after: lines.slice(index + 1, index + 1 + context).map(clip),
+    symbol,
+    score,
+  };
+}
+
+function lineMatcher(query: SearchQuery): (line: string) => { index: number; length: number } | null {
+  if (query.mode === 'regex') {
+    const regex = compile(query.pattern, query.caseSensitive);
+    return (line) => {
+      const match = regex.exec(line);
+      return match ? { index: match.index, length: match[0].length } : null;
+    };
+  }
+  const needle = query.caseSensitive ? query.pattern : query.pattern.toLowerCase();
+  return (line) => {
+    const index = (query.caseSensitive ? line : line.toLowerCase()).indexOf(needle);
+    return index === -1 ? null : { index, length: needle.length };
+  };
+}
+
+function compile(pattern: string, caseSensitive: boolean): RegExp {
+  try {
+    return new RegExp(pattern, caseSensitive ? '' : 'i');
+  } catch (error) {
+    const reason = (error as Error).message.replace(/^Invalid regular expression: \/.*\/\w*: /, '');
+    throw new Error(`Invalid regular expression /${pattern}/: ${reason}`);
+  }
+}
+
+function isWholeWord(line: string, index: number, length: number): boolean {
+  const before = line[index - 1];
+  const after = line[index + length];
+  return !(before && /\w/.test(before)) && !(after && /\w/.test(after));
+}
+
+function inScope(file: string, query: SearchQuery): boolean {
+  if (query.include.length > 0 && !micromatch.isMatch(file, query.include, { dot: true })) return false;
+  return query.exclude.length === 0 || !micromatch.isMatch(file, query.exclude, { dot: true });
+}
+
+// `src` and `src/` mean the directory; anything with a wildcard or an extension is a glob already
+function toGlob(value: string): string {
+  const trimmed = value.replace(/^\.\//, '').replace(/\/$/, '');
+  return /[*?{[]/.test(trimmed) || path.posix.extname(trimmed) ? trimmed : `${trimmed}/**`;
+}
+
+// Content dropped while indexing to save memory is read again from disk
+async function linesOf(project: IndexedProject, file: ProjectFile): Promise<string[] | undefined> {
+  if (file.content !== undefined) return file.content.split('\n');
+  try {
+    return (await fs.readFile(path.join(project.root, file.path), 'utf-8')).split('\n');
+  } catch {
+    return undefined;
+  }
+}
+
+function clip(line: string): string {
+  return line.length > MAX_LINE_CHARS ? `${line.slice(0, MAX_LINE_CHARS)}…` : line;
+}
+
+function tokenize(input: string): Array<{ text: string; quoted: boolean }> {
+  const tokens: Array<{ text: string; quoted: boolean }> = [];
+  for (const match of input.matchAll(/"((?:[^"\\]|\\.)*)"|(\S+)/g)) {
+    tokens.push(match[1] !== undefined
+      ? { text: match[1].replace(/\\(.)/g, '$1'), quoted: true }
+      : { text: match[2], quoted: false });
+  }
+  return tokens;
+}
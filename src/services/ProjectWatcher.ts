@@ -0,0 +1,185 @@
+import fs, { type FSWatcher } from 'node:fs';
+import path from 'node:path';
+import micromatch from 'micromatch';
+import { globby, isGitIgnored } from 'globby';
+import type { AnalysisResult, FileChange, IndexedProject } from '../types/index.js';
+import type { ProjectIndexer } from './ProjectIndexer.js';
+
+// Editors save in several steps (truncate, write, rename); let a burst settle before re-indexing
+const DEBOUNCE_MS = 250;
+
+export interface WatchUpdate {
+  project: IndexedProject;
+  changes: FileChange[];
+}
+
+type Filters = { include: string[]; exclude: string[] };
+
+/**
+ * Keeps an indexed project in step with the disk. Each directory holding
+ * an indexed file is watched rather than the whole tree, so node_modules
+ * and other excluded folders cost nothing; directories created later are
+ * picked up as they appear. Bursts of events are debounced and only the
+ * touched files are re-read, through `ProjectIndexer.updateFiles`.
+ */
+export class ProjectWatcher {
+  private watchers = new Map<string, FSWatcher>();
+  private pending = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  // Updates run one after another so each starts from the previous result
+  private queue: Promise<void> = Promise.resolve();
+  private stopped = false;
+
+  private constructor(
+    private indexer: ProjectIndexer,
+    private project: IndexedProject,
+    private filters: Filters,
+    private isIgnored: (file: string) => boolean,
+    private onUpdate: (update: WatchUpdate) => void,
+    private onError: (error: Error) => void
+  ) {}
+
+  static async start(
+    indexer: ProjectIndexer,
+    project: IndexedProject,
+    filters: Filters,
+    onUpdate: (update: WatchUpdate) => void,
+    onError: (error: Error) => void
+  ): Promise<ProjectWatcher> {
+    const isIgnored = await isGitIgnored({ cwd: project.root });
+    const watcher = new ProjectWatcher(indexer, project, filters, isIgnored, onUpdate, onError);
+    watcher.watchDir('.');
+    for (const file of project.files) watcher.watchDir(path.posix.dirname(file.path));
+    return watcher;
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    for (const watcher of this.watchers.values()) watcher.close();
+    this.watchers.clear();
+  }
+
+  private watchDir(dir: string): void {
+    if (this.stopped || this.watchers.has(dir)) return;
+    try {
+      const watcher = fs.watch(path.join(this.project.root, dir), (_event, name) => {
+        if (name) this.enqueue(path.posix.join(dir, name));
+      });
+      // Raised when the directory itself goes away; its parent reports the removal
+      watcher.on('error', () => this.unwatch(dir));
+      this.watchers.set(dir, watcher);
+    } catch {
+      // Removed before it could be watched
+    }
+  }
+
+  private unwatch(dir: string): void {
+    for (const [watched, watcher] of this.watchers) {
+      if (watched === dir || watched.startsWith(`${dir}/`)) {
+        watcher.close();
+        this.watchers.delete(watched);
+      }
+    }
+  }
+
+  private enqueue(entry: string): void {
+    if (micromatch.isMatch(entry, this.filters.exclude, { dot: true })) return;
+    this.pending.add(entry);
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.queue = this.queue
+        .then(() => this.update())
+        .catch(error => this.onError(error instanceof Error ? error : new Error(String(error))));
+    }, DEBOUNCE_MS);
+  }
+
+  private async update(): Promise<void> {
+    const entries = [...this.pending];
+    this.pending.clear();
+    if (this.stopped || entries.length === 0) return;
+
+    const indexed = this.project.files.map(f => f.path);
+    const paths = new Set<string>();
+    for (const entry of entries) {
+      const fullPath = path.join(this.project.root, entry);
+      const stats = await fs.promises.stat(fullPath).catch(() => null);
+
+      if (!stats) {
+        // A removed directory takes its indexed files with it
+        this.unwatch(entry);
+        for (const file of indexed) {
+          if (file === entry || file.startsWith(`${entry}/`)) paths.add(file);
+        }
+      } else if (stats.isDirectory()) {
+        if (this.isIgnored(entry)) continue;
+        this.watchDir(entry);
+        const found = await globby(this.filters.include, {
+          cwd: fullPath,
+          ignore: this.filters.exclude,
+          onlyFiles: true,
+        });
+        for (const file of found.map(f => path.posix.join(entry, f))) {
+          if (this.isIgnored(file)) continue;
+          paths.add(file);
+          this.watchDir(path.posix.dirname(file));
+        }
+      } else if (this.tracks(entry)) {
+        paths.add(entry);
+      }
+    }
+    if (paths.size === 0) return;
+
+    const { project, changes } = await this.indexer.updateFiles(this.project, [...paths], this.filters);
+    if (this.stopped || changes.length === 0) return;
+    this.project = project;
+    this.onUpdate({ project, changes });
+  }
+
+  private tracks(file: string): boolean {
+    return micromatch.isMatch(file, this.filters.include, { dot: true })
+      && !micromatch.isMatch(file, this.filters.exclude, { dot: true })
+      && !this.isIgnored(file);
+  }
+}
+
+/**
+ * Marks the walkthrough steps and citations a change touched as stale.
+ * Those below an edit in the same file move by the lines it added or
+ * removed, so they keep pointing at the code they were generated for; a
+ * moved step's code is re-read from `project`, the index after the change.
+ */
+export function markStale(result: AnalysisResult, changes: FileChange[], project: IndexedProject): AnalysisResult {
+  const byFile = new Map(changes.map(change => [change.path, change]));
+  const contents = new Map(project.files.map(f => [f.path, f.content]));
+
+  const walkthrough = result.walkthrough.map(step => {
+    const change = byFile.get(step.file);
+    if (!change || step.stale) return step;
+    const moved = followRange(step.lineRange, change);
+    const content = contents.get(step.file);
+    // Without the new content the excerpt cannot follow the move
+    if (!moved || content === undefined) return { ...step, stale: true };
+    return { ...step, lineRange: moved, code: content.split('\n').slice(moved[0] - 1, moved[1]).join('\n') };
+  });
+  const citations = result.citations.map(citation => {
+    const change = byFile.get(citation.file);
+    if (!change || citation.stale) return citation;
+    const moved = followRange([citation.line, citation.line], change);
+    return moved ? { ...citation, line: moved[0] } : { ...citation, stale: true };
+  });
+
+  return { ...result, walkthrough, citations };
+}
+
+/** Where `range` is after `change`, or null when the change touched it */
+function followRange([start, end]: [number, number], change: FileChange): [number, number] | null {
+  if (change.kind !== 'modified' || !change.lines) return null;
+  const { lines, delta = 0 } = change;
+
+  // For a pure insertion `lines.end` is `lines.start - 1`, so only ranges spanning the insertion point are touched
+  if (end < lines.start) return [start, end];
+  if (start > Math.max(lines.end, lines.start - 1)) return [start + delta, end + delta];
+  return null;
+}
@@ -0,0 +1,344 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type {
+  Config,
+  IndexedProject,
+  AnalysisResult,
+  Citation,
+  ProjectFile,
+  QAMessage,
+  SearchHit,
+} from '../types/index.js';
+import { createProvider } from './providers/index.js';
+import { parseStructured } from './providers/structured.js';
+import { SecurityService } from './SecurityService.js';
+import { ResponseCache } from './ResponseCache.js';
+import { ContextBuilder } from './ContextBuilder.js';
+import { QAResponseSchema } from './schemas.js';
+import { answerSymbolQuestion, findSymbols, qualifiedName } from './SymbolIndex.js';
+import { resolveProjectFile } from './FileLocator.js';
+import { formatHit } from './ProjectSearch.js';
+import { CancelledError } from '../utils/cancellation.js';
+
+// Earlier messages sent with each follow-up; the oldest are dropped first
+const HISTORY_MESSAGES = 8;
+
+// Files whose code is retrieved afresh for each question
+const RETRIEVED_FILES = 4;
+
+// Walkthrough steps and analysis citations restated in the prompt
+const MAX_PRIOR_STEPS = 12;
+const MAX_PRIOR_CITATIONS = 12;
+
+// The earlier answer is restated in full up to this length
+const MAX_PRIOR_ANSWER_CHARS = 3000;
+
+// `src/app.ts:42` or `src/app.ts:42-50` written into the answer text
+const INLINE_CITATION = /(?<![\w/.-])((?:[\w@.-]+\/)*[\w@-]+\.\w+):(\d+)(?:-\d+)?/g;
+
+// Identifiers worth looking up in the symbol index: backticked, called or CamelCase
+const SYMBOL_MENTION = /`([\w.#/-]+)`|\b([A-Za-z_]\w*)\(\)|\b([A-Z][a-z]+[A-Z]\w*)\b/g;
+
+interface RetrievedCode {
+  text: string;
+  files: ProjectFile[];
+}
+
+/**
+ * A follow-up conversation about one analysis. Each question is sent with
+ * the earlier turns, a summary of the analysis (overview, walkthrough,
+ * citations) and code retrieved for that question; answers come back with
+ * citations that are checked against the index before they are shown.
+ * "Who calls X" and "where is X defined" are answered from the symbol
+ * index without a model call, but still become part of the history.
+ * Search hits attached with `attach` are sent with the next question
+ * ahead of the retrieved code.
+ */
+export class QASession {
+  private security: SecurityService;
+  private responseCache: ResponseCache;
+  private contextBuilder: ContextBuilder;
+  private history: QAMessage[] = [];
+  private attachments: SearchHit[] = [];
+  private lineCounts = new Map<string, number>();
+
+  constructor(
+    private config: Config,
+    private project: IndexedProject,
+    private result: AnalysisResult,
+    private analysisQuestion: string
+  ) {
+    this.responseCache = new ResponseCache(config);
+    // Token counts do not spend the request budget, so one provider serves the whole session
+    this.contextBuilder = new ContextBuilder(createProvider(config));
+    this.security = new SecurityService();
+  }
+
+  get messages(): readonly QAMessage[] {
+    return this.history;
+  }
+
+  get attached(): readonly SearchHit[] {
+    return this.attachments;
+  }
+
+  /** Adds search hits to the context of the next question; the same line is attached once */
+  attach(hits: SearchHit[]): void {
+    for (const hit of hits) {
+      if (!this.attachments.some(a => a.file === hit.file && a.line === hit.line)) this.attachments.push(hit);
+    }
+  }
+
+  /** Drops one attached hit, or all of them */
+  detach(hit?: SearchHit): void {
+    this.attachments = hit ? this.attachments.filter(a => a.file !== hit.file || a.line !== hit.line) : [];
+  }
+
+  /** Swaps in a newer index or result, as watch mode produces; the conversation is kept */
+  update(project: IndexedProject, result: AnalysisResult): void {
+    this.project = project;
+    this.result = result;
+    this.lineCounts.clear();
+  }
+
+  /**
+   * Answers a follow-up and records both turns. Model failures become an
+   * error reply in the history rather than an exception; cancelling
+   * throws `CancelledError` and records nothing. Attachments are used up
+   * by the first answer that succeeds.
+   */
+  async ask(question: string, signal?: AbortSignal): Promise<QAMessage> {
+    const asked: QAMessage = { role: 'user', content: question };
+    let reply: QAMessage;
+
+    // Attached code is meant for the model, so it overrides the symbol index shortcut
+    const local = this.attachments.length === 0 ? answerSymbolQuestion(this.project.symbols, question) : undefined;
+    if (local) {
+      reply = { role: 'assistant', content: local.content, citations: local.citations, local: true };
+    } else {
+      try {
+        reply = await this.askModel(question, signal);
+        this.attachments = [];
+      } catch (error) {
+        if (signal?.aborted) throw new CancelledError('while answering the follow-up', { cause: error });
+        reply = {
+          role: 'assistant',
+          content: error instanceof Error ? error.message : 'Unknown error',
+          error: true,
+        };
+      }
+    }
+
+    this.history.push(asked, reply);
+    return reply;
+  }
+
+  private async askModel(question: string, signal?: AbortSignal): Promise<QAMessage> {
+    // Each question gets its own request budget, like each analysis does;
+    // a budget shared by the conversation would run out after a few follow-ups
+    const provider = createProvider(this.config);
+    await this.contextBuilder.calibrate(this.project);
+
+    // A follow-up like "and who calls it?" leans on the previous question for its subject
+    const previous = [...this.history].reverse().find(m => m.role === 'user')?.content ?? '';
+    const code = await this.retrieve(question, `${previous} ${question}`, signal);
+    const prompt = this.buildPrompt(question, code.text);
+
+    const key = {
+      stage: 'qa' as const,
+      provider: provider.name,
+      model: provider.model,
+      prompt,
+      files: code.files,
+    };
+    const cached = await this.responseCache.get(key);
+    const parsed = cached !== null ? parseStructured(cached, QAResponseSchema) : undefined;
+    const response = parsed?.ok
+      ? parsed.value
+      : await provider.generateStructured(prompt, QAResponseSchema, { stage: 'qa', signal });
+    if (!parsed?.ok) await this.responseCache.set(key, JSON.stringify(response));
+
+    const { valid, rejected } = await this.validate([...response.citations, ...inlineCitations(response.answer)]);
+    const notes = [`Looked at ${code.files.map(f => f.path).join(', ') || 'no files'}`];
+    if (this.attachments.length > 0) {
+      notes.push(`Included ${this.attachments.length} attached search result${this.attachments.length === 1 ? '' : 's'}`);
+    }
+    if (rejected.length > 0) {
+      notes.push(`Dropped ${rejected.length} citation${rejected.length === 1 ? '' : 's'} not found in the project: ${rejected.join(', ')}`);
+    }
+    return { role: 'assistant', content: response.answer, citations: valid, notes };
+  }
+
+  /**
+   * Code for the question, line-numbered so the model can cite it: any
+   * attached search hits, then files the question names, definitions of
+   * symbols it mentions, and the files ranked most relevant to it and the
+   * previous question.
+   */
+  private async retrieve(question: string, query: string, signal?: AbortSignal): Promise<RetrievedCode> {
+    const candidates = this.project.files.filter(f => !this.security.isSecretFile(f.path));
+    const picked: ProjectFile[] = [];
+    const spans = new Map<string, Array<[number, number, string]>>();
+    const pick = (file: ProjectFile | undefined) => {
+      if (file && !picked.includes(file) && picked.length < RETRIEVED_FILES) picked.push(file);
+    };
+
+    for (const file of candidates) {
+      const base = path.posix.basename(file.path);
+      if (question.includes(file.path) || new RegExp(`(^|[\\s\`'"(])${escapeRegExp(base)}\\b`).test(question)) pick(file);
+    }
+    for (const match of question.matchAll(SYMBOL_MENTION)) {
+      for (const symbol of findSymbols(this.project.symbols, match[1] ?? match[2] ?? match[3]).slice(0, 2)) {
+        const file = candidates.find(f => f.path === symbol.file);
+        if (!file) continue;
+        pick(file);
+        if (picked.includes(file)) {
+          spans.set(file.path, [...(spans.get(file.path) ?? []), [symbol.lineStart, symbol.lineEnd, qualifiedName(symbol)]]);
+        }
+      }
+    }
+    for (const file of this.contextBuilder.rankFiles(candidates, query)) {
+      if (picked.length >= RETRIEVED_FILES) break;
+      pick(file);
+    }
+
+    const sections: string[] = [];
+    const attachedFiles: ProjectFile[] = [];
+    for (const hit of this.attachments) {
+      const file = candidates.find(f => f.path === hit.file);
+      if (!file) continue;
+      if (!attachedFiles.includes(file)) attachedFiles.push(file);
+      const first = hit.line - hit.before.length;
+      const last = hit.line + hit.after.length;
+      sections.push(`--- ${hit.file} (attached search result, lines ${first}-${last}) ---\n${formatHit(hit)}`);
+    }
+
+    for (const file of picked) {
+      const content = await this.contentOf(file, signal);
+      if (content === undefined) continue;
+      const lines = content.split('\n');
+      const definitions = spans.get(file.path);
+      if (definitions) {
+        for (const [start, end, name] of definitions) {
+          const numbered = lines.slice(start - 1, end).map((line, i) => `${String(start + i).padStart(5, ' ')} | ${line}`);
+          const fitted = this.contextBuilder.fitLines(numbered, this.config.maxFileTokens, 'lines');
+          sections.push(`--- ${file.path} (${name}, lines ${start}-${end}) ---\n${fitted.text}`);
+        }
+      } else {
+        const body = this.contextBuilder.fitFile({ ...file, content }, query, this.config.maxFileTokens);
+        sections.push(`--- ${file.path} ---\n${body.text}`);
+      }
+    }
+
+    return {
+      text: this.security.redactSensitiveData(sections.join('\n\n')),
+      files: [...attachedFiles, ...picked.filter(f => !attachedFiles.includes(f))],
+    };
+  }
+
+  private buildPrompt(question: string, code: string): string {
+    const { overview, walkthrough, citations, answer } = this.result;
+    const steps = walkthrough.slice(0, MAX_PRIOR_STEPS).map((step, i) =>
+      `${i + 1}. ${step.file}:${step.lineRange[0]}-${step.lineRange[1]}${step.symbol ? ` (${step.symbol})` : ''}${step.stale ? ' [changed since]' : ''}: ${step.explanation}`
+    );
+    const cited = citations.slice(0, MAX_PRIOR_CITATIONS).map(c =>
+      `- ${c.file}:${c.line}${c.stale ? ' [changed since]' : ''}: ${c.claim}`
+    );
+    const turns = this.history
+      .filter(m => !m.error)
+      .slice(-HISTORY_MESSAGES)
+      .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`);
+
+    return `You are answering follow-up questions about the ${this.project.name} codebase.
+They follow an analysis of: "${this.analysisQuestion}"
+
+Architecture: ${overview.frameworks.join(', ') || 'unknown frameworks'}; ${overview.controlFlow}
+
+Earlier answer:
+${answer.length > MAX_PRIOR_ANSWER_CHARS ? `${answer.slice(0, MAX_PRIOR_ANSWER_CHARS)}...` : answer}
+
+Walkthrough:
+${steps.join('\n') || '(none)'}
+
+Citations from the analysis:
+${cited.join('\n') || '(none)'}
+
+Conversation so far:
+${turns.join('\n\n') || '(this is the first follow-up)'}
+
+Code retrieved for this question (with line numbers):
+${code || '(no code matched the question)'}
+
+Question: "${question}"
+
+Answer from the code above and the earlier analysis. Back every specific claim with a citation to a line number shown above, and say so when the code shown does not settle the question.
+
+Return JSON:
+{
+  "answer": "the answer, in plain prose",
+  "citations": [{ "claim": "what the line shows", "file": "project-relative path", "line": number }]
+}`;
+  }
+
+  /**
+   * Keeps citations that name an indexed file (as `resolveProjectFile`
+   * finds it) and a line inside it; the rest are rejected and reported.
+   */
+  private async validate(citations: Citation[]): Promise<{ valid: Citation[]; rejected: string[] }> {
+    const valid: Citation[] = [];
+    const rejected: string[] = [];
+    const seen = new Set<string>();
+
+    for (const citation of citations) {
+      const written = `${citation.file}:${citation.line}`;
+      const file = resolveProjectFile(this.project, citation.file);
+      const lines = file ? await this.lineCount(file) : undefined;
+      if (!file || lines === undefined || citation.line < 1 || citation.line > lines) {
+        if (!rejected.includes(written)) rejected.push(written);
+        continue;
+      }
+      const key = `${file.path}:${citation.line}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      valid.push({ claim: citation.claim, file: file.path, line: citation.line });
+    }
+    return { valid, rejected };
+  }
+
+  private async lineCount(file: ProjectFile): Promise<number | undefined> {
+    if (!this.lineCounts.has(file.path)) {
+      const content = await this.contentOf(file);
+      if (content === undefined) return undefined;
+      this.lineCounts.set(file.path, content.split('\n').length);
+    }
+    return this.lineCounts.get(file.path);
+  }
+
+  // Content dropped while indexing to save memory is read again from disk
+  private async contentOf(file: ProjectFile, signal?: AbortSignal): Promise<string | undefined> {
+    if (file.content !== undefined) return file.content;
+    try {
+      return await fs.readFile(path.join(this.project.root, file.path), { encoding: 'utf-8', signal });
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+// File:line references written into the answer itself, claimed by the sentence around them
+function inlineCitations(answer: string): Citation[] {
+  return [...answer.matchAll(INLINE_CITATION)].map(match => {
+    const start = Math.max(answer.lastIndexOf('\n', match.index!), answer.lastIndexOf('. ', match.index!)) + 1;
+    const end = answer.indexOf('\n', match.index!);
+    const sentence = answer.slice(start, end === -1 ? undefined : end).trim();
+    return {
+      claim: sentence.length > 120 ? `${sentence.slice(0, 117)}...` : sentence,
+      file: match[1],
+      line: Number(match[2]),
+    };
+  });
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -1,6 +1,7 @@
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import type { AnalysisResult, IndexedProject } from '../types/index.js';
+import { ENTRY_POINT_KIND_LABELS } from '../detectors/entryPoints.js';
 
 export class ReportGenerator {
   async generateMarkdownReport(
@@ -54,8 +55,25 @@ export class ReportGenerator {
       });
       markdown += `\n`;
       
+      if (result.overview.entryPoints && result.overview.entryPoints.length > 0) {
+        markdown += `### Entry Points\n`;
+        result.overview.entryPoints.forEach(group => {
+          markdown += `- **${ENTRY_POINT_KIND_LABELS[group.kind]}**: ${group.paths.map(p => `\`${p}\``).join(', ')}\n`;
+        });
+        markdown += `\n`;
+      }
+
       markdown += `### Control Flow\n`;
       markdown += `${result.overview.controlFlow}\n\n`;
+
+      if (result.overview.packages && result.overview.packages.length > 0) {
+        markdown += `### Packages\n`;
+        result.overview.packages.forEach(pkg => {
+          markdown += `- **${pkg.name}**${pkg.role ? `: ${pkg.role}` : ''}`;
+          markdown += pkg.dependsOn.length > 0 ? ` (depends on ${pkg.dependsOn.join(', ')})\n` : `\n`;
+        });
+        markdown += `\n`;
+      }
     }
     
     markdown += `---\n\n`;
@@ -77,6 +95,14 @@ export class ReportGenerator {
       markdown += `\n`;
     }
     
+    if (result.omissions && result.omissions.length > 0) {
+      markdown += `### Omitted Due to Limits\n`;
+      result.omissions.forEach(o => {
+        markdown += `- ${o}\n`;
+      });
+      markdown += `\n`;
+    }
+    
     markdown += `---\n\n`;
     
     // Code Walkthrough
@@ -99,6 +125,9 @@ export class ReportGenerator {
         
         for (const step of steps) {
           markdown += `#### Lines ${step.lineRange[0]}-${step.lineRange[1]}\n\n`;
+          if (step.stale) {
+            markdown += `> ⚠ These lines changed after this step was generated.\n\n`;
+          }
           
           markdown += `**What this code does:**\n`;
           markdown += `${step.explanation}\n\n`;
@@ -209,7 +238,8 @@ export class ReportGenerator {
       markdown += `| Claim | File | Line |\n`;
       markdown += `|-------|------|------|\n`;
       result.citations.forEach(citation => {
-        markdown += `| ${citation.claim} | ${citation.file} | ${citation.line} |\n`;
+        const line = citation.stale ? `${citation.line} (changed since)` : citation.line;
+        markdown += `| ${citation.claim} | ${citation.file} | ${line} |\n`;
       });
       markdown += `\n`;
     }
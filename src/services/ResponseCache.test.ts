@@ -0,0 +1,64 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { Config, ProjectFile } from '../types/index.js';
+import { ResponseCache, type ResponseCacheKey } from './ResponseCache.js';
+
+let dir: string;
+let cache: ResponseCache;
+
+const file = (filePath: string, hash: string): ProjectFile => ({ path: filePath, size: 10, hash });
+
+const KEY: ResponseCacheKey = {
+  stage: 'file-sections',
+  provider: 'gemini',
+  model: 'gemini-2.5-pro',
+  prompt: 'Explain src/app.ts',
+  files: [file('src/app.ts', 'aaa'), file('src/util.ts', 'bbb')],
+};
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'explain-cache-'));
+  cache = new ResponseCache({ cacheDir: dir, useCache: true } as Config);
+  await cache.set(KEY, 'cached response');
+});
+
+after(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+test('serves a response while every input is unchanged', async () => {
+  assert.equal(await cache.get(KEY), 'cached response');
+  // The order files are listed in does not matter
+  assert.equal(await cache.get({ ...KEY, files: [...KEY.files].reverse() }), 'cached response');
+});
+
+test('misses when the stage, provider, model or prompt differ', async () => {
+  assert.equal(await cache.get({ ...KEY, stage: 'answer' }), null);
+  assert.equal(await cache.get({ ...KEY, provider: 'openai' }), null);
+  assert.equal(await cache.get({ ...KEY, model: 'gemini-2.5-flash' }), null);
+  assert.equal(await cache.get({ ...KEY, prompt: 'Explain src/app.ts again' }), null);
+});
+
+test('misses when a file the stage looked at changed', async () => {
+  assert.equal(await cache.get({ ...KEY, files: [file('src/app.ts', 'changed'), file('src/util.ts', 'bbb')] }), null);
+  assert.equal(await cache.get({ ...KEY, files: [file('src/app.ts', 'aaa')] }), null);
+});
+
+test('is bypassed when caching is off', async () => {
+  const disabled = new ResponseCache({ cacheDir: dir, useCache: false } as Config);
+  assert.equal(await disabled.get(KEY), null);
+});
+
+test('reports and prunes entries', async () => {
+  await cache.set({ ...KEY, stage: 'answer' }, 'another');
+  const stats = await cache.stats();
+  assert.equal(stats.entries, 2);
+  assert.deepEqual(stats.byStage, { 'file-sections': 1, answer: 1 });
+
+  assert.equal(await cache.prune(60_000), 0);
+  assert.equal(await cache.prune(-1), 2);
+  assert.equal(await cache.get(KEY), null);
+});
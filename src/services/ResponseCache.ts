@@ -0,0 +1,138 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import type { Config, PromptStage, ProjectFile } from '../types/index.js';
+
+interface CachedResponse {
+  stage: PromptStage;
+  provider: string;
+  model: string;
+  createdAt: number;
+  response: string;
+}
+
+export interface ResponseCacheKey {
+  stage: PromptStage;
+  provider: string;
+  model: string;
+  prompt: string;
+  files: ProjectFile[];
+}
+
+export interface ResponseCacheStats {
+  entries: number;
+  bytes: number;
+  byStage: Record<string, number>;
+  oldest?: number;
+  newest?: number;
+}
+
+/**
+ * Stores model responses under `cacheDir/responses`. Keys combine the prompt
+ * stage, provider, model, the exact prompt and the content hashes of the
+ * files the stage looked at, so a response is reused only while every
+ * input it was derived from is unchanged.
+ */
+export class ResponseCache {
+  constructor(private config: Config) {}
+
+  async get(key: ResponseCacheKey): Promise<string | null> {
+    const entryPath = this.entryPath(key);
+    if (!entryPath || !this.config.useCache) return null;
+
+    try {
+      const raw = await fs.readFile(entryPath, 'utf-8');
+      return (JSON.parse(raw) as CachedResponse).response;
+    } catch {
+      return null;
+    }
+  }
+
+  async set(key: ResponseCacheKey, response: string): Promise<void> {
+    const entryPath = this.entryPath(key);
+    if (!entryPath) return;
+
+    const entry: CachedResponse = {
+      stage: key.stage,
+      provider: key.provider,
+      model: key.model,
+      createdAt: Date.now(),
+      response,
+    };
+
+    try {
+      await fs.mkdir(path.dirname(entryPath), { recursive: true });
+      await fs.writeFile(entryPath, JSON.stringify(entry), 'utf-8');
+    } catch {
+      // Best-effort, like the index cache
+    }
+  }
+
+  async stats(): Promise<ResponseCacheStats> {
+    const stats: ResponseCacheStats = { entries: 0, bytes: 0, byStage: {} };
+    for (const entryPath of await this.listEntries()) {
+      try {
+        const raw = await fs.readFile(entryPath, 'utf-8');
+        const entry = JSON.parse(raw) as CachedResponse;
+        stats.entries++;
+        stats.bytes += Buffer.byteLength(raw);
+        stats.byStage[entry.stage] = (stats.byStage[entry.stage] || 0) + 1;
+        stats.oldest = Math.min(stats.oldest ?? entry.createdAt, entry.createdAt);
+        stats.newest = Math.max(stats.newest ?? entry.createdAt, entry.createdAt);
+      } catch {
+        // Ignore unreadable entries; prune removes them
+      }
+    }
+    return stats;
+  }
+
+  /**
+   * Removes entries older than `maxAgeMs` plus any unreadable entries.
+   * Returns the number of entries removed.
+   */
+  async prune(maxAgeMs: number): Promise<number> {
+    const cutoff = Date.now() - maxAgeMs;
+    let removed = 0;
+    for (const entryPath of await this.listEntries()) {
+      let expired = true;
+      try {
+        const entry = JSON.parse(await fs.readFile(entryPath, 'utf-8')) as CachedResponse;
+        expired = entry.createdAt < cutoff;
+      } catch {
+        // Corrupt entry - remove it
+      }
+      if (expired) {
+        await fs.rm(entryPath, { force: true });
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  private async listEntries(): Promise<string[]> {
+    const dir = this.responsesDir();
+    if (!dir) return [];
+    try {
+      const names = await fs.readdir(dir);
+      return names.filter(n => n.endsWith('.json')).map(n => path.join(dir, n));
+    } catch {
+      return [];
+    }
+  }
+
+  private entryPath(key: ResponseCacheKey): string | null {
+    const dir = this.responsesDir();
+    if (!dir) return null;
+
+    const hash = crypto.createHash('sha256');
+    hash.update(`${key.stage}\0${key.provider}\0${key.model}\0${key.prompt}\0`);
+    for (const file of [...key.files].sort((a, b) => a.path.localeCompare(b.path))) {
+      hash.update(`${file.path}\0${file.hash || file.size}\n`);
+    }
+    return path.join(dir, `${hash.digest('hex')}.json`);
+  }
+
+  private responsesDir(): string | null {
+    return this.config.cacheDir ? path.join(this.config.cacheDir, 'responses') : null;
+  }
+}
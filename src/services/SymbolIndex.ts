@@ -0,0 +1,366 @@
+import path from 'node:path';
+import type {
+  Citation,
+  ImportRecord,
+  ProjectFile,
+  ProjectSymbol,
+  SymbolIndex,
+  SymbolReference,
+  SymbolUsage,
+} from '../types/index.js';
+
+// Longest symbol a walkthrough step is widened to; bigger ones keep the model's range
+const MAX_SNAP_LINES = 80;
+
+// Barrel files re-exporting barrel files rarely go deeper than this
+const MAX_REEXPORT_DEPTH = 5;
+
+/**
+ * Builds the project-wide symbol index from the per-file definitions and
+ * usages the analyzers extracted. Usages are tied to definitions through
+ * the resolved imports: a name bound by `import { parse } from './parser'`
+ * refers to the `parse` exported by the file that specifier resolved to,
+ * following `export ... from` re-exports through barrel files.
+ */
+export function buildSymbolIndex(files: ProjectFile[]): SymbolIndex {
+  const byPath = new Map(files.map(f => [f.path, f]));
+  const symbols: ProjectSymbol[] = [];
+  const byFile = new Map<string, ProjectSymbol[]>();
+
+  for (const file of files) {
+    const defined = definedSymbols(file);
+    symbols.push(...defined);
+    byFile.set(file.path, defined);
+  }
+
+  const references = new Map<string, SymbolReference[]>();
+  const resolver = new UsageResolver(byPath, byFile);
+  for (const file of files) {
+    for (const usage of file.usages || []) {
+      const target = resolver.resolve(file, usage);
+      if (!target) continue;
+      const list = references.get(target.id) || [];
+      list.push({ file: file.path, line: usage.line, caller: usage.caller });
+      references.set(target.id, list);
+    }
+  }
+
+  return { symbols, references };
+}
+
+/**
+ * The index after the files in `edited` were re-parsed, with the set of
+ * files unchanged. Their symbols are replaced, and usages are resolved
+ * again only in them and in the files that import them, directly or
+ * through files re-exporting them; every other reference is kept.
+ */
+export function updateSymbolIndex(
+  index: SymbolIndex,
+  files: ProjectFile[],
+  edited: Set<string>,
+  importGraph: Map<string, string[]>
+): SymbolIndex {
+  const byPath = new Map(files.map(f => [f.path, f]));
+  const byFile = new Map<string, ProjectSymbol[]>();
+  for (const symbol of index.symbols) {
+    if (edited.has(symbol.file)) continue;
+    const list = byFile.get(symbol.file) || [];
+    list.push(symbol);
+    byFile.set(symbol.file, list);
+  }
+  for (const file of edited) byFile.set(file, definedSymbols(byPath.get(file)!));
+  const symbols = files.flatMap(f => byFile.get(f.path) || []);
+
+  const affected = importersOf(edited, byPath, importGraph);
+  const references = new Map<string, SymbolReference[]>();
+  for (const [id, refs] of index.references) {
+    const kept = refs.filter(ref => !affected.has(ref.file));
+    if (kept.length > 0) references.set(id, kept);
+  }
+
+  const resolver = new UsageResolver(byPath, byFile);
+  for (const file of files) {
+    if (!affected.has(file.path)) continue;
+    for (const usage of file.usages || []) {
+      const target = resolver.resolve(file, usage);
+      if (!target) continue;
+      const list = references.get(target.id) || [];
+      list.push({ file: file.path, line: usage.line, caller: usage.caller });
+      references.set(target.id, list);
+    }
+  }
+
+  return { symbols, references };
+}
+
+function definedSymbols(file: ProjectFile): ProjectSymbol[] {
+  return (file.definitions || []).map((d): ProjectSymbol => ({
+    ...d,
+    id: symbolId(file.path, d.container ? `${d.container}.${d.name}` : d.name),
+    file: file.path,
+  }));
+}
+
+// `files` and every file whose usages could resolve into them: importers,
+// and importers of importers that pass the names on
+function importersOf(
+  files: Set<string>,
+  byPath: Map<string, ProjectFile>,
+  importGraph: Map<string, string[]>
+): Set<string> {
+  const importers = new Map<string, string[]>();
+  for (const [file, targets] of importGraph) {
+    for (const target of targets) {
+      const list = importers.get(target) || [];
+      list.push(file);
+      importers.set(target, list);
+    }
+  }
+
+  const found = new Set(files);
+  let frontier = [...files];
+  for (let depth = 0; frontier.length > 0 && depth <= MAX_REEXPORT_DEPTH; depth++) {
+    const next: string[] = [];
+    for (const file of frontier) {
+      for (const importer of importers.get(file) || []) {
+        if (found.has(importer)) continue;
+        found.add(importer);
+        if (reexports(byPath.get(importer))) next.push(importer);
+      }
+    }
+    frontier = next;
+  }
+  return found;
+}
+
+// `export ... from`, or `export { name }` of a name the file imported
+function reexports(file: ProjectFile | undefined): boolean {
+  if (!file) return false;
+  if (file.imports?.some(record => record.kind === 're-export')) return true;
+  const imported = new Set((file.imports || []).flatMap(record => record.locals || []));
+  return (file.exports || []).some(e => imported.has(e.name));
+}
+
+/**
+ * Symbols matching `query`, which may be a bare name (`parse`), a
+ * qualified method (`Parser.parse`) or either with a `file#` prefix.
+ */
+export function findSymbols(index: SymbolIndex, query: string): ProjectSymbol[] {
+  const [file, name] = query.includes('#') ? query.split('#', 2) : [undefined, query];
+  return index.symbols.filter(s =>
+    (!file || s.file === file) && (s.name === name || qualifiedName(s) === name)
+  );
+}
+
+export function referencesTo(index: SymbolIndex, symbol: ProjectSymbol): SymbolReference[] {
+  return index.references.get(symbol.id) || [];
+}
+
+/**
+ * The innermost symbol in `file` containing the middle of a line range,
+ * used to widen model-picked ranges to whole functions. Returns undefined
+ * when the range sits outside every definition.
+ */
+export function enclosingSymbol(
+  index: SymbolIndex,
+  file: string,
+  lineStart: number,
+  lineEnd: number
+): ProjectSymbol | undefined {
+  const middle = Math.floor((lineStart + lineEnd) / 2);
+  return innermostAt(index.symbols.filter(s => s.file === file), middle);
+}
+
+/** The shortest of `symbols`, all from one file, that spans `line` */
+export function innermostAt(symbols: ProjectSymbol[], line: number): ProjectSymbol | undefined {
+  return symbols
+    .filter(s => s.lineStart <= line && line <= s.lineEnd)
+    .sort((a, b) => (a.lineEnd - a.lineStart) - (b.lineEnd - b.lineStart))[0];
+}
+
+/**
+ * Widens a line range to the whole symbol around it, unless that symbol is
+ * too long to be a useful step. Returns the range and the symbol's name.
+ */
+export function snapToSymbol(
+  index: SymbolIndex,
+  file: string,
+  lineStart: number,
+  lineEnd: number
+): { lineRange: [number, number]; symbol?: string } {
+  const symbol = enclosingSymbol(index, file, lineStart, lineEnd);
+  if (!symbol) return { lineRange: [lineStart, lineEnd] };
+
+  const name = qualifiedName(symbol);
+  if (symbol.lineEnd - symbol.lineStart + 1 > MAX_SNAP_LINES) {
+    return { lineRange: [lineStart, lineEnd], symbol: name };
+  }
+  return { lineRange: [symbol.lineStart, symbol.lineEnd], symbol: name };
+}
+
+export function qualifiedName(symbol: { name: string; container?: string }): string {
+  return symbol.container ? `${symbol.container}.${symbol.name}` : symbol.name;
+}
+
+function symbolId(file: string, qualified: string): string {
+  return `${file}#${qualified}`;
+}
+
+class UsageResolver {
+  // Per file, symbols by `Container.name`, or `.name` at the top level
+  private byName = new Map<string, Map<string, ProjectSymbol>>();
+
+  constructor(
+    private files: Map<string, ProjectFile>,
+    symbols: Map<string, ProjectSymbol[]>
+  ) {
+    for (const [file, defined] of symbols) {
+      const names = new Map<string, ProjectSymbol>();
+      for (const symbol of defined) {
+        const key = `${symbol.container ?? ''}.${symbol.name}`;
+        if (!names.has(key)) names.set(key, symbol);
+      }
+      this.byName.set(file, names);
+    }
+  }
+
+  resolve(file: ProjectFile, usage: SymbolUsage): ProjectSymbol | undefined {
+    if (usage.qualifier === 'this') {
+      const container = usage.caller?.split('.')[0];
+      return this.lookup(file.path, usage.name, container);
+    }
+
+    if (usage.qualifier !== undefined) {
+      // Static member of a class defined here: `Parser.create()`
+      const member = this.lookup(file.path, usage.name, usage.qualifier);
+      if (member) return member;
+
+      const binding = this.binding(file, usage.qualifier);
+      if (!binding) return undefined;
+      if (binding.namespace) return this.exported(binding.file, usage.name, 0);
+      // Static member of an imported class
+      const owner = this.exported(binding.file, binding.name, 0);
+      return owner && this.lookup(owner.file, usage.name, owner.name);
+    }
+
+    const defined = this.lookup(file.path, usage.name);
+    if (defined) return defined;
+
+    const binding = this.binding(file, usage.name);
+    return binding && !binding.namespace ? this.exported(binding.file, binding.name, 0) : undefined;
+  }
+
+  private lookup(file: string, name: string, container?: string): ProjectSymbol | undefined {
+    return this.byName.get(file)?.get(`${container ?? ''}.${name}`);
+  }
+
+  // What a local name is bound to by the file's imports
+  private binding(
+    file: ProjectFile,
+    local: string
+  ): { file: string; name: string; namespace: boolean } | undefined {
+    for (const record of file.imports || []) {
+      const i = record.locals?.indexOf(local) ?? -1;
+      if (i === -1 || record.target !== 'file' || !record.resolved) continue;
+
+      const name = record.names[i];
+      // `from pkg import mod` binds a submodule, which behaves like a namespace
+      const isModule = name !== '*' && path.parse(record.resolved).name === name;
+      return { file: record.resolved, name, namespace: name === '*' || isModule };
+    }
+    return undefined;
+  }
+
+  // The definition `name` refers to when imported from `filePath`
+  private exported(filePath: string, name: string, depth: number): ProjectSymbol | undefined {
+    const file = this.files.get(filePath);
+    if (!file || depth > MAX_REEXPORT_DEPTH) return undefined;
+
+    if (name === 'default') {
+      const line = file.exports?.find(e => e.name === 'default')?.line;
+      return [...(this.byName.get(filePath)?.values() ?? [])].find(s => !s.container && s.lineStart === line);
+    }
+
+    const defined = this.lookup(filePath, name);
+    if (defined) return defined;
+
+    // `export { a as b } from './x'` or `export * from './x'`
+    for (const record of file.imports || []) {
+      if (record.kind !== 're-export' || record.target !== 'file' || !record.resolved) continue;
+      const original = this.reexportedName(file, record, name);
+      if (original) {
+        const found = this.exported(record.resolved, original, depth + 1);
+        if (found) return found;
+      }
+    }
+
+    // `import { a } from './x'; export { a }`
+    const binding = this.binding(file, name);
+    return binding && !binding.namespace ? this.exported(binding.file, binding.name, depth + 1) : undefined;
+  }
+
+  private reexportedName(file: ProjectFile, record: ImportRecord, name: string): string | undefined {
+    if (record.names.includes('*')) {
+      // `export * as ns from` re-exports a namespace, not the name itself
+      const asNamespace = file.exports?.some(e => e.line === record.line && e.name !== '*');
+      return asNamespace ? undefined : name;
+    }
+    const exported = (file.exports || []).filter(e => e.line === record.line && e.source === record.source);
+    const i = exported.findIndex(e => e.name === name);
+    return i === -1 ? undefined : record.names[i];
+  }
+}
+
+const CALLERS_QUESTION = /^(?:who|what|which \w+)\s+(?:calls|uses|references|imports)\s+`?([\w.#/-]+?)`?\s*\??$/i;
+const DEFINITION_QUESTION = /^where\s+is\s+`?([\w.#/-]+?)`?\s+(?:defined|declared)\s*\??$/i;
+
+export interface SymbolAnswer {
+  content: string;
+  citations: Citation[];
+}
+
+/**
+ * Answers "who calls X" and "where is X defined" straight from the index,
+ * without a model round trip. Returns undefined for any other question or
+ * when X is not a known symbol, so the caller can fall back to the model.
+ */
+export function answerSymbolQuestion(index: SymbolIndex, question: string): SymbolAnswer | undefined {
+  const text = question.trim();
+  const callers = text.match(CALLERS_QUESTION);
+  const definition = text.match(DEFINITION_QUESTION);
+  const query = callers?.[1] ?? definition?.[1];
+  if (!query) return undefined;
+
+  const matches = findSymbols(index, query);
+  if (matches.length === 0) return undefined;
+
+  if (definition) {
+    return {
+      content: matches
+        .map(s => `${qualifiedName(s)} is a ${s.kind} defined in ${s.file} (lines ${s.lineStart}-${s.lineEnd}).`)
+        .join('\n'),
+      citations: matches.map(s => ({ claim: `${qualifiedName(s)} is defined here`, file: s.file, line: s.lineStart })),
+    };
+  }
+
+  const lines: string[] = [];
+  const citations: SymbolAnswer['citations'] = [];
+  for (const symbol of matches) {
+    const refs = referencesTo(index, symbol);
+    const where = matches.length > 1 ? ` (${symbol.file})` : '';
+    if (refs.length === 0) {
+      lines.push(`No references to ${qualifiedName(symbol)}${where} were found in the project.`);
+      continue;
+    }
+    lines.push(`${qualifiedName(symbol)}${where} is referenced ${refs.length} time${refs.length === 1 ? '' : 's'}:`);
+    for (const ref of refs) {
+      lines.push(`  ${ref.caller ? `${ref.caller} in ` : ''}${ref.file}:${ref.line}`);
+      citations.push({
+        claim: `${ref.caller ?? 'Module code'} references ${qualifiedName(symbol)}`,
+        file: ref.file,
+        line: ref.line,
+      });
+    }
+  }
+  return { content: lines.join('\n'), citations };
+}
@@ -0,0 +1,340 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { globby } from 'globby';
+import type {
+  FrameworkDetection,
+  IndexedProject,
+  ProjectFile,
+  Workspace,
+  WorkspacePackage,
+  WorkspaceTool,
+} from '../types/index.js';
+import { readJson } from '../utils/json.js';
+import { parseCargoToml, parseGoMod, tomlArray, tomlSection, tomlString } from '../detectors/manifests.js';
+
+/** A package.json found in the workspace, with its project-relative directory */
+export interface NodeManifest {
+  dir: string;
+  json: any;
+}
+
+const ECOSYSTEM_RUNTIMES: Record<WorkspacePackage['ecosystem'], string> = {
+  node: 'Node.js',
+  rust: 'Rust',
+  go: 'Go',
+};
+
+const NODE_DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'];
+
+const IGNORED = ['**/node_modules/**', '**/target/**', '**/vendor/**'];
+
+/**
+ * Discovers the packages of a monorepo from its manifests: npm, yarn and
+ * pnpm workspaces (which Turborepo builds on), Nx `project.json` files,
+ * Cargo workspaces and Go multi-module repositories. Each package gets the
+ * `detections` made inside it as its frameworks, its entry points among
+ * `files`, and its dependencies on other packages of the same workspace.
+ *
+ * `files` and `detections` may be omitted to list packages before the
+ * project is indexed; entry points and frameworks are then empty.
+ */
+export async function detectWorkspace(
+  rootDir: string,
+  files: ProjectFile[] = [],
+  detections: FrameworkDetection[] = []
+): Promise<Workspace> {
+  const tools = new Set<WorkspaceTool>();
+  const found: WorkspacePackage[] = [];
+
+  const node = await loadNodeManifests(rootDir);
+  node.tools.forEach(tool => tools.add(tool));
+  const nx = await loadNxProjects(rootDir);
+  if (nx.length > 0) tools.add('nx');
+  if (await exists(path.join(rootDir, 'turbo.json'))) tools.add('turborepo');
+
+  // Nx projects and workspace packages often describe the same directory
+  const nodeDirs = new Set([...node.members.map(m => m.dir), ...nx.map(p => p.dir)]);
+  for (const dir of nodeDirs) {
+    const manifest = node.members.find(m => m.dir === dir)?.json ?? {};
+    const project = nx.find(p => p.dir === dir);
+    const name = project?.name ?? manifest.name;
+    if (typeof name !== 'string') continue;
+    found.push({
+      name,
+      dir,
+      ecosystem: 'node',
+      frameworks: [],
+      entryPoints: [],
+      dependencies: [...Object.keys(dependencyMap(manifest)), ...(project?.implicitDependencies ?? [])],
+    });
+  }
+
+  const crates = await loadCargoWorkspace(rootDir);
+  if (crates.length > 0) tools.add('cargo');
+  for (const crate of crates) {
+    found.push({
+      ...crate,
+      ecosystem: 'rust',
+      frameworks: [],
+      entryPoints: [],
+    });
+  }
+
+  const modules = await loadGoModules(rootDir);
+  if (modules.length > 0) tools.add('go');
+  for (const module of modules) {
+    found.push({ ...module, ecosystem: 'go', frameworks: [], entryPoints: [] });
+  }
+
+  // Only dependencies on packages of this workspace are kept
+  const names = new Set(found.map(p => p.name));
+  const packages = found.map((pkg): WorkspacePackage => ({
+    ...pkg,
+    dependencies: [...new Set(pkg.dependencies)].filter(dep => dep !== pkg.name && names.has(dep)),
+    entryPoints: files.filter(f => f.isEntry && (pkg.dir === '.' || f.path.startsWith(`${pkg.dir}/`))).map(f => f.path),
+  }));
+  for (const detection of detections) {
+    // A detection in `dir` belongs to the innermost package containing it
+    const owner = packages
+      .filter(pkg => pkg.dir === '.' || detection.dir === pkg.dir || detection.dir.startsWith(`${pkg.dir}/`))
+      .sort((a, b) => b.dir.length - a.dir.length)[0];
+    if (owner && !owner.frameworks.includes(detection.name)) owner.frameworks.push(detection.name);
+  }
+
+  return {
+    tools: [...tools],
+    packages: packages.sort((a, b) => a.dir.localeCompare(b.dir)),
+  };
+}
+
+/**
+ * The root package.json and every workspace member's, from package.json
+ * `workspaces` (npm, yarn) or pnpm-workspace.yaml.
+ */
+export async function loadNodeManifests(
+  rootDir: string
+): Promise<{ root?: any; members: NodeManifest[]; tools: WorkspaceTool[] }> {
+  const patterns: string[] = [];
+  const tools: WorkspaceTool[] = [];
+  let root: any;
+
+  try {
+    root = await readJson(path.join(rootDir, 'package.json'));
+    const workspaces = Array.isArray(root.workspaces) ? root.workspaces : root.workspaces?.packages;
+    if (Array.isArray(workspaces) && workspaces.length > 0) {
+      patterns.push(...workspaces);
+      tools.push(await exists(path.join(rootDir, 'yarn.lock')) ? 'yarn' : 'npm');
+    }
+  } catch {
+    // No root package.json
+  }
+
+  try {
+    const yaml = await fs.readFile(path.join(rootDir, 'pnpm-workspace.yaml'), 'utf-8');
+    patterns.push(...parsePnpmWorkspace(yaml));
+    tools.push('pnpm');
+  } catch {
+    // Not a pnpm workspace
+  }
+
+  const included = patterns.filter(p => !p.startsWith('!'));
+  if (included.length === 0) return { root, members: [], tools };
+
+  const manifests = await globby(included.map(p => path.posix.join(p, 'package.json')), {
+    cwd: rootDir,
+    ignore: [...IGNORED, ...patterns.filter(p => p.startsWith('!')).map(p => p.slice(1))],
+  });
+  const members: NodeManifest[] = [];
+  for (const manifest of manifests) {
+    try {
+      members.push({ dir: path.posix.dirname(manifest), json: await readJson(path.join(rootDir, manifest)) });
+    } catch {
+      // Skip unreadable manifests
+    }
+  }
+  return { root, members, tools };
+}
+
+/** The innermost package containing `file`, if any */
+export function packageOf(workspace: Workspace, file: string): WorkspacePackage | undefined {
+  return workspace.packages
+    .filter(pkg => pkg.dir === '.' || file.startsWith(`${pkg.dir}/`))
+    .sort((a, b) => b.dir.length - a.dir.length)[0];
+}
+
+/**
+ * Adds package dependencies the code has but the manifests do not declare,
+ * like a relative import reaching into a sibling package.
+ */
+export function addImportDependencies(workspace: Workspace, importGraph: Map<string, string[]>): void {
+  for (const [file, targets] of importGraph) {
+    const from = packageOf(workspace, file);
+    if (!from) continue;
+    for (const target of targets) {
+      const to = packageOf(workspace, target);
+      if (to && to !== from && !from.dependencies.includes(to.name)) {
+        from.dependencies.push(to.name);
+      }
+    }
+  }
+}
+
+/**
+ * The part of `project` inside the named packages: their files, entry
+ * points, imports and symbols. Returns the project unchanged when `names`
+ * is empty or matches no package.
+ */
+export function scopeProject(project: IndexedProject, names: string[]): IndexedProject {
+  const packages = project.workspace.packages.filter(pkg => names.includes(pkg.name));
+  if (packages.length === 0) return project;
+
+  const inScope = (file: string) => packages.includes(packageOf(project.workspace, file)!);
+  const files = project.files.filter(f => inScope(f.path));
+  const detections = project.detections.filter(d => inScope(`${d.dir}/`));
+  const references = new Map(
+    [...project.symbols.references]
+      .map(([id, refs]) => [id, refs.filter(ref => inScope(ref.file))] as const)
+      .filter(([id, refs]) => refs.length > 0 && inScope(id.split('#')[0]))
+  );
+
+  return {
+    ...project,
+    name: `${project.name} (${packages.map(pkg => pkg.name).join(', ')})`,
+    files,
+    entryPoints: project.entryPoints.filter(entry => inScope(entry.path)),
+    frameworks: [...new Set(packages.flatMap(pkg => pkg.frameworks))],
+    runtimes: [...new Set([...packages.map(pkg => ECOSYSTEM_RUNTIMES[pkg.ecosystem]), ...detections.map(d => d.runtime)])],
+    detections,
+    languages: new Set(files.flatMap(f => (f.language ? [f.language] : []))),
+    importGraph: new Map(
+      [...project.importGraph]
+        .filter(([file]) => inScope(file))
+        .map(([file, targets]) => [file, targets.filter(inScope)] as const)
+        .filter(([, targets]) => targets.length > 0)
+    ),
+    symbols: { symbols: project.symbols.symbols.filter(s => inScope(s.file)), references },
+    workspace: { ...project.workspace, packages },
+    totalSize: files.reduce((sum, f) => sum + f.size, 0),
+  };
+}
+
+function dependencyMap(manifest: any): Record<string, unknown> {
+  return Object.assign({}, ...NODE_DEPENDENCY_FIELDS.map(field => manifest[field] || {}));
+}
+
+async function loadNxProjects(
+  rootDir: string
+): Promise<Array<{ name?: string; dir: string; implicitDependencies?: string[] }>> {
+  if (!(await exists(path.join(rootDir, 'nx.json')))) return [];
+
+  const manifests = await globby(['**/project.json'], { cwd: rootDir, gitignore: true, ignore: IGNORED });
+  const projects = [];
+  for (const manifest of manifests) {
+    try {
+      const project = await readJson(path.join(rootDir, manifest));
+      projects.push({
+        name: typeof project.name === 'string' ? project.name : undefined,
+        dir: path.posix.dirname(manifest),
+        implicitDependencies: Array.isArray(project.implicitDependencies)
+          ? project.implicitDependencies.filter((d: unknown) => typeof d === 'string' && !d.startsWith('!'))
+          : undefined,
+      });
+    } catch {
+      // Skip unreadable project files
+    }
+  }
+  return projects;
+}
+
+async function loadCargoWorkspace(rootDir: string): Promise<Array<{ name: string; dir: string; dependencies: string[] }>> {
+  let root: string;
+  try {
+    root = await fs.readFile(path.join(rootDir, 'Cargo.toml'), 'utf-8');
+  } catch {
+    return [];
+  }
+  const members = tomlArray(tomlSection(root, 'workspace'), 'members');
+  if (members.length === 0) return [];
+
+  const manifests = await globby(members.map(m => path.posix.join(m, 'Cargo.toml')), { cwd: rootDir, ignore: IGNORED });
+  const crates = [];
+  for (const manifest of manifests) {
+    try {
+      const toml = await fs.readFile(path.join(rootDir, manifest), 'utf-8');
+      const name = tomlString(tomlSection(toml, 'package'), 'name');
+      if (!name) continue;
+      crates.push({ name, dir: path.posix.dirname(manifest), dependencies: [...parseCargoToml(toml).keys()] });
+    } catch {
+      // Skip unreadable manifests
+    }
+  }
+  return crates;
+}
+
+async function loadGoModules(rootDir: string): Promise<Array<{ name: string; dir: string; dependencies: string[] }>> {
+  let dirs: string[];
+  try {
+    dirs = parseGoWork(await fs.readFile(path.join(rootDir, 'go.work'), 'utf-8'));
+  } catch {
+    // Without go.work, several go.mod files still make a multi-module repository
+    const manifests = await globby(['**/go.mod'], { cwd: rootDir, gitignore: true, ignore: IGNORED });
+    if (manifests.length < 2) return [];
+    dirs = manifests.map(manifest => path.posix.dirname(manifest));
+  }
+
+  const modules = [];
+  for (const dir of dirs) {
+    try {
+      const mod = await fs.readFile(path.join(rootDir, dir, 'go.mod'), 'utf-8');
+      const name = mod.match(/^module\s+(\S+)/m)?.[1];
+      if (!name) continue;
+      modules.push({ name, dir, dependencies: [...parseGoMod(mod).keys()] });
+    } catch {
+      // Listed in go.work but missing
+    }
+  }
+  return modules;
+}
+
+// Reads the `packages:` list of pnpm-workspace.yaml without a YAML parser
+function parsePnpmWorkspace(yaml: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const line of yaml.split('\n')) {
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+    } else if (inPackages && /^\s*-\s*/.test(line)) {
+      patterns.push(line.replace(/^\s*-\s*/, '').replace(/#.*$/, '').trim().replace(/^['"]|['"]$/g, ''));
+    } else if (inPackages && /^\S/.test(line)) {
+      inPackages = false;
+    }
+  }
+  return patterns.filter(Boolean);
+}
+
+// `use ./dir` lines and `use ( ... )` blocks of go.work
+function parseGoWork(work: string): string[] {
+  const dirs: string[] = [];
+  let inBlock = false;
+  for (const raw of work.split('\n')) {
+    const line = raw.replace(/\/\/.*$/, '').trim();
+    if (inBlock) {
+      if (line === ')') inBlock = false;
+      else if (line) dirs.push(line);
+    } else if (/^use\s*\($/.test(line)) {
+      inBlock = true;
+    } else if (line.startsWith('use ')) {
+      dirs.push(line.slice(4).trim());
+    }
+  }
+  return dirs.map(dir => path.posix.normalize(dir.replace(/^"|"$/g, '')));
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,111 @@
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Worker } from 'node:worker_threads';
+import { processFile, type FileResult, type FileTask } from './fileTask.js';
+
+// Tasks queued per worker, so it never idles waiting for the next message
+const TASKS_PER_WORKER = 2;
+
+// Files read at once when indexing on the main thread
+const IN_PROCESS_CONCURRENCY = 8;
+
+// Same extension as this module: .ts under tsx, .js once built
+const WORKER_URL = new URL(`./worker${path.extname(fileURLToPath(import.meta.url))}`, import.meta.url);
+
+/**
+ * Under `npm run dev` workers inherit neither tsx's loader nor, on Node 20,
+ * one passed as `--import tsx` in execArgv, so a .ts worker registers tsx
+ * itself before loading its module.
+ */
+function startWorker(): Worker {
+  if (!WORKER_URL.pathname.endsWith('.ts')) return new Worker(WORKER_URL);
+  const tsx = import.meta.resolve('tsx/esm/api');
+  const bootstrap = `import(${JSON.stringify(tsx)}).then(tsx => { tsx.register(); return import(${JSON.stringify(WORKER_URL.href)}); });`;
+  return new Worker(bootstrap, { eval: true });
+}
+
+/**
+ * Runs file tasks on a pool of worker threads so reading, hashing and
+ * parsing never block the UI thread. Tasks are pulled from the iterator
+ * only as workers have room for them, which bounds how much file content
+ * is in flight at once and lets the caller decide per task whether to keep
+ * content. A worker that fails to start or crashes hands its unfinished
+ * tasks back, and whatever no worker can take is finished in-process.
+ */
+export class IndexWorkerPool {
+  constructor(private size: number) {}
+
+  async run(
+    tasks: Iterable<FileTask>,
+    onResult: (result: FileResult) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const source = tasks[Symbol.iterator]();
+    const returned: FileTask[] = [];
+    const take = (): FileTask | undefined => {
+      if (signal?.aborted) return undefined;
+      if (returned.length > 0) return returned.shift();
+      const next = source.next();
+      return next.done ? undefined : next.value;
+    };
+
+    const lanes = Array.from({ length: this.size }, () => this.workerLane(take, returned, onResult, signal));
+    await Promise.all(lanes);
+
+    // No workers at all, or every one of them crashed
+    await Promise.all(Array.from({ length: IN_PROCESS_CONCURRENCY }, async () => {
+      for (let task = take(); task; task = take()) {
+        onResult(await processFile(task));
+      }
+    }));
+  }
+
+  private workerLane(
+    take: () => FileTask | undefined,
+    returned: FileTask[],
+    onResult: (result: FileResult) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    return new Promise(resolve => {
+      const inFlight = new Map<number, FileTask>();
+      let worker: Worker;
+      try {
+        worker = startWorker();
+      } catch {
+        resolve();
+        return;
+      }
+
+      const finish = () => {
+        signal?.removeEventListener('abort', finish);
+        worker.removeAllListeners();
+        void worker.terminate();
+        resolve();
+      };
+      const fill = () => {
+        while (inFlight.size < TASKS_PER_WORKER) {
+          const task = take();
+          if (!task) break;
+          inFlight.set(task.index, task);
+          worker.postMessage(task);
+        }
+        if (inFlight.size === 0) finish();
+      };
+      const fail = () => {
+        returned.push(...inFlight.values());
+        inFlight.clear();
+        finish();
+      };
+
+      worker.on('message', (result: FileResult) => {
+        inFlight.delete(result.index);
+        onResult(result);
+        fill();
+      });
+      worker.on('error', fail);
+      worker.on('exit', fail);
+      signal?.addEventListener('abort', finish, { once: true });
+      fill();
+    });
+  }
+}
@@ -0,0 +1,68 @@
+import fs from 'node:fs/promises';
+import type { ModuleInfo } from '../../types/index.js';
+import { IndexCache } from '../IndexCache.js';
+import { extractModuleInfo } from '../../analyzers/index.js';
+
+// Only files under this size are read; larger ones are indexed by size alone
+const MAX_READ_SIZE = 100000;
+
+/** One file to index, as sent to a worker */
+export interface FileTask {
+  index: number;
+  path: string;
+  fullPath: string;
+  language?: string;
+  maxFileSize: number;
+  /** Content hash from the cached index; a match skips parsing */
+  knownHash?: string;
+  /** Whether the content is sent back, or dropped once parsed to stay under the memory ceiling */
+  keepContent: boolean;
+}
+
+export interface FileResult {
+  index: number;
+  /** Missing since discovery or over `maxFileSize`; not part of the index */
+  skipped: boolean;
+  size: number;
+  hash?: string;
+  content?: string;
+  preview?: string;
+  /** Absent when the file could not be read or its hash matched `knownHash` */
+  info?: ModuleInfo;
+}
+
+/**
+ * Reads, hashes and parses one file. Runs unchanged in a worker thread or
+ * on the main thread, and never throws: unreadable files come back
+ * without content, vanished ones as skipped.
+ */
+export async function processFile(task: FileTask): Promise<FileResult> {
+  let size: number;
+  try {
+    size = (await fs.stat(task.fullPath)).size;
+  } catch {
+    // Deleted between discovery and indexing
+    return { index: task.index, skipped: true, size: 0 };
+  }
+  if (size > task.maxFileSize) return { index: task.index, skipped: true, size };
+  if (!task.language || size >= MAX_READ_SIZE) return { index: task.index, skipped: false, size };
+
+  let content: string;
+  try {
+    content = await fs.readFile(task.fullPath, 'utf-8');
+  } catch {
+    // Skip files that can't be read
+    return { index: task.index, skipped: false, size };
+  }
+
+  const hash = IndexCache.hashContent(content);
+  return {
+    index: task.index,
+    skipped: false,
+    size,
+    hash,
+    content: task.keepContent ? content : undefined,
+    preview: content.split('\n').slice(0, 5).join('\n'),
+    info: hash === task.knownHash ? undefined : extractModuleInfo(content, task.language, task.path),
+  };
+}
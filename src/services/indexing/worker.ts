@@ -0,0 +1,7 @@
+import { parentPort } from 'node:worker_threads';
+import { processFile, type FileTask } from './fileTask.js';
+
+// Entry point of an indexing worker: one result message per task message
+parentPort?.on('message', async (task: FileTask) => {
+  parentPort!.postMessage(await processFile(task));
+});
@@ -0,0 +1,63 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import type { GenerateOptions } from '../../types/index.js';
+
+export interface Fixture {
+  stage: string;
+  provider: string;
+  model: string;
+  prompt: string;
+  json: boolean;
+  response: string;
+}
+
+/**
+ * Stores prompt/response pairs as one JSON file per prompt so recorded runs
+ * can be diffed, reviewed and committed alongside the code they exercise.
+ */
+export class FixtureStore {
+  constructor(private dir: string) {}
+
+  async read(prompt: string, options: GenerateOptions = {}): Promise<Fixture | null> {
+    try {
+      const raw = await fs.readFile(this.fixturePath(options.stage || 'prompt', prompt, Boolean(options.json)), 'utf-8');
+      return JSON.parse(raw) as Fixture;
+    } catch {
+      return null;
+    }
+  }
+
+  async write(fixture: Fixture): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const filePath = this.fixturePath(fixture.stage, fixture.prompt, fixture.json);
+    await fs.writeFile(filePath, JSON.stringify(fixture, null, 2) + '\n', 'utf-8');
+  }
+
+  async readTokenCount(text: string): Promise<number | null> {
+    try {
+      const raw = await fs.readFile(this.tokenPath(text), 'utf-8');
+      return JSON.parse(raw).tokens;
+    } catch {
+      return null;
+    }
+  }
+
+  async writeTokenCount(text: string, tokens: number): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(this.tokenPath(text), JSON.stringify({ tokens }) + '\n', 'utf-8');
+  }
+
+  fixturePath(stage: string, prompt: string, json: boolean): string {
+    const hash = this.hash(`${json ? 'json' : 'text'}\n${prompt}`);
+    return path.join(this.dir, `${stage}-${hash}.json`);
+  }
+
+  private tokenPath(text: string): string {
+    return path.join(this.dir, `tokens-${this.hash(text)}.json`);
+  }
+
+  private hash(text: string): string {
+    return crypto.createHash('sha256').update(text).digest('hex').slice(0, 16);
+  }
+}
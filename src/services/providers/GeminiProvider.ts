@@ -0,0 +1,79 @@
+import {
+  GoogleGenerativeAI,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIResponseError,
+  type GenerativeModel,
+} from '@google/generative-ai';
+import type { Config, GenerateOptions, LLMProvider, OutputSchema } from '../../types/index.js';
+import { generateStructured } from './structured.js';
+import { errorFromStatus, LLMError, SafetyBlockError, toLLMError } from './errors.js';
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  readonly model: string;
+  private genAI: GoogleGenerativeAI;
+
+  constructor(config: Config) {
+    this.model = config.model;
+    this.genAI = new GoogleGenerativeAI(config.apiKey);
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    try {
+      const result = await this.getModel(options).generateContent(prompt, { signal: options.signal });
+      const response = await result.response;
+      return response.text();
+    } catch (error) {
+      throw this.classify(error);
+    }
+  }
+
+  async *stream(prompt: string, options: GenerateOptions = {}): AsyncIterable<string> {
+    try {
+      const result = await this.getModel(options).generateContentStream(prompt, { signal: options.signal });
+      for await (const chunk of result.stream) {
+        yield chunk.text();
+      }
+    } catch (error) {
+      throw this.classify(error);
+    }
+  }
+
+  async generateStructured<T>(prompt: string, schema: OutputSchema<T>, options: GenerateOptions = {}): Promise<T> {
+    return generateStructured(this, prompt, schema, options);
+  }
+
+  async countTokens(text: string): Promise<number> {
+    try {
+      const { totalTokens } = await this.getModel().countTokens(text);
+      return totalTokens;
+    } catch (error) {
+      throw this.classify(error);
+    }
+  }
+
+  private classify(error: unknown): LLMError {
+    if (error instanceof GoogleGenerativeAIFetchError && error.status) {
+      // Quota errors carry a google.rpc.RetryInfo detail such as { retryDelay: '30s' }
+      const retryDelay = error.errorDetails
+        ?.map(d => (d as { retryDelay?: string }).retryDelay)
+        .find(Boolean);
+      const retryAfterMs = retryDelay ? parseFloat(retryDelay) * 1000 : undefined;
+      return errorFromStatus(error.status, error.message, retryAfterMs, error);
+    }
+    if (error instanceof GoogleGenerativeAIResponseError) {
+      return new SafetyBlockError(error.message, { cause: error });
+    }
+    return toLLMError(error);
+  }
+
+  private getModel(options: GenerateOptions = {}): GenerativeModel {
+    return this.genAI.getGenerativeModel({
+      model: this.model,
+      generationConfig: {
+        temperature: options.temperature,
+        responseMimeType: options.json ? 'application/json' : undefined,
+      },
+    });
+  }
+}
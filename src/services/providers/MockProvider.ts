@@ -0,0 +1,125 @@
+import fs from 'node:fs';
+import type { GenerateOptions, LLMProvider, OutputSchema, PromptStage } from '../../types/index.js';
+import { estimateTokens } from './utils.js';
+import { generateStructured } from './structured.js';
+
+/**
+ * Canned response for a prompt stage: a literal string, a JSON value, or a
+ * function of the prompt for responses that must echo project paths.
+ */
+export type MockResponse = string | object | ((prompt: string) => string | object);
+
+export type MockScript = Partial<Record<PromptStage | 'prompt', MockResponse>>;
+
+/**
+ * Deterministic offline provider. Every stage has a default answer shaped
+ * like a real model's so the full analysis pipeline and every screen can run
+ * without a network connection; a script file or object overrides stages.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly model = 'mock';
+  private script: MockScript;
+
+  constructor(script: MockScript = {}) {
+    this.script = { ...DEFAULT_SCRIPT, ...script };
+  }
+
+  static fromFile(scriptPath: string): MockProvider {
+    const script = JSON.parse(fs.readFileSync(scriptPath, 'utf-8')) as MockScript;
+    return new MockProvider(script);
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    options.signal?.throwIfAborted();
+    const response = this.script[options.stage || 'prompt'] ?? this.script.prompt ?? '';
+    const value = typeof response === 'function' ? response(prompt) : response;
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+
+  // Word-sized chunks so the UI exercises the same incremental path as a live stream
+  async *stream(prompt: string, options: GenerateOptions = {}): AsyncIterable<string> {
+    const response = await this.generate(prompt, options);
+    for (const chunk of response.match(/\S+\s*|\s+/g) || []) {
+      options.signal?.throwIfAborted();
+      yield chunk;
+    }
+  }
+
+  async generateStructured<T>(prompt: string, schema: OutputSchema<T>, options: GenerateOptions = {}): Promise<T> {
+    return generateStructured(this, prompt, schema, options);
+  }
+
+  async countTokens(text: string): Promise<number> {
+    return estimateTokens(text);
+  }
+}
+
+// Pulls the file list out of a stage prompt. Paths are listed one per line,
+// optionally followed by " (language)".
+function listedPaths(prompt: string, afterMarker: string): string[] {
+  const start = prompt.indexOf(afterMarker);
+  if (start === -1) return [];
+  const paths: string[] = [];
+  for (const line of prompt.slice(start + afterMarker.length).split('\n').slice(1)) {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      if (paths.length > 0) break;
+      continue;
+    }
+    const match = trimmed.match(/^(\S+)(?: \([^)]*\))?$/);
+    if (!match) break;
+    paths.push(match[1]);
+  }
+  return paths;
+}
+
+const DEFAULT_SCRIPT: MockScript = {
+  architecture: {
+    frameworks: ['Mock Framework'],
+    runtimes: ['Node.js'],
+    folderLayout: 'Mock layout: source code under src/',
+    mainComponents: ['Mock component'],
+    controlFlow: 'Mock control flow from entry point to implementation',
+  },
+  'relevant-files': (prompt) => listedPaths(prompt, 'And these project files:').slice(0, 5),
+  'file-sections': (prompt) => {
+    const file = prompt.match(/^File: (.+)$/m)?.[1] || 'unknown';
+    return [{
+      lineStart: 1,
+      lineEnd: 20,
+      explanation: `Mock explanation of ${file}`,
+      whyRelevant: `Mock relevance of ${file}`,
+      connections: [],
+    }];
+  },
+  narration: (prompt) => [...prompt.matchAll(/^Step (\d+): (\S+) in (\S+)/gm)].map(m => ({
+    index: Number(m[1]),
+    explanation: `Mock narration of ${m[2]}`,
+    whyRelevant: `Mock relevance of ${m[3]}`,
+  })),
+  connections: 'Mock connections: the files above call each other in order.',
+  answer: 'Mock answer based on the analyzed files.',
+  analysis: {
+    overview: {
+      frameworks: ['Mock Framework'],
+      runtimes: ['Node.js'],
+      folderLayout: 'Mock layout',
+      mainComponents: [],
+      controlFlow: 'Mock control flow',
+    },
+    walkthrough: [],
+    answer: 'Mock answer based on the project context.',
+    citations: [],
+    uncertainties: [],
+    confidence: 'low',
+  },
+  qa: (prompt) => {
+    const file = prompt.match(/^--- (\S+)/m)?.[1];
+    return {
+      answer: file ? `Mock follow-up answer based on ${file}.` : 'Mock follow-up answer.',
+      citations: file ? [{ claim: `Mock claim about ${file}`, file, line: 1 }] : [],
+    };
+  },
+  prompt: '',
+};
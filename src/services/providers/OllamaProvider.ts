@@ -0,0 +1,68 @@
+import type { Config, GenerateOptions, LLMProvider, OutputSchema } from '../../types/index.js';
+import { estimateTokens, readLines } from './utils.js';
+import { generateStructured } from './structured.js';
+import { errorFromStatus, parseRetryAfter } from './errors.js';
+
+/**
+ * Local model server speaking the Ollama `/api/generate` protocol.
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly name = 'ollama';
+  readonly model: string;
+  private baseUrl: string;
+
+  constructor(config: Config) {
+    this.model = config.model;
+    this.baseUrl = (config.baseUrl || 'http://localhost:11434').replace(/\/+$/, '');
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const response = await this.request(prompt, options, false);
+    const data = await response.json() as { response?: string };
+    return data.response || '';
+  }
+
+  async *stream(prompt: string, options: GenerateOptions = {}): AsyncIterable<string> {
+    const response = await this.request(prompt, options, true);
+    // Newline-delimited JSON: one { response, done } object per chunk
+    for await (const line of readLines(response)) {
+      if (!line.trim()) continue;
+      const chunk = JSON.parse(line) as { response?: string; done?: boolean };
+      if (chunk.response) yield chunk.response;
+      if (chunk.done) return;
+    }
+  }
+
+  private async request(prompt: string, options: GenerateOptions, stream: boolean): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/api/generate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      signal: options.signal,
+      body: JSON.stringify({
+        model: this.model,
+        prompt,
+        stream,
+        format: options.json ? 'json' : undefined,
+        options: options.temperature !== undefined ? { temperature: options.temperature } : undefined,
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw errorFromStatus(
+        response.status,
+        `Ollama request failed (${response.status}): ${body.slice(0, 500)}`,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+    return response;
+  }
+
+  async generateStructured<T>(prompt: string, schema: OutputSchema<T>, options: GenerateOptions = {}): Promise<T> {
+    return generateStructured(this, prompt, schema, options);
+  }
+
+  async countTokens(text: string): Promise<number> {
+    return estimateTokens(text);
+  }
+}
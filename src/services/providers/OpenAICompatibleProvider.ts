@@ -0,0 +1,91 @@
+import type { Config, GenerateOptions, LLMProvider, OutputSchema } from '../../types/index.js';
+import { estimateTokens, readLines } from './utils.js';
+import { generateStructured } from './structured.js';
+import { errorFromStatus, parseRetryAfter, SafetyBlockError } from './errors.js';
+
+/**
+ * Talks to any server implementing the OpenAI `/chat/completions` API
+ * (OpenAI itself, vLLM, LM Studio, LiteLLM, Azure-style gateways, ...).
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey: string;
+
+  constructor(config: Config) {
+    this.model = config.model;
+    this.baseUrl = (config.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const response = await this.request(prompt, options, false);
+    const data = await response.json() as {
+      choices?: Array<{ message?: { content?: string }; finish_reason?: string }>;
+    };
+    const choice = data.choices?.[0];
+    if (choice?.finish_reason === 'content_filter') {
+      throw new SafetyBlockError('Response was blocked by the endpoint\'s content filter');
+    }
+    return choice?.message?.content || '';
+  }
+
+  async *stream(prompt: string, options: GenerateOptions = {}): AsyncIterable<string> {
+    const response = await this.request(prompt, options, true);
+    // Server-sent events: one "data: {json}" line per delta, ending with "data: [DONE]"
+    for await (const line of readLines(response)) {
+      if (!line.startsWith('data:')) continue;
+      const payload = line.slice(5).trim();
+      if (payload === '[DONE]') return;
+
+      const event = JSON.parse(payload) as {
+        choices?: Array<{ delta?: { content?: string }; finish_reason?: string }>;
+      };
+      const choice = event.choices?.[0];
+      if (choice?.finish_reason === 'content_filter') {
+        throw new SafetyBlockError('Response was blocked by the endpoint\'s content filter');
+      }
+      if (choice?.delta?.content) yield choice.delta.content;
+    }
+  }
+
+  private async request(prompt: string, options: GenerateOptions, stream: boolean): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal: options.signal,
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: options.temperature,
+        response_format: options.json ? { type: 'json_object' } : undefined,
+        stream,
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw errorFromStatus(
+        response.status,
+        `OpenAI-compatible request failed (${response.status}): ${body.slice(0, 500)}`,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+    return response;
+  }
+
+  async generateStructured<T>(prompt: string, schema: OutputSchema<T>, options: GenerateOptions = {}): Promise<T> {
+    return generateStructured(this, prompt, schema, options);
+  }
+
+  async countTokens(text: string): Promise<number> {
+    // The chat completions API has no tokenizer endpoint
+    return estimateTokens(text);
+  }
+}
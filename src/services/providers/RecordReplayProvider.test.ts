@@ -0,0 +1,60 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { z } from 'zod';
+import { MockProvider } from './MockProvider.js';
+import { RecordingProvider, ReplayProvider } from './RecordReplayProvider.js';
+
+let dir: string;
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'explain-fixtures-'));
+});
+
+after(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+test('replays recorded responses byte-for-byte', async () => {
+  const live = new MockProvider({ answer: 'Recorded answer', architecture: { layers: ['ui', 'services'] } });
+  const recording = new RecordingProvider(live, dir);
+
+  const text = await recording.generate('Why?', { stage: 'answer' });
+  let streamed = '';
+  for await (const chunk of recording.stream('Stream it', { stage: 'answer' })) streamed += chunk;
+  const structured = await recording.generateStructured(
+    'Describe it',
+    z.object({ layers: z.array(z.string()) }),
+    { stage: 'architecture' }
+  );
+  const tokens = await recording.countTokens('some text to count');
+
+  const replay = new ReplayProvider(dir);
+  assert.equal(await replay.generate('Why?', { stage: 'answer' }), text);
+  let replayed = '';
+  for await (const chunk of replay.stream('Stream it', { stage: 'answer' })) replayed += chunk;
+  assert.equal(replayed, streamed);
+  assert.deepEqual(
+    await replay.generateStructured('Describe it', z.object({ layers: z.array(z.string()) }), { stage: 'architecture' }),
+    structured
+  );
+  assert.equal(await replay.countTokens('some text to count'), tokens);
+});
+
+test('fails loudly on a prompt that was never recorded', async () => {
+  const replay = new ReplayProvider(dir);
+  await assert.rejects(replay.generate('A prompt nobody recorded', { stage: 'answer' }), /No recorded fixture for answer stage/);
+});
+
+test('keys fixtures by stage and prompt', async () => {
+  const recording = new RecordingProvider(new MockProvider({ answer: 'from answer', qa: 'from qa' }), dir);
+  await recording.generate('Same prompt', { stage: 'answer' });
+  await recording.generate('Same prompt', { stage: 'qa' });
+
+  const replay = new ReplayProvider(dir);
+  assert.equal(await replay.generate('Same prompt', { stage: 'answer' }), 'from answer');
+  assert.equal(await replay.generate('Same prompt', { stage: 'qa' }), 'from qa');
+  await assert.rejects(replay.generate('Same prompt!', { stage: 'qa' }));
+});
@@ -0,0 +1,100 @@
+import type { GenerateOptions, LLMProvider, OutputSchema } from '../../types/index.js';
+import { FixtureStore } from './FixtureStore.js';
+import { estimateTokens } from './utils.js';
+import { generateStructured } from './structured.js';
+
+/**
+ * Wraps a live provider and writes every prompt/response pair to the
+ * fixtures directory so the run can be replayed offline later.
+ */
+export class RecordingProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private store: FixtureStore;
+
+  constructor(private inner: LLMProvider, fixturesDir: string) {
+    this.name = inner.name;
+    this.model = inner.model;
+    this.store = new FixtureStore(fixturesDir);
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const response = await this.inner.generate(prompt, options);
+    await this.store.write({
+      stage: options.stage || 'prompt',
+      provider: this.inner.name,
+      model: this.inner.model,
+      prompt,
+      json: Boolean(options.json),
+      response,
+    });
+    return response;
+  }
+
+  // Only a stream that ran to completion is recorded; a cancelled one would
+  // replay as a truncated answer
+  async *stream(prompt: string, options: GenerateOptions = {}): AsyncIterable<string> {
+    let response = '';
+    for await (const chunk of this.inner.stream(prompt, options)) {
+      response += chunk;
+      yield chunk;
+    }
+    await this.store.write({
+      stage: options.stage || 'prompt',
+      provider: this.inner.name,
+      model: this.inner.model,
+      prompt,
+      json: Boolean(options.json),
+      response,
+    });
+  }
+
+  async generateStructured<T>(prompt: string, schema: OutputSchema<T>, options: GenerateOptions = {}): Promise<T> {
+    return generateStructured(this, prompt, schema, options);
+  }
+
+  async countTokens(text: string): Promise<number> {
+    const tokens = await this.inner.countTokens(text);
+    await this.store.writeTokenCount(text, tokens);
+    return tokens;
+  }
+}
+
+/**
+ * Serves responses captured by RecordingProvider byte-for-byte. A prompt
+ * that was never recorded is an error rather than a silent fallback, so
+ * prompt changes show up as failing replays.
+ */
+export class ReplayProvider implements LLMProvider {
+  readonly name = 'replay';
+  readonly model = 'replay';
+  private store: FixtureStore;
+
+  constructor(fixturesDir: string) {
+    this.store = new FixtureStore(fixturesDir);
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const fixture = await this.store.read(prompt, options);
+    if (!fixture) {
+      const stage = options.stage || 'prompt';
+      throw new Error(
+        `No recorded fixture for ${stage} stage: ${this.store.fixturePath(stage, prompt, Boolean(options.json))}`
+      );
+    }
+    return fixture.response;
+  }
+
+  async *stream(prompt: string, options: GenerateOptions = {}): AsyncIterable<string> {
+    yield await this.generate(prompt, options);
+  }
+
+  async generateStructured<T>(prompt: string, schema: OutputSchema<T>, options: GenerateOptions = {}): Promise<T> {
+    return generateStructured(this, prompt, schema, options);
+  }
+
+  async countTokens(text: string): Promise<number> {
+    const recorded = await this.store.readTokenCount(text);
+    return recorded ?? estimateTokens(text);
+  }
+}
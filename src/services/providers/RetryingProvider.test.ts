@@ -0,0 +1,136 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { GenerateOptions, LLMProvider } from '../../types/index.js';
+import { RetryingProvider, type RetryPolicy } from './RetryingProvider.js';
+import { AuthError, BudgetExceededError, QuotaError, TimeoutError, TransientError } from './errors.js';
+import { generateStructured } from './structured.js';
+
+const POLICY: RetryPolicy = { maxRetries: 3, baseDelayMs: 100, maxDelayMs: 1000, timeoutMs: 0, maxRequests: 10 };
+
+// A provider answering each call with the next of `outcomes`: text, or an error to throw
+function scripted(outcomes: Array<string | Error | ((options: GenerateOptions) => Promise<string>)>) {
+  const calls: GenerateOptions[] = [];
+  const provider: LLMProvider = {
+    name: 'scripted',
+    model: 'scripted',
+    async generate(_prompt, options = {}) {
+      calls.push(options);
+      const outcome = outcomes[Math.min(calls.length - 1, outcomes.length - 1)];
+      if (typeof outcome === 'function') return outcome(options);
+      if (outcome instanceof Error) throw outcome;
+      return outcome;
+    },
+    async *stream(prompt, options = {}) {
+      yield await this.generate(prompt, options);
+    },
+    async generateStructured(prompt, schema, options) {
+      return generateStructured(this, prompt, schema, options);
+    },
+    async countTokens(text) {
+      return text.length;
+    },
+  };
+  return { provider, calls };
+}
+
+function recordingSleep() {
+  const delays: number[] = [];
+  return { delays, sleep: async (ms: number) => { delays.push(ms); } };
+}
+
+test('retries transient failures with backoff until one succeeds', async () => {
+  const { provider, calls } = scripted([new TransientError('503'), new TransientError('503'), 'ok']);
+  const { delays, sleep } = recordingSleep();
+  const retrying = new RetryingProvider(provider, POLICY, sleep);
+
+  assert.equal(await retrying.generate('prompt'), 'ok');
+  assert.equal(calls.length, 3);
+  assert.equal(delays.length, 2);
+  // Full jitter: each delay is below that attempt's exponential ceiling
+  assert.ok(delays[0] < 100 && delays[1] < 200);
+  assert.equal(retrying.requestCount, 3);
+});
+
+test('waits as long as the server asks, but gives up on waits beyond maxDelayMs', async () => {
+  const hinted = scripted([new QuotaError('429', { retryAfterMs: 750 }), 'ok']);
+  const { delays, sleep } = recordingSleep();
+  assert.equal(await new RetryingProvider(hinted.provider, POLICY, sleep).generate('prompt'), 'ok');
+  assert.deepEqual(delays, [750]);
+
+  const exhausted = scripted([new QuotaError('daily quota', { retryAfterMs: 3_600_000 })]);
+  await assert.rejects(new RetryingProvider(exhausted.provider, POLICY, sleep).generate('prompt'), QuotaError);
+  assert.equal(exhausted.calls.length, 1);
+});
+
+test('does not retry failures another attempt cannot fix', async () => {
+  const { provider, calls } = scripted([new AuthError('bad key', { status: 401 })]);
+  await assert.rejects(new RetryingProvider(provider, POLICY, recordingSleep().sleep).generate('prompt'), AuthError);
+  assert.equal(calls.length, 1);
+});
+
+test('stops after maxRetries', async () => {
+  const { provider, calls } = scripted([new TransientError('503')]);
+  await assert.rejects(new RetryingProvider(provider, POLICY, recordingSleep().sleep).generate('prompt'), TransientError);
+  assert.equal(calls.length, POLICY.maxRetries + 1);
+});
+
+test('counts retries against the request budget', async () => {
+  const { provider, calls } = scripted([new TransientError('503'), new TransientError('503'), 'ok']);
+  const retrying = new RetryingProvider(provider, { ...POLICY, maxRequests: 2 }, recordingSleep().sleep);
+
+  await assert.rejects(retrying.generate('prompt'), BudgetExceededError);
+  assert.equal(calls.length, 2);
+  // Token counts are free
+  assert.equal(await retrying.countTokens('abc'), 3);
+});
+
+test('aborts a request that timed out', async () => {
+  let aborted = false;
+  const { provider } = scripted([
+    options => new Promise((_, reject) => {
+      options.signal!.addEventListener('abort', () => {
+        aborted = true;
+        reject(new Error('aborted'));
+      });
+    }),
+  ]);
+  const retrying = new RetryingProvider(provider, { ...POLICY, timeoutMs: 20 }, recordingSleep().sleep);
+
+  await assert.rejects(retrying.generate('prompt'), TimeoutError);
+  assert.ok(aborted);
+});
+
+test('passes a caller abort through without retrying', async () => {
+  const controller = new AbortController();
+  const { provider, calls } = scripted([
+    options => new Promise((_, reject) => {
+      options.signal!.addEventListener('abort', () => reject(new TransientError('socket closed')));
+      controller.abort();
+    }),
+  ]);
+  const retrying = new RetryingProvider(provider, POLICY, recordingSleep().sleep);
+
+  await assert.rejects(retrying.generate('prompt', { signal: controller.signal }), TransientError);
+  assert.equal(calls.length, 1);
+});
+
+test('retries a stream only until its first chunk', async () => {
+  let attempts = 0;
+  const provider: LLMProvider = {
+    ...scripted([]).provider,
+    async *stream() {
+      attempts++;
+      if (attempts === 1) throw new TransientError('503');
+      yield 'first ';
+      throw new TransientError('connection reset');
+    },
+  };
+  const retrying = new RetryingProvider(provider, POLICY, recordingSleep().sleep);
+
+  const chunks: string[] = [];
+  await assert.rejects(async () => {
+    for await (const chunk of retrying.stream('prompt')) chunks.push(chunk);
+  }, TransientError);
+  assert.deepEqual(chunks, ['first ']);
+  assert.equal(attempts, 2);
+});
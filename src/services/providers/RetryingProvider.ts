@@ -0,0 +1,150 @@
+import type { GenerateOptions, LLMProvider, OutputSchema } from '../../types/index.js';
+import { withTimeout } from '../../utils/concurrency.js';
+import { BudgetExceededError, LLMError, toLLMError } from './errors.js';
+import { generateStructured } from './structured.js';
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs: number;
+  maxRequests: number;
+}
+
+/**
+ * The single choke point for model calls: per-attempt timeouts, exponential
+ * backoff with full jitter, server Retry-After hints, and a request budget
+ * that caps how many calls one analysis may make. Every failure leaves as
+ * an LLMError so callers and the UI can react to its kind.
+ */
+export class RetryingProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private requests = 0;
+
+  constructor(
+    private inner: LLMProvider,
+    private policy: RetryPolicy,
+    private sleep: (ms: number) => Promise<void> = (ms) => new Promise(resolve => setTimeout(resolve, ms))
+  ) {
+    this.name = inner.name;
+    this.model = inner.model;
+  }
+
+  get requestCount(): number {
+    return this.requests;
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const label = `${options.stage || 'model'} request`;
+    return this.call(label, signal => this.inner.generate(prompt, { ...options, signal }), true, options.signal);
+  }
+
+  /**
+   * Streams are retried only until the first chunk arrives: once text has
+   * been shown it cannot be taken back, so later failures propagate. The
+   * timeout applies to the gap between chunks rather than the whole reply.
+   */
+  async *stream(prompt: string, options: GenerateOptions = {}): AsyncIterable<string> {
+    const label = `${options.stage || 'model'} stream`;
+    for (let attempt = 0; ; attempt++) {
+      this.spend();
+      const request = attemptSignal(options.signal);
+      const iterator = this.inner.stream(prompt, { ...options, signal: request.signal })[Symbol.asyncIterator]();
+      let started = false;
+      try {
+        for (;;) {
+          const next = await withTimeout(iterator.next(), this.policy.timeoutMs, label);
+          if (next.done) return;
+          started = true;
+          yield next.value;
+        }
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        const llmError = toLLMError(error);
+        if (started) throw llmError;
+        await this.sleep(this.retryDelay(attempt, llmError));
+      } finally {
+        // After a timeout the stalled next() is still pending, and awaiting
+        // return() would wait for it; abort the request and close in the background
+        request.end();
+        iterator.return?.().catch(() => undefined);
+      }
+    }
+  }
+
+  async generateStructured<T>(prompt: string, schema: OutputSchema<T>, options: GenerateOptions = {}): Promise<T> {
+    return generateStructured(this, prompt, schema, options);
+  }
+
+  async countTokens(text: string): Promise<number> {
+    // Token counting is free on every provider, so it does not spend the budget
+    return this.call('token count', () => this.inner.countTokens(text), false);
+  }
+
+  private async call<T>(
+    label: string,
+    fn: (signal: AbortSignal) => Promise<T>,
+    countsTowardBudget = true,
+    signal?: AbortSignal
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      if (countsTowardBudget) {
+        this.spend();
+      }
+
+      const request = attemptSignal(signal);
+      try {
+        return await withTimeout(fn(request.signal), this.policy.timeoutMs, label);
+      } catch (error) {
+        // A caller that cancelled wants the abort, not another attempt
+        if (signal?.aborted) throw error;
+        await this.sleep(this.retryDelay(attempt, toLLMError(error)));
+      } finally {
+        // A timed-out request would otherwise keep running next to its retry
+        request.end();
+      }
+    }
+  }
+
+  private spend(): void {
+    if (this.requests >= this.policy.maxRequests) {
+      throw new BudgetExceededError(this.policy.maxRequests);
+    }
+    this.requests++;
+  }
+
+  /** How long to wait before the next attempt; throws `error` if there should be none. */
+  private retryDelay(attempt: number, error: LLMError): number {
+    if (!error.retryable || attempt >= this.policy.maxRetries) {
+      throw error;
+    }
+    // A server asking us to wait longer than we ever would (daily quota
+    // exhausted) will not recover within this analysis
+    if (error.retryAfterMs !== undefined && error.retryAfterMs > this.policy.maxDelayMs) {
+      throw error;
+    }
+    return this.delayFor(attempt, error);
+  }
+
+  private delayFor(attempt: number, error: LLMError): number {
+    if (error.retryAfterMs !== undefined) {
+      return error.retryAfterMs;
+    }
+    const ceiling = Math.min(this.policy.maxDelayMs, this.policy.baseDelayMs * 2 ** attempt);
+    return Math.random() * ceiling;
+  }
+}
+
+/**
+ * The signal for one attempt at a model call: aborted with the caller's
+ * signal, or by `end` once the attempt is over, so a request that timed out
+ * stops instead of running on unseen.
+ */
+function attemptSignal(caller?: AbortSignal): { signal: AbortSignal; end: () => void } {
+  const request = new AbortController();
+  return {
+    signal: caller ? AbortSignal.any([caller, request.signal]) : request.signal,
+    end: () => request.abort(),
+  };
+}
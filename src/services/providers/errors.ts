@@ -0,0 +1,125 @@
+import type { LLMErrorKind } from '../../types/index.js';
+
+/**
+ * Base class for every failure coming out of a model call. `retryable`
+ * tells the retry wrapper whether another attempt can succeed;
+ * `retryAfterMs` carries a server-provided delay when there is one.
+ */
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind;
+  readonly retryable: boolean;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    kind: LLMErrorKind,
+    message: string,
+    options: { retryable?: boolean; status?: number; retryAfterMs?: number; cause?: unknown } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.retryable = options.retryable ?? false;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export class AuthError extends LLMError {
+  constructor(message: string, options: { status?: number; cause?: unknown } = {}) {
+    super('auth', message, options);
+    this.name = 'AuthError';
+  }
+}
+
+export class QuotaError extends LLMError {
+  constructor(message: string, options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+    super('quota', message, { ...options, retryable: true });
+    this.name = 'QuotaError';
+  }
+}
+
+export class SafetyBlockError extends LLMError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super('safety', message, options);
+    this.name = 'SafetyBlockError';
+  }
+}
+
+export class TimeoutError extends LLMError {
+  constructor(label: string, ms: number) {
+    super('timeout', `${label} timed out after ${Math.round(ms / 1000)}s`);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class MalformedOutputError extends LLMError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super('malformed', message, options);
+    this.name = 'MalformedOutputError';
+  }
+}
+
+export class TransientError extends LLMError {
+  constructor(message: string, options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+    super('transient', message, { ...options, retryable: true });
+    this.name = 'TransientError';
+  }
+}
+
+export class BudgetExceededError extends LLMError {
+  constructor(limit: number) {
+    super('budget', `Request budget of ${limit} model calls for this analysis was exhausted`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Maps an HTTP status from a model endpoint to the error taxonomy.
+ */
+export function errorFromStatus(
+  status: number,
+  message: string,
+  retryAfterMs?: number,
+  cause?: unknown
+): LLMError {
+  if (status === 401 || status === 403) {
+    return new AuthError(message, { status, cause });
+  }
+  if (status === 429) {
+    return new QuotaError(message, { status, retryAfterMs, cause });
+  }
+  if (status === 408 || status >= 500) {
+    return new TransientError(message, { status, retryAfterMs, cause });
+  }
+  return new LLMError('unknown', message, { status, cause });
+}
+
+/**
+ * Parses a Retry-After header, which is either delta-seconds or an HTTP date.
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Best-effort classification for errors that did not originate from our
+ * providers' own checks (network failures, SDK exceptions).
+ */
+export function toLLMError(error: unknown): LLMError {
+  if (error instanceof LLMError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const code = (error as { cause?: { code?: string } })?.cause?.code;
+  if (error instanceof TypeError && message.includes('fetch failed')) {
+    return new TransientError(`Network error: ${code || message}`, { cause: error });
+  }
+  if (code === 'ECONNRESET' || code === 'ETIMEDOUT' || code === 'EAI_AGAIN') {
+    return new TransientError(`Network error: ${code}`, { cause: error });
+  }
+  return new LLMError('unknown', message, { cause: error });
+}
@@ -0,0 +1,42 @@
+import type { Config, LLMProvider } from '../../types/index.js';
+import { GeminiProvider } from './GeminiProvider.js';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider.js';
+import { OllamaProvider } from './OllamaProvider.js';
+import { MockProvider } from './MockProvider.js';
+import { RecordingProvider, ReplayProvider } from './RecordReplayProvider.js';
+import { RetryingProvider } from './RetryingProvider.js';
+
+/**
+ * Builds the provider for one analysis run. The retry wrapper sits outermost
+ * so its request budget spans every call the run makes.
+ */
+export function createProvider(config: Config): LLMProvider {
+  let provider = createBaseProvider(config);
+  if (config.recordFixtures && config.provider !== 'replay' && config.provider !== 'mock') {
+    provider = new RecordingProvider(provider, config.fixturesDir);
+  }
+  return new RetryingProvider(provider, {
+    maxRetries: config.maxRetries,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+    timeoutMs: config.requestTimeoutMs,
+    maxRequests: config.maxRequestsPerRun,
+  });
+}
+
+function createBaseProvider(config: Config): LLMProvider {
+  switch (config.provider) {
+    case 'gemini':
+      return new GeminiProvider(config);
+    case 'openai':
+      return new OpenAICompatibleProvider(config);
+    case 'ollama':
+      return new OllamaProvider(config);
+    case 'mock':
+      return config.mockScript ? MockProvider.fromFile(config.mockScript) : new MockProvider();
+    case 'replay':
+      return new ReplayProvider(config.fixturesDir);
+    default:
+      throw new Error(`Unknown LLM provider: ${config.provider}`);
+  }
+}
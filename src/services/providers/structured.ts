@@ -0,0 +1,75 @@
+import type { ZodError } from 'zod';
+import type { GenerateOptions, LLMProvider, OutputSchema } from '../../types/index.js';
+import { MalformedOutputError } from './errors.js';
+import { extractJson } from './utils.js';
+
+// Re-prompts allowed after the first response fails validation
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Parses and validates `text` against `schema`. Returns the validated value
+ * or a human-readable description of what was wrong with it.
+ */
+export function parseStructured<T>(
+  text: string,
+  schema: OutputSchema<T>
+): { ok: true; value: T } | { ok: false; problem: string } {
+  let json: unknown;
+  try {
+    json = extractJson(text);
+  } catch (error) {
+    return { ok: false, problem: error instanceof Error ? error.message : String(error) };
+  }
+
+  const result = schema.safeParse(json);
+  return result.success
+    ? { ok: true, value: result.data }
+    : { ok: false, problem: describeIssues(result.error) };
+}
+
+/**
+ * Requests JSON output, validates it, and on failure re-prompts the model
+ * with the validation problems and its own previous answer, a bounded
+ * number of times. Throws MalformedOutputError when repair does not help.
+ */
+export async function generateStructured<T>(
+  provider: LLMProvider,
+  prompt: string,
+  schema: OutputSchema<T>,
+  options: GenerateOptions = {}
+): Promise<T> {
+  let text = await provider.generate(prompt, { ...options, json: true });
+  let parsed = parseStructured(text, schema);
+
+  for (let attempt = 0; !parsed.ok && attempt < MAX_REPAIR_ATTEMPTS; attempt++) {
+    text = await provider.generate(buildRepairPrompt(prompt, text, parsed.problem), { ...options, json: true });
+    parsed = parseStructured(text, schema);
+  }
+
+  if (!parsed.ok) {
+    throw new MalformedOutputError(
+      `${options.stage || 'Model'} output failed validation after ${MAX_REPAIR_ATTEMPTS} repair attempts: ${parsed.problem}`
+    );
+  }
+  return parsed.value;
+}
+
+function buildRepairPrompt(originalPrompt: string, previousResponse: string, problem: string): string {
+  return `${originalPrompt}
+
+---
+Your previous response could not be used:
+${problem}
+
+Previous response:
+${previousResponse.slice(0, 4000)}
+
+Respond again with ONLY valid JSON in exactly the requested format. No prose, no markdown fences.`;
+}
+
+function describeIssues(error: ZodError): string {
+  return error.issues
+    .slice(0, 10)
+    .map(issue => `- ${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('\n');
+}
@@ -0,0 +1,64 @@
+import { MalformedOutputError } from './errors.js';
+
+/**
+ * Pulls the first JSON object or array out of a model response. Models often
+ * wrap JSON in markdown fences or prose even when asked not to.
+ */
+export function extractJson<T = unknown>(text: string): T {
+  const trimmed = text.trim();
+  try {
+    return JSON.parse(trimmed) as T;
+  } catch {
+    // Fall through to fuzzy extraction
+  }
+
+  const objectStart = trimmed.indexOf('{');
+  const arrayStart = trimmed.indexOf('[');
+  const useArray = arrayStart !== -1 && (objectStart === -1 || arrayStart < objectStart);
+  const match = useArray
+    ? trimmed.match(/\[[\s\S]*\]/)
+    : trimmed.match(/\{[\s\S]*\}/);
+
+  if (!match) {
+    throw new MalformedOutputError('No JSON found in model response');
+  }
+  try {
+    return JSON.parse(match[0]) as T;
+  } catch (error) {
+    throw new MalformedOutputError('Model response contained invalid JSON', { cause: error });
+  }
+}
+
+/**
+ * Rough token estimate for providers without a tokenizer endpoint
+ * (~4 characters per token for English text and code).
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Yields the lines of a streaming HTTP response body as they arrive.
+ * Stopping iteration early cancels the underlying request.
+ */
+export async function* readLines(response: Response): AsyncIterable<string> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      yield* lines;
+    }
+    buffer += decoder.decode();
+    if (buffer) yield buffer;
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
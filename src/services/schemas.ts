@@ -0,0 +1,61 @@
+import { z } from 'zod';
+
+// Models sometimes return components as objects; normalize them to names
+const ComponentName = z.union([
+  z.string(),
+  z.object({ file: z.string().optional(), name: z.string().optional() }).passthrough(),
+]).transform(comp => (typeof comp === 'string' ? comp : comp.file || comp.name || JSON.stringify(comp)));
+
+export const ArchitectureOverviewSchema = z.object({
+  frameworks: z.array(z.string()),
+  runtimes: z.array(z.string()),
+  folderLayout: z.string().min(1),
+  mainComponents: z.array(ComponentName),
+  controlFlow: z.string().min(1),
+  packages: z.array(z.object({ name: z.string(), role: z.string().default('') })).default([]),
+});
+
+export const FileListSchema = z.array(z.string());
+
+export const FileSectionsSchema = z.array(z.object({
+  lineStart: z.number().int().positive(),
+  lineEnd: z.number().int().positive(),
+  explanation: z.string().min(1),
+  whyRelevant: z.string().min(1),
+  connections: z.array(z.string()).default([]),
+}));
+
+export const PathNarrationSchema = z.array(z.object({
+  index: z.number().int().nonnegative(),
+  explanation: z.string().min(1),
+  whyRelevant: z.string().min(1),
+}));
+
+export const CitationSchema = z.object({
+  claim: z.string(),
+  file: z.string().min(1),
+  line: z.number().int().positive(),
+});
+
+export const AnalysisResponseSchema = z.object({
+  overview: ArchitectureOverviewSchema,
+  walkthrough: z.array(z.object({
+    file: z.string().min(1),
+    lineRange: z.tuple([z.number().int().positive(), z.number().int().positive()]),
+    code: z.string().default(''),
+    explanation: z.string(),
+    whyRelevant: z.string(),
+    linksTo: z.array(z.string()).default([]),
+  })),
+  answer: z.string().min(1),
+  citations: z.array(CitationSchema).default([]),
+  uncertainties: z.array(z.string()).default([]),
+  confidence: z.enum(['high', 'medium', 'low']).catch('medium'),
+});
+
+export const QAResponseSchema = z.object({
+  answer: z.string().min(1),
+  citations: z.array(CitationSchema).default([]),
+});
+
+export type FileSection = z.infer<typeof FileSectionsSchema>[number];
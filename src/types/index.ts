@@ -1,3 +1,5 @@
+import type { ZodType, ZodTypeDef } from 'zod';
+
 // Removed AnalysisMode - always deep inspection now
 
 export type ScreenState = 
@@ -5,40 +7,230 @@ export type ScreenState =
   | 'scanning'
   | 'overview'
   | 'walkthrough'
+  | 'answer'
   | 'qa'
-  | 'results';
+  | 'results'
+  | 'viewer'
+  | 'search';
+
+export type ProviderName = 'gemini' | 'openai' | 'ollama' | 'mock' | 'replay';
 
 export interface Config {
   apiKey: string;
+  provider: ProviderName;
   model: string;
+  baseUrl?: string;
+  fixturesDir: string;
+  recordFixtures: boolean;
+  mockScript?: string;
   debug: boolean;
   cacheDir?: string;
+  useCache: boolean;
   maxFileSize: number;
-  maxContextSize: number;
+  maxContextTokens: number;
+  maxFileTokens: number;
+  analysisConcurrency: number;
+  /** Custom framework detectors, relative to the project root */
+  detectorsFile: string;
+  /** Worker threads used for indexing; 0 indexes on the main thread */
+  indexWorkers: number;
+  /** File content kept in memory across the index, in bytes; files past it are read again on demand */
+  indexMemoryLimit: number;
+  /** Keep the index live while the TUI is open, updating it as files change on disk */
+  watch: boolean;
+  requestTimeoutMs: number;
+  maxRetries: number;
+  maxRequestsPerRun: number;
 }
 
 export interface ProjectFile {
   path: string;
   size: number;
+  hash?: string;
   language?: string;
   content?: string;
   preview?: string;
   isEntry?: boolean;
-  imports?: string[];
-  exports?: string[];
+  entrySignals?: EntrySignal[];
+  namespaces?: string[];
+  imports?: ImportRecord[];
+  exports?: ExportRecord[];
+  definitions?: SymbolDefinition[];
+  usages?: SymbolUsage[];
+}
+
+export type ImportKind = 'static' | 'type' | 'dynamic' | 'require' | 're-export';
+
+/** Where an import leads: a project file, a runtime builtin, a third-party package, or nowhere found */
+export type ImportTarget = 'file' | 'builtin' | 'external' | 'unresolved';
+
+export interface ImportRecord {
+  /** Module specifier as written, e.g. `./utils.js`, `react`, `..models` or `<stdio.h>` */
+  source: string;
+  /** Imported bindings by their exported name; `default` and `*` for default and namespace imports */
+  names: string[];
+  kind: ImportKind;
+  line: number;
+  /** Local binding for each entry of `names`, where the import creates one */
+  locals?: string[];
+  target?: ImportTarget;
+  /** Project-relative path for `file`, package name for `external`, module name for `builtin` */
+  resolved?: string;
+  /** Every project file of an imported package or namespace (Go, C#, Java wildcards); `resolved` is the first */
+  files?: string[];
+}
+
+export type ExportKind =
+  | 'function'
+  | 'class'
+  | 'variable'
+  | 'type'
+  | 'interface'
+  | 'enum'
+  | 'namespace'
+  | 'default'
+  | 'named'
+  | 're-export';
+
+export interface ExportRecord {
+  name: string;
+  kind: ExportKind;
+  line: number;
+  /** Module the symbol is re-exported from */
+  source?: string;
+}
+
+export type SymbolKind = 'function' | 'class' | 'method' | 'interface' | 'type' | 'enum' | 'component';
+
+export interface SymbolDefinition {
+  name: string;
+  kind: SymbolKind;
+  /** Enclosing class, for methods */
+  container?: string;
+  lineStart: number;
+  lineEnd: number;
+  exported: boolean;
+}
+
+/** A mention of a name that may refer to a definition in this or another file. */
+export interface SymbolUsage {
+  name: string;
+  line: number;
+  /** `this`, or the binding the name was accessed on (`ns` in `ns.fn()`) */
+  qualifier?: string;
+  /** Qualified name of the enclosing definition, e.g. `Parser.parse` */
+  caller?: string;
+}
+
+export interface ModuleInfo {
+  imports: ImportRecord[];
+  exports: ExportRecord[];
+  definitions: SymbolDefinition[];
+  usages: SymbolUsage[];
+  entrySignals?: EntrySignal[];
+  /** Packages or namespaces the file declares its contents in (Java, Kotlin, C#, PHP) */
+  namespaces?: string[];
+}
+
+/** How an entry point was found; the overview groups entry points by it */
+export type EntryPointKind = 'bin' | 'main' | 'export' | 'script' | 'route' | 'framework' | 'container' | 'test';
+
+export interface EntryPoint {
+  /** Project-relative file, or directory for test roots */
+  path: string;
+  kind: EntryPointKind;
+  /** What declared it, e.g. `bin explain`, `npm run dev` or `Next.js` */
+  source: string;
+}
+
+/** An entry point a file declares in its own source, like a `__main__` guard */
+export type EntrySignal = Omit<EntryPoint, 'path'>;
+
+export interface ProjectSymbol extends SymbolDefinition {
+  /** `file#Container.name`, unique across the project */
+  id: string;
+  file: string;
+}
+
+export interface SymbolReference {
+  file: string;
+  line: number;
+  caller?: string;
+}
+
+export interface SymbolIndex {
+  symbols: ProjectSymbol[];
+  /** References to each symbol by id, from other files and the symbol's own file */
+  references: Map<string, SymbolReference[]>;
 }
 
 export interface IndexedProject {
   root: string;
   name: string;
   files: ProjectFile[];
-  entryPoints: string[];
+  entryPoints: EntryPoint[];
   frameworks: string[];
+  /** Runtimes the manifests and detected frameworks imply, e.g. Node.js or Python */
+  runtimes: string[];
+  detections: FrameworkDetection[];
   languages: Set<string>;
   importGraph: Map<string, string[]>;
+  symbols: SymbolIndex;
+  workspace: Workspace;
   totalSize: number;
 }
 
+/** Monorepo tooling a workspace was recognised from */
+export type WorkspaceTool = 'npm' | 'yarn' | 'pnpm' | 'nx' | 'turborepo' | 'cargo' | 'go';
+
+export interface WorkspacePackage {
+  name: string;
+  /** Project-relative directory, `.` for the root */
+  dir: string;
+  ecosystem: 'node' | 'rust' | 'go';
+  frameworks: string[];
+  entryPoints: string[];
+  /** Other packages of the workspace this one depends on, by name */
+  dependencies: string[];
+}
+
+export interface Workspace {
+  tools: WorkspaceTool[];
+  /** Member packages; empty for a single-package project */
+  packages: WorkspacePackage[];
+}
+
+/** Package ecosystems whose manifests detectors can match dependencies from */
+export type DependencyEcosystem = 'npm' | 'pypi' | 'go' | 'cargo' | 'gem' | 'composer' | 'maven';
+
+/**
+ * Recognises one framework. It matches a directory when a manifest there
+ * declares one of `dependencies` or a file there matches one of `files`.
+ * Dependency names and file paths may be globs; paths are relative to
+ * the manifest's directory.
+ */
+export interface FrameworkDetector {
+  name: string;
+  runtime: string;
+  dependencies?: Partial<Record<DependencyEcosystem, string[]>>;
+  files?: string[];
+  /** Files declaring the framework's routes or pages */
+  routes?: string[];
+  /** Other framework-specific entry points, like a main process or bootstrap module */
+  entryPoints?: string[];
+}
+
+export interface FrameworkDetection {
+  name: string;
+  /** Version declared for the matched dependency, when pinned */
+  version?: string;
+  runtime: string;
+  /** Project-relative directory of the manifest it was found through, `.` for the root */
+  dir: string;
+  routes: string[];
+  entryPoints: string[];
+}
+
 export interface CodeSpan {
   file: string;
   startLine: number;
@@ -56,6 +248,10 @@ export interface WalkthroughStep {
   explanation: string;
   whyRelevant: string;
   linksTo?: string[];
+  /** Qualified name of the function or class the step covers, when it was snapped to one */
+  symbol?: string;
+  /** Set in watch mode once the file changed within `lineRange` after the step was generated */
+  stale?: boolean;
 }
 
 export interface ArchitectureOverview {
@@ -64,18 +260,100 @@ export interface ArchitectureOverview {
   folderLayout: string;
   mainComponents: string[];
   controlFlow: string;
+  /** Workspace packages with their role and internal dependencies, for monorepos */
+  packages?: Array<{ name: string; role: string; dependsOn: string[] }>;
+  /** Locally discovered entry points, grouped by kind */
+  entryPoints?: Array<{ kind: EntryPointKind; paths: string[] }>;
+}
+
+export interface Citation {
+  claim: string;
+  file: string;
+  line: number;
+  /** Set in watch mode once the cited line changed */
+  stale?: boolean;
+}
+
+/** A line or range in a project file, as opened in the file viewer */
+export interface FileLocation {
+  file: string;
+  line: number;
+  lineEnd?: number;
+}
+
+export type SearchMode = 'literal' | 'regex' | 'symbol';
+
+/** A parsed `/find` query */
+export interface SearchQuery {
+  mode: SearchMode;
+  pattern: string;
+  /** Globs a file must match to be searched; empty for every indexed file */
+  include: string[];
+  exclude: string[];
+  /** Lines shown around each match */
+  context: number;
+  caseSensitive: boolean;
+}
+
+export interface SearchHit {
+  file: string;
+  line: number;
+  /** 1-based column where the match starts */
+  column: number;
+  length: number;
+  text: string;
+  before: string[];
+  after: string[];
+  /** Qualified name of the enclosing (or, for symbol queries, matched) definition */
+  symbol?: string;
+  score: number;
+}
+
+export interface SearchResult {
+  query: SearchQuery;
+  hits: SearchHit[];
+  filesSearched: number;
+  /** Matches left out once the result limit was reached */
+  omitted: number;
+}
+
+/** One turn of a follow-up conversation about an analysis */
+export interface QAMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  /** Only citations that point at a real line of an indexed file */
+  citations?: Citation[];
+  /** What the answer was built from or had to leave out, e.g. citations that did not check out */
+  notes?: string[];
+  /** Answered from the symbol index rather than by the model */
+  local?: boolean;
+  error?: boolean;
 }
 
 export interface AnalysisResult {
   overview: ArchitectureOverview;
   walkthrough: WalkthroughStep[];
   answer: string;
-  citations: Array<{ claim: string; file: string; line: number }>;
+  citations: Citation[];
   uncertainties?: string[];
   omissions?: string[];
   confidence: 'high' | 'medium' | 'low';
 }
 
+/**
+ * One file changed on disk while the project was being watched. `lines`
+ * is the range of the previous content that was replaced, 1-based; `end`
+ * is `start - 1` for a pure insertion before `start`, and the range is
+ * absent when the whole file counts as touched. `delta` is how far the
+ * lines after the range moved.
+ */
+export interface FileChange {
+  path: string;
+  kind: 'added' | 'modified' | 'deleted';
+  lines?: { start: number; end: number };
+  delta?: number;
+}
+
 export interface PrivacyPreview {
   files: Array<{
     path: string;
@@ -98,5 +376,60 @@ export interface AppState {
     exclude: string[];
   };
   loading: boolean;
+  /** Workspace packages the question is limited to; empty for the whole project */
+  scope: string[];
   error?: string;
-}
\ No newline at end of file
+  errorKind?: LLMErrorKind;
+  notice?: string;
+  /** What the file viewer shows, and the screen it returns to */
+  viewer?: { location: FileLocation; returnTo: ScreenState };
+  /** The latest `/find`, kept while its hits are opened in the viewer */
+  search?: { input: string; result?: SearchResult; error?: string; selected: number };
+}
+export type LLMErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'safety'
+  | 'timeout'
+  | 'malformed'
+  | 'transient'
+  | 'budget'
+  | 'unknown';
+
+export type PromptStage =
+  | 'architecture'
+  | 'relevant-files'
+  | 'file-sections'
+  | 'connections'
+  | 'answer'
+  | 'narration'
+  | 'qa'
+  | 'analysis';
+
+export interface GenerateOptions {
+  stage?: PromptStage;
+  json?: boolean;
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Runtime schema for structured model output. The input side is left open
+ * so schemas may normalize (transform) what the model returns.
+ */
+export type OutputSchema<T> = ZodType<T, ZodTypeDef, unknown>;
+
+/** Text generated so far by a streamed stage; `text` is cumulative. */
+export interface StreamUpdate {
+  stage: PromptStage;
+  text: string;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  generate(prompt: string, options?: GenerateOptions): Promise<string>;
+  stream(prompt: string, options?: GenerateOptions): AsyncIterable<string>;
+  generateStructured<T>(prompt: string, schema: OutputSchema<T>, options?: GenerateOptions): Promise<T>;
+  countTokens(text: string): Promise<number>;
+}
@@ -1,6 +1,6 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { Box, Text, useInput, useApp } from 'ink';
-import type { Config, AppState, ScreenState, IndexedProject } from '../types/index.js';
+import type { Config, AppState, ScreenState, IndexedProject, StreamUpdate, WorkspacePackage, FileLocation, SearchHit, SearchResult } from '../types/index.js';
 import { GlobalLayout } from './layouts/GlobalLayout.js';
 import { HomeScreen } from './screens/HomeScreen.js';
 import { ScanningScreen } from './screens/ScanningScreen.js';
@@ -8,8 +8,18 @@ import { OverviewScreen } from './screens/OverviewScreen.js';
 import { WalkthroughScreen } from './screens/WalkthroughScreen.js';
 import { QAScreen } from './screens/QAScreen.js';
 import { ResultsScreen } from './screens/ResultsScreen.js';
+import { FileViewerScreen } from './screens/FileViewerScreen.js';
+import { SearchScreen } from './screens/SearchScreen.js';
+import { AnswerStreamScreen, type StreamStatus } from './screens/AnswerStreamScreen.js';
 import { useProjectAnalyzer } from '../hooks/useProjectAnalyzer.js';
+import { useProjectWatcher } from '../hooks/useProjectWatcher.js';
+import { markStale } from '../services/ProjectWatcher.js';
 import { ReportGenerator } from '../services/ReportGenerator.js';
+import { QASession } from '../services/QASession.js';
+import { parseSearchQuery, searchProject } from '../services/ProjectSearch.js';
+import { LLMError } from '../services/providers/errors.js';
+import { CancelledError } from '../utils/cancellation.js';
+import { detectWorkspace, scopeProject } from '../services/WorkspaceDetector.js';
 
 interface AppProps {
   config: Config;
@@ -24,14 +34,35 @@ export const App: React.FC<AppProps> = ({ config }) => {
     question: '',
     currentStep: 0,
     filters: {
-      include: ['**/*.{js,jsx,ts,tsx,py,java,go,rs,cpp,c,cs,rb,php,swift,kt,json,yaml,yml,toml,md}'],
+      include: ['**/*.{js,jsx,mjs,cjs,ts,tsx,mts,cts,vue,svelte,py,java,go,rs,cpp,cc,hpp,c,h,cs,rb,php,swift,kt,kts,sh,sql,tf,proto,json,yaml,yml,toml,md}'],
       exclude: ['**/node_modules/**', '**/.git/**', '**/dist/**', '**/build/**', '**/.next/**', '**/coverage/**'],
     },
     loading: false,
+    scope: [],
   });
   
+  // Listed before any indexing so a question can be scoped from the start
+  const [packages, setPackages] = useState<WorkspacePackage[]>([]);
+  useEffect(() => {
+    detectWorkspace(process.cwd())
+      .then(workspace => setPackages(workspace.packages))
+      .catch(() => setPackages([]));
+  }, []);
+  
   const [savedProject, setSavedProject] = useState<IndexedProject | null>(null);
   const [reportSaved, setReportSaved] = useState<string | null>(null);
+  // Follow-up conversation about the shown result; a new analysis starts a new one
+  const [qaSession, setQaSession] = useState<QASession | null>(null);
+  // The session's attachments change in place; bumped so the search list re-renders
+  const [, setAttachments] = useState(0);
+  // Packages the shown result was analyzed for, so live updates are scoped the same way
+  const analyzedScope = useRef<string[]>([]);
+
+  // In watch mode the index follows the disk; steps and citations whose lines change go stale
+  const liveIndex = useProjectWatcher(config, state.filters, (update) => {
+    setSavedProject(prev => (prev ? scopeProject(update.project, analyzedScope.current) : prev));
+    setState(prev => (prev.result ? { ...prev, result: markStale(prev.result, update.changes, update.project) } : prev));
+  });
   
   const [scanProgress, setScanProgress] = useState({
     filesScanned: 0,
@@ -42,8 +73,27 @@ export const App: React.FC<AppProps> = ({ config }) => {
     insights: 0,
   });
 
+  const [streamed, setStreamed] = useState<{ connections: string; answer: string; status: StreamStatus }>({
+    connections: '',
+    answer: '',
+    status: 'streaming',
+  });
+  const streamAbort = useRef<AbortController | null>(null);
+  // The in-flight analysis; anything settling for an older run is ignored
+  const analysisAbort = useRef<AbortController | null>(null);
+
   useInput((input: string, key: any) => {
+    // Esc while the answer is streaming stops generation but keeps the text
+    if (key.escape && state.screen === 'answer' && streamed.status === 'streaming') {
+      streamAbort.current?.abort();
+      return;
+    }
     if (key.escape || (key.ctrl && input === 'c')) {
+      // Leaving the scanning screen cancels the analysis rather than
+      // letting it run on in the background
+      if (state.screen === 'scanning') {
+        analysisAbort.current?.abort();
+      }
       if (state.screen === 'home') {
         exit();
       } else {
@@ -56,6 +106,35 @@ export const App: React.FC<AppProps> = ({ config }) => {
     setState(prev => ({ ...prev, screen }));
   }, []);
 
+  // The viewer returns to whichever screen opened it
+  const handleOpenFile = useCallback((location: FileLocation) => {
+    setState(prev => ({ ...prev, viewer: { location, returnTo: prev.screen }, screen: 'viewer' }));
+  }, []);
+
+  const handleFind = useCallback(async (input: string) => {
+    setState(prev => ({ ...prev, search: { input, selected: 0 }, screen: 'search' }));
+    const settle = (update: { result?: SearchResult; error?: string }) =>
+      setState(prev => (prev.search?.input === input ? { ...prev, search: { ...prev.search, ...update } } : prev));
+
+    if (!savedProject) {
+      settle({ error: 'Run an analysis first; search covers the files it indexed.' });
+      return;
+    }
+    try {
+      settle({ result: await searchProject(savedProject, parseSearchQuery(input)) });
+    } catch (error) {
+      settle({ error: error instanceof Error ? error.message : String(error) });
+    }
+  }, [savedProject]);
+
+  const handleToggleAttach = useCallback((hit: SearchHit) => {
+    if (!qaSession) return;
+    const attached = qaSession.attached.some(a => a.file === hit.file && a.line === hit.line);
+    if (attached) qaSession.detach(hit);
+    else qaSession.attach([hit]);
+    setAttachments(n => n + 1);
+  }, [qaSession]);
+
   const handleSaveReport = useCallback(async () => {
     if (!state.result || !savedProject) return;
     
@@ -73,7 +152,15 @@ export const App: React.FC<AppProps> = ({ config }) => {
   }, [state.result, state.question, savedProject]);
 
   const handleQuestionSubmit = useCallback(async (question: string) => {
-    setState(prev => ({ ...prev, question, screen: 'scanning', loading: true }));
+    setState(prev => ({
+      ...prev,
+      question,
+      screen: 'scanning',
+      loading: true,
+      error: undefined,
+      errorKind: undefined,
+      notice: undefined,
+    }));
     
     // Reset progress
     setScanProgress({
@@ -84,31 +171,66 @@ export const App: React.FC<AppProps> = ({ config }) => {
       frameworks: [],
       insights: 0,
     });
+    setStreamed({ connections: '', answer: '', status: 'streaming' });
+
+    const stream = new AbortController();
+    streamAbort.current = stream;
+    const run = new AbortController();
+    analysisAbort.current?.abort();
+    analysisAbort.current = run;
     
     try {
-      const { result, project } = await analyzeProject(
+      const { result, project, indexed } = await analyzeProject(
         question, 
         state.filters,
+        state.scope,
         (progress) => {
           setScanProgress(prev => ({ ...prev, ...progress }));
-        }
+        },
+        {
+          signal: stream.signal,
+          onText: ({ stage, text }: StreamUpdate) => {
+            if (stage !== 'connections' && stage !== 'answer') return;
+            setStreamed(prev => ({ ...prev, [stage]: text }));
+            setState(prev => (prev.screen === 'scanning' ? { ...prev, screen: 'answer' } : prev));
+          },
+        },
+        run.signal,
+        liveIndex.project ?? undefined
       );
+      if (analysisAbort.current !== run) return;
+      liveIndex.watch(indexed);
+      analyzedScope.current = state.scope;
       setSavedProject(project);
+      setQaSession(new QASession(config, project, result, question));
+      setStreamed(prev => ({ ...prev, status: stream.signal.aborted ? 'cancelled' : 'done' }));
       setState(prev => ({
         ...prev,
         result,
         loading: false,
-        screen: 'overview',
+        // Leave the streamed answer on screen until the user moves on
+        screen: prev.screen === 'answer' ? 'answer' : 'overview',
       }));
     } catch (error) {
+      if (analysisAbort.current !== run) return;
+      if (error instanceof CancelledError) {
+        setState(prev => ({ ...prev, loading: false, notice: error.message, screen: 'home' }));
+        return;
+      }
       setState(prev => ({
         ...prev,
         loading: false,
         error: error instanceof Error ? error.message : 'Unknown error',
+        errorKind: error instanceof LLMError ? error.kind : 'unknown',
         screen: 'home',
       }));
+    } finally {
+      if (analysisAbort.current === run) {
+        analysisAbort.current = null;
+        streamAbort.current = null;
+      }
     }
-  }, [state.filters, analyzeProject]);
+  }, [config, state.filters, state.scope, analyzeProject, liveIndex.project, liveIndex.watch]);
 
   const renderScreen = () => {
     switch (state.screen) {
@@ -116,10 +238,26 @@ export const App: React.FC<AppProps> = ({ config }) => {
         return (
           <HomeScreen
             onQuestionSubmit={handleQuestionSubmit}
+            error={state.error}
+            errorKind={state.errorKind}
+            notice={state.notice}
+            packages={packages}
+            scope={state.scope}
+            onScopeChange={(scope) => setState(prev => ({ ...prev, scope }))}
           />
         );
       case 'scanning':
         return <ScanningScreen progress={scanProgress} />;
+      case 'answer':
+        return (
+          <AnswerStreamScreen
+            question={state.question}
+            connections={streamed.connections}
+            answer={streamed.answer}
+            status={streamed.status}
+            onContinue={() => handleScreenChange('overview')}
+          />
+        );
       case 'overview':
         return (
           <>
@@ -127,6 +265,7 @@ export const App: React.FC<AppProps> = ({ config }) => {
               overview={state.result?.overview}
               onWalkthrough={() => handleScreenChange('walkthrough')}
               onQA={() => handleScreenChange('qa')}
+              onResults={() => handleScreenChange('results')}
               onSaveReport={handleSaveReport}
             />
             {reportSaved && (
@@ -142,24 +281,53 @@ export const App: React.FC<AppProps> = ({ config }) => {
             steps={state.result?.walkthrough || []}
             currentStep={state.currentStep}
             onStepChange={(step) => setState(prev => ({ ...prev, currentStep: step }))}
+            onOpen={handleOpenFile}
             onBack={() => handleScreenChange('overview')}
           />
         );
       case 'qa':
         return (
           <QAScreen
+            session={qaSession ?? undefined}
             context={state.result}
+            project={savedProject ?? undefined}
+            onOpen={handleOpenFile}
+            onFind={handleFind}
             onBack={() => handleScreenChange('overview')}
           />
         );
+      case 'search':
+        return state.search ? (
+          <SearchScreen
+            input={state.search.input}
+            result={state.search.result}
+            error={state.search.error}
+            selected={state.search.selected}
+            attached={qaSession?.attached.map(a => `${a.file}:${a.line}`) ?? []}
+            onSelect={(selected) => setState(prev => (prev.search ? { ...prev, search: { ...prev.search, selected } } : prev))}
+            onOpen={handleOpenFile}
+            onToggleAttach={qaSession ? handleToggleAttach : undefined}
+            onBack={() => handleScreenChange('qa')}
+          />
+        ) : null;
       case 'results':
         return (
           <ResultsScreen
             result={state.result}
             question={state.question}
+            onOpen={handleOpenFile}
             onBack={() => handleScreenChange('overview')}
           />
         );
+      case 'viewer':
+        return state.viewer ? (
+          <FileViewerScreen
+            location={state.viewer.location}
+            root={savedProject?.root ?? process.cwd()}
+            project={savedProject ?? undefined}
+            onBack={() => handleScreenChange(state.viewer?.returnTo ?? 'overview')}
+          />
+        ) : null;
       default:
         return null;
     }
@@ -169,6 +337,7 @@ export const App: React.FC<AppProps> = ({ config }) => {
     <GlobalLayout
       projectName={state.project?.name || 'No Project'}
       screen={state.screen}
+      status={liveIndex.status ?? undefined}
     >
       {renderScreen()}
     </GlobalLayout>
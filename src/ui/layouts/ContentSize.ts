@@ -0,0 +1,17 @@
+import { createContext, useContext } from 'react';
+
+/** Room left for a screen between the header and the footer */
+export interface ContentSize {
+  width: number;
+  height: number;
+  /** Wide enough to show code and its explanation side by side */
+  split: boolean;
+}
+
+// Below this the two panes get too narrow for most code
+export const SPLIT_MIN_COLUMNS = 140;
+
+export const ContentSizeContext = createContext<ContentSize>({ width: 78, height: 16, split: false });
+
+/** The size GlobalLayout gives the current screen; changes when the terminal is resized */
+export const useContentSize = (): ContentSize => useContext(ContentSizeContext);
@@ -1,21 +1,39 @@
 import React from 'react';
-import { Box, Text, useStdout } from 'ink';
+import { Box, Text } from 'ink';
 import Gradient from 'ink-gradient';
 import type { ScreenState } from '../../types/index.js';
+import { useTerminalSize } from '../../hooks/useTerminalSize.js';
+import { ContentSizeContext, SPLIT_MIN_COLUMNS } from './ContentSize.js';
+
+// Shorter terminals drop the header and footer borders to leave room for the screen
+const COMPACT_ROWS = 30;
+const NARROW_COLUMNS = 70;
 
 interface GlobalLayoutProps {
   children: React.ReactNode;
   projectName: string;
   screen: ScreenState;
+  /** Watch-mode status shown under the header */
+  status?: string;
 }
 
 export const GlobalLayout: React.FC<GlobalLayoutProps> = ({
   children,
   projectName,
   screen,
+  status,
 }) => {
-  const { stdout } = useStdout();
-  const height = stdout.rows || 24;
+  const { columns, rows } = useTerminalSize();
+  const compact = rows < COMPACT_ROWS;
+  // One row short of the terminal: Ink clears and redraws a frame as tall as the
+  // screen, and the newline after it scrolls the header away
+  const height = Math.max(8, rows - 1);
+  const barHeight = compact ? 1 : 3;
+  const content = {
+    width: Math.max(20, columns - 2),
+    height: Math.max(3, height - 2 * barHeight - (status ? 1 : 0)),
+    split: columns - 2 >= SPLIT_MIN_COLUMNS,
+  };
 
   const getFooterHints = () => {
     switch (screen) {
@@ -23,8 +41,14 @@ export const GlobalLayout: React.FC<GlobalLayoutProps> = ({
         return 'Enter Submit · Tab Mode · Ctrl+C Exit';
       case 'walkthrough':
         return 'Space/→ Next · ← Back · g Jump # · Tab Switch · o Open · q Back';
+      case 'answer':
+        return 'Esc Stop streaming · ↑↓ Scroll · Enter Continue · Ctrl+C Exit';
       case 'qa':
-        return '/open path:line · /find "token" · /mode · q Back';
+        return '/open path:line or # · /find "token" · /mode · PgUp/PgDn Scroll · q Back';
+      case 'viewer':
+        return '↑↓ Scroll · g Go to line · t Target · q Back';
+      case 'search':
+        return '↑↓ Select · Enter Open · a Attach to question · q Back';
       default:
         return 'Esc/q Back · ? Help · Ctrl+C Exit';
     }
@@ -37,8 +61,11 @@ export const GlobalLayout: React.FC<GlobalLayoutProps> = ({
       scanning: 'Scanning & Indexing',
       overview: 'Architecture Overview',
       walkthrough: 'Execution Walkthrough',
+      answer: 'Answer',
       qa: 'Q&A Mode',
       results: 'Analysis Results',
+      viewer: 'File Viewer',
+      search: 'Search',
     };
     return titles[screen] || '';
   };
@@ -47,38 +74,52 @@ export const GlobalLayout: React.FC<GlobalLayoutProps> = ({
     <Box flexDirection="column" height={height}>
       {/* Header */}
       <Box
-        borderStyle="round"
+        borderStyle={compact ? undefined : 'round'}
         borderColor="cyan"
         paddingX={1}
         justifyContent="space-between"
+        flexShrink={0}
       >
-        <Box>
+        <Box flexShrink={1}>
           <Gradient name="rainbow">
             <Text bold>📖 ExplainCLI</Text>
           </Gradient>
           <Text color="gray"> · </Text>
-          <Text color="cyan">{projectName}</Text>
+          <Text color="cyan" wrap="truncate">{projectName}</Text>
         </Box>
-        <Box>
+        <Box flexShrink={0}>
           <Text color="yellow">{getScreenTitle()}</Text>
-          <Text color="gray"> · </Text>
-          <Text color="green">Deep Analysis</Text>
+          {columns >= NARROW_COLUMNS && (
+            <>
+              <Text color="gray"> · </Text>
+              <Text color="green">Deep Analysis</Text>
+            </>
+          )}
         </Box>
       </Box>
 
-      {/* Main Content */}
-      <Box flexGrow={1} flexDirection="column" paddingX={1}>
-        {children}
+      {status && (
+        <Box paddingX={2} flexShrink={0}>
+          <Text color="gray" wrap="truncate">👁 {status}</Text>
+        </Box>
+      )}
+
+      {/* Main Content, clipped so a screen that runs long cannot push the header off */}
+      <Box height={content.height} flexDirection="column" paddingX={1} overflow="hidden">
+        <ContentSizeContext.Provider value={content}>
+          {children}
+        </ContentSizeContext.Provider>
       </Box>
 
       {/* Footer */}
       <Box
-        borderStyle="single"
+        borderStyle={compact ? undefined : 'single'}
         borderColor="gray"
         paddingX={1}
         justifyContent="center"
+        flexShrink={0}
       >
-        <Text color="gray">{getFooterHints()}</Text>
+        <Text color="gray" wrap="truncate">{getFooterHints()}</Text>
       </Box>
     </Box>
   );
@@ -0,0 +1,102 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, measureElement, type DOMElement } from 'ink';
+
+export interface Scroll {
+  /** First content row in view */
+  offset: number;
+  maxOffset: number;
+  /** Rows in view, known after the first render */
+  viewHeight: number;
+  scrollTo: (row: number) => void;
+  scrollBy: (rows: number) => void;
+  /** Scrolls the least needed to bring an element inside the ScrollView fully into view */
+  reveal: (element: DOMElement | null | undefined) => void;
+  /** Handles PgUp/PgDn, and ↑↓ and j/k when `lines` is set; true if the key was used */
+  handleKey: (input: string, key: any, lines?: boolean) => boolean;
+  measure: (viewHeight: number, contentHeight: number) => void;
+  contentRef: React.MutableRefObject<DOMElement | null>;
+}
+
+/**
+ * Scroll state for a ScrollView. With `follow`, the view stays pinned to the
+ * end as content grows, until the reader scrolls up.
+ */
+export const useScroll = ({ follow = false }: { follow?: boolean } = {}): Scroll => {
+  // Infinity pins the view to the end
+  const [rawOffset, setRawOffset] = useState(follow ? Infinity : 0);
+  const [size, setSize] = useState({ view: 0, content: 0 });
+  const contentRef = useRef<DOMElement | null>(null);
+
+  const maxOffset = Math.max(0, size.content - size.view);
+  const offset = Math.min(rawOffset, maxOffset);
+
+  const scrollTo = (row: number) => {
+    if (follow && row >= maxOffset) setRawOffset(Infinity);
+    else setRawOffset(Math.max(0, Math.min(maxOffset, row)));
+  };
+  const scrollBy = (rows: number) => scrollTo(offset + rows);
+  const page = Math.max(1, size.view - 1);
+
+  return {
+    offset,
+    maxOffset,
+    viewHeight: size.view,
+    scrollTo,
+    scrollBy,
+    reveal: (element) => {
+      if (!element || !contentRef.current) return;
+      const top = topWithin(element, contentRef.current);
+      const { height } = measureElement(element);
+      if (top < offset) scrollTo(top);
+      else if (top + height > offset + size.view) scrollTo(Math.min(top, top + height - size.view));
+    },
+    handleKey: (input, key, lines = false) => {
+      if (key.pageUp) scrollBy(-page);
+      else if (key.pageDown) scrollBy(page);
+      else if (lines && (key.upArrow || input === 'k')) scrollBy(-1);
+      else if (lines && (key.downArrow || input === 'j')) scrollBy(1);
+      else return false;
+      return true;
+    },
+    measure: (view, content) => {
+      if (view !== size.view || content !== size.content) setSize({ view, content });
+    },
+    contentRef,
+  };
+};
+
+interface ScrollViewProps {
+  scroll: Scroll;
+  children: React.ReactNode;
+}
+
+/**
+ * Takes the space its parent column leaves over and shows the slice of its
+ * children that `scroll` points at. Children lay out at full height, so
+ * Ink wraps prose to the width as usual.
+ */
+export const ScrollView: React.FC<ScrollViewProps> = ({ scroll, children }) => {
+  const viewRef = useRef<DOMElement>(null);
+
+  // Layout is known only after Ink renders, so measure on every commit; `measure` ignores no-ops
+  useEffect(() => {
+    if (!viewRef.current || !scroll.contentRef.current) return;
+    scroll.measure(measureElement(viewRef.current).height, measureElement(scroll.contentRef.current).height);
+  });
+
+  return (
+    <Box ref={viewRef} flexGrow={1} flexShrink={1} flexBasis={0} flexDirection="column" overflow="hidden">
+      <Box ref={scroll.contentRef} flexShrink={0} flexDirection="column" marginTop={-scroll.offset}>
+        {children}
+      </Box>
+    </Box>
+  );
+};
+
+function topWithin(element: DOMElement, container: DOMElement): number {
+  let top = 0;
+  for (let node: DOMElement | undefined = element; node && node !== container; node = node.parentNode) {
+    top += node.yogaNode?.getComputedTop() ?? 0;
+  }
+  return top;
+}
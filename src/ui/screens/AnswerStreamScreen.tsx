@@ -0,0 +1,75 @@
+import React from 'react';
+import { Box, Text, useInput } from 'ink';
+import Spinner from 'ink-spinner';
+import { useContentSize } from '../layouts/ContentSize.js';
+import { ScrollView, useScroll } from '../layouts/ScrollView.js';
+
+export type StreamStatus = 'streaming' | 'cancelled' | 'done';
+
+interface AnswerStreamScreenProps {
+  question: string;
+  connections: string;
+  answer: string;
+  status: StreamStatus;
+  onContinue: () => void;
+}
+
+export const AnswerStreamScreen: React.FC<AnswerStreamScreenProps> = ({
+  question,
+  connections,
+  answer,
+  status,
+  onContinue,
+}) => {
+  const { height } = useContentSize();
+  // Keeps the newest text in view while it streams, unless the reader scrolls back
+  const scroll = useScroll({ follow: true });
+
+  useInput((input: string, key: any) => {
+    if (key.return && status !== 'streaming') {
+      onContinue();
+    } else {
+      scroll.handleKey(input, key, true);
+    }
+  });
+
+  return (
+    <Box flexDirection="column" height={height}>
+      <ScrollView scroll={scroll}>
+        <Box flexDirection="column" marginBottom={1}>
+          <Text bold>Question:</Text>
+          <Text color="white">{question}</Text>
+        </Box>
+
+        <Box flexDirection="column" marginBottom={1}>
+          <Text bold color="cyan">🔗 How it connects</Text>
+          <Text>{connections}</Text>
+        </Box>
+
+        {(answer || (status === 'streaming' && connections)) && (
+          <Box flexDirection="column" marginBottom={1}>
+            <Text bold color="green">💡 Answer</Text>
+            <Text>{answer}</Text>
+          </Box>
+        )}
+      </ScrollView>
+
+      {status === 'streaming' && (
+        <Box>
+          <Text color="cyan"><Spinner type="dots" /></Text>
+          <Text color="gray"> Generating... press Esc to stop and keep the text so far</Text>
+        </Box>
+      )}
+      {status === 'cancelled' && (
+        <Text color="yellow" wrap="truncate">
+          ⏹ Stopped. Partial text kept · Enter to continue{scroll.maxOffset > 0 ? ' · ↑↓ PgUp/PgDn Scroll' : ''}
+        </Text>
+      )}
+      {status === 'done' && (
+        <Text color="green" wrap="truncate">
+          ✓ Done · Enter to continue{scroll.maxOffset > 0 ? ' · ↑↓ PgUp/PgDn Scroll' : ''}
+        </Text>
+      )}
+    </Box>
+  );
+};
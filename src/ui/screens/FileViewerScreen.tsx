@@ -0,0 +1,168 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Box, Text, useInput } from 'ink';
+import type { FileLocation, IndexedProject } from '../../types/index.js';
+import { readProjectFile, resolveProjectFile } from '../../services/FileLocator.js';
+import { CodeView, fitCode, gutterWidth, pageStart } from '../syntax/CodeView.js';
+import { grammarFor } from '../syntax/grammars.js';
+import { tokenizeLines } from '../syntax/tokenize.js';
+import { useContentSize } from '../layouts/ContentSize.js';
+
+interface FileViewerScreenProps {
+  location: FileLocation;
+  root: string;
+  project?: IndexedProject;
+  onBack: () => void;
+}
+
+export const FileViewerScreen: React.FC<FileViewerScreenProps> = ({
+  location,
+  root,
+  project,
+  onBack,
+}) => {
+  const [file, setFile] = useState<{ path: string; lines: string[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [scrollOffset, setScrollOffset] = useState(0);
+  // Digits typed after `g`, or null when not jumping
+  const [jump, setJump] = useState<string | null>(null);
+  const { width, height } = useContentSize();
+
+  const highlightStart = location.line;
+  const highlightEnd = location.lineEnd ?? location.line;
+  const lineCount = file?.lines.length ?? 0;
+  const tokens = useMemo(() => (file ? tokenizeLines(file.lines, grammarFor(file.path)) : []), [file]);
+
+  // Title, border and footer take 6 rows, the past-the-end warning 2 more
+  const pastEnd = file !== null && highlightStart > lineCount;
+  const codeRows = Math.max(3, height - 6 - (pastEnd ? 2 : 0));
+  // Border and padding take 4 columns
+  const codeWidth = Math.max(10, width - 4 - gutterWidth(lineCount));
+  const maxOffset = pageStart(tokens, lineCount, codeRows, codeWidth);
+  // Clamped here rather than when set, so a resize or a jump made before the file loaded still lands in range
+  const offset = Math.min(scrollOffset, maxOffset);
+  const { rows, end } = fitCode(tokens, offset, codeRows, codeWidth);
+
+  // Puts `line` a third of the way down the view, so the code leading into it shows too
+  const scrollTo = (line: number) => {
+    setScrollOffset(Math.max(0, line - 1 - Math.floor(codeRows / 3)));
+  };
+
+  // Watch mode passes a new project on every save; only a change to this file reloads it
+  const hash = project && resolveProjectFile(project, location.file)?.hash;
+  // The location last scrolled to, so a reload of the same file keeps the reader's place
+  const shown = useRef<FileLocation | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const moved = shown.current !== location;
+    if (moved) {
+      setFile(null);
+      setError(null);
+    }
+    readProjectFile(root, location.file, project).then(
+      ({ path, content }) => {
+        if (cancelled) return;
+        const lines = content.split('\n');
+        setFile({ path, lines });
+        setError(null);
+        if (moved) {
+          shown.current = location;
+          scrollTo(location.line);
+        }
+      },
+      (err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [root, location, hash]);
+
+  useInput((input: string, key: any) => {
+    if (jump !== null) {
+      if (/^\d$/.test(input)) {
+        setJump(jump + input);
+      } else if (key.backspace || key.delete) {
+        setJump(jump.length > 0 ? jump.slice(0, -1) : null);
+      } else if (key.return) {
+        if (jump) scrollTo(Math.min(lineCount, Math.max(1, Number(jump))));
+        setJump(null);
+      } else if (input === 'q') {
+        setJump(null);
+      }
+      return;
+    }
+
+    if (input === 'q' || input === 'b') {
+      onBack();
+    } else if (input === 'g' || input === ':') {
+      setJump('');
+    } else if (input === 't') {
+      scrollTo(highlightStart);
+    } else if (input === 'G') {
+      setScrollOffset(maxOffset);
+    } else if (key.upArrow || input === 'k') {
+      setScrollOffset(Math.max(0, offset - 1));
+    } else if (key.downArrow || input === 'j') {
+      setScrollOffset(Math.min(maxOffset, offset + 1));
+    } else if (key.pageUp) {
+      setScrollOffset(pageStart(tokens, offset, codeRows, codeWidth));
+    } else if (key.pageDown || input === ' ') {
+      setScrollOffset(Math.min(maxOffset, end));
+    }
+  });
+
+  if (error) {
+    return (
+      <Box flexDirection="column" paddingY={2}>
+        <Text color="red">{error}</Text>
+        <Box marginTop={1}><Text color="gray">Press q to go back</Text></Box>
+      </Box>
+    );
+  }
+
+  if (!file) {
+    return (
+      <Box paddingY={2}>
+        <Text color="cyan">Loading {location.file}...</Text>
+      </Box>
+    );
+  }
+
+  return (
+    <Box flexDirection="column" height={height}>
+      <Box marginBottom={1} justifyContent="space-between">
+        <Text bold wrap="truncate-start">📄 {file.path}</Text>
+        <Box flexShrink={0} marginLeft={1}>
+          <Text color="gray">Lines {offset + 1}-{end} of {lineCount}</Text>
+        </Box>
+      </Box>
+
+      {pastEnd && (
+        <Box marginBottom={1}>
+          <Text color="yellow" wrap="truncate">⚠ Line {highlightStart} is past the end of the file</Text>
+        </Box>
+      )}
+
+      <Box borderStyle="round" borderColor="cyan" paddingX={1} flexDirection="column" height={codeRows + 2} overflow="hidden">
+        <CodeView rows={rows} lineCount={lineCount} range={[highlightStart, highlightEnd]} />
+      </Box>
+
+      <Box marginTop={1}>
+        {jump !== null ? (
+          <Text>
+            <Text color="cyan" bold>Go to line: </Text>
+            <Text>{jump}</Text>
+            <Text color="gray">▌ (Enter to jump · q to cancel)</Text>
+          </Text>
+        ) : (
+          <Text color="gray" wrap="truncate">
+            ↑↓/jk Scroll · PgUp/PgDn Page · g Go to line · t Target · G End · q Back
+            {highlightStart <= lineCount && ` · Highlighted: ${highlightStart === highlightEnd ? `line ${highlightStart}` : `lines ${highlightStart}-${highlightEnd}`}`}
+          </Text>
+        )}
+      </Box>
+    </Box>
+  );
+};
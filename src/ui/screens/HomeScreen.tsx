@@ -1,15 +1,94 @@
 import React, { useState } from 'react';
-import { Box, Text } from 'ink';
+import { Box, Text, useInput } from 'ink';
 import TextInput from 'ink-text-input';
+import type { LLMErrorKind, WorkspacePackage } from '../../types/index.js';
+import { useContentSize } from '../layouts/ContentSize.js';
 
 interface HomeScreenProps {
   onQuestionSubmit: (question: string) => void;
+  error?: string;
+  errorKind?: LLMErrorKind;
+  notice?: string;
+  /** Workspace packages the question can be scoped to; none for single-package projects */
+  packages?: WorkspacePackage[];
+  scope?: string[];
+  onScopeChange?: (scope: string[]) => void;
 }
 
+const ERROR_HINTS: Record<LLMErrorKind, { title: string; hint: string }> = {
+  auth: {
+    title: 'Authentication failed',
+    hint: 'Check GEMINI_API_KEY (or LLM_API_KEY for other providers).',
+  },
+  quota: {
+    title: 'Rate limit or quota exhausted',
+    hint: 'Wait a moment and try again, or check your plan\'s quota.',
+  },
+  safety: {
+    title: 'Response blocked by safety filters',
+    hint: 'Try rephrasing the question or narrowing the files analyzed.',
+  },
+  timeout: {
+    title: 'Model request timed out',
+    hint: 'Try again, or raise REQUEST_TIMEOUT_MS.',
+  },
+  malformed: {
+    title: 'Model returned unreadable output',
+    hint: 'Try again; a different model may follow the output format better.',
+  },
+  transient: {
+    title: 'Model endpoint unavailable',
+    hint: 'The service kept failing after several retries. Check your connection and try again.',
+  },
+  budget: {
+    title: 'Request budget exhausted',
+    hint: 'Raise MAX_REQUESTS_PER_RUN or ask a narrower question.',
+  },
+  unknown: {
+    title: 'Analysis failed',
+    hint: 'Set DEBUG=true for more details.',
+  },
+};
+
 export const HomeScreen: React.FC<HomeScreenProps> = ({
   onQuestionSubmit,
+  error,
+  errorKind,
+  notice,
+  packages = [],
+  scope = [],
+  onScopeChange,
 }) => {
   const [question, setQuestion] = useState('');
+  // Tab moves between the question and the package list
+  const [picking, setPicking] = useState(false);
+  const [cursor, setCursor] = useState(0);
+  const { height } = useContentSize();
+
+  // Packages listed at once: the question, scope lines and tips take 15 rows, an error 6 and a notice 2.
+  // The window follows the cursor
+  const visiblePackages = Math.max(3, height - 15 - (error ? 6 : 0) - (notice ? 2 : 0));
+  const firstPackage = Math.max(0, Math.min(cursor - Math.floor(visiblePackages / 2), packages.length - visiblePackages));
+
+  useInput((input: string, key: any) => {
+    if (packages.length === 0) return;
+    if (key.tab) {
+      setPicking(prev => !prev);
+      return;
+    }
+    if (!picking) return;
+
+    if (key.upArrow) {
+      setCursor(prev => Math.max(0, prev - 1));
+    } else if (key.downArrow) {
+      setCursor(prev => Math.min(packages.length - 1, prev + 1));
+    } else if (input === ' ') {
+      const name = packages[cursor].name;
+      onScopeChange?.(scope.includes(name) ? scope.filter(n => n !== name) : [...scope, name]);
+    } else if (input === 'a') {
+      onScopeChange?.([]);
+    }
+  });
 
   const handleSubmit = () => {
     if (question.trim()) {
@@ -18,23 +97,57 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({
   };
 
   return (
-    <Box flexDirection="column" paddingY={2}>
-      <Box marginBottom={2}>
+    <Box flexDirection="column" paddingY={1} height={height}>
+      <Box marginBottom={1}>
         <Text bold color="cyan">What do you want to understand about this codebase?</Text>
       </Box>
 
-      <Box marginBottom={2}>
+      {error && (
+        <Box flexDirection="column" marginBottom={1} borderStyle="round" borderColor="red" paddingX={1}>
+          <Text bold color="red">✗ {ERROR_HINTS[errorKind || 'unknown'].title}</Text>
+          <Text color="gray">{error}</Text>
+          <Text color="yellow">{ERROR_HINTS[errorKind || 'unknown'].hint}</Text>
+        </Box>
+      )}
+
+      {notice && (
+        <Box marginBottom={1}>
+          <Text color="yellow">⏹ {notice}</Text>
+        </Box>
+      )}
+
+      <Box marginBottom={1}>
         <Text color="green">{'> '}</Text>
         <TextInput
           value={question}
           onChange={setQuestion}
           onSubmit={handleSubmit}
           placeholder="e.g., Where is OAuth token verification implemented?"
-          focus={true}
+          focus={!picking}
         />
       </Box>
 
-      <Box marginTop={2}>
+      {packages.length > 0 && (
+        <Box flexDirection="column" marginBottom={1}>
+          <Text bold color={picking ? 'cyan' : undefined}>
+            📦 Scope: {scope.length > 0 ? scope.join(', ') : `all ${packages.length} packages`}
+          </Text>
+          {picking && packages.slice(firstPackage, firstPackage + visiblePackages).map((pkg, j) => {
+            const i = firstPackage + j;
+            return (
+              <Text key={pkg.name} color={i === cursor ? 'cyan' : undefined} wrap="truncate">
+                {i === cursor ? '❯ ' : '  '}{scope.includes(pkg.name) ? '◉' : '○'} {pkg.name} <Text color="gray">{pkg.dir}{pkg.dependencies.length > 0 ? ` → ${pkg.dependencies.join(', ')}` : ''}</Text>
+              </Text>
+            );
+          })}
+          <Text color="gray">
+            {picking && packages.length > visiblePackages ? `${cursor + 1}/${packages.length} · ` : ''}
+            {picking ? '↑↓ move · Space toggle · a all packages · Tab back to question' : 'Tab to limit the question to some packages'}
+          </Text>
+        </Box>
+      )}
+
+      <Box marginTop={1}>
         <Text color="gray">
           🔍 Deep Analysis Mode: I'll thoroughly analyze your codebase,
         </Text>
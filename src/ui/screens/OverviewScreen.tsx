@@ -1,11 +1,15 @@
 import React from 'react';
 import { Box, Text, useInput } from 'ink';
 import type { ArchitectureOverview } from '../../types/index.js';
+import { ENTRY_POINT_KIND_LABELS } from '../../detectors/entryPoints.js';
+import { useContentSize } from '../layouts/ContentSize.js';
+import { ScrollView, useScroll } from '../layouts/ScrollView.js';
 
 interface OverviewScreenProps {
   overview?: ArchitectureOverview;
   onWalkthrough: () => void;
   onQA: () => void;
+  onResults?: () => void;
   onSaveReport?: () => void;
 }
 
@@ -13,13 +17,20 @@ export const OverviewScreen: React.FC<OverviewScreenProps> = ({
   overview,
   onWalkthrough,
   onQA,
+  onResults,
   onSaveReport,
 }) => {
-  useInput((input: string) => {
+  const { height } = useContentSize();
+  const scroll = useScroll();
+
+  useInput((input: string, key: any) => {
+    if (scroll.handleKey(input, key, true)) return;
     if (input === 'w' || input === ' ') {
       onWalkthrough();
     } else if (input === 'q') {
       onQA();
+    } else if (input === 'r' && onResults) {
+      onResults();
     } else if (input === 's' && onSaveReport) {
       onSaveReport();
     }
@@ -34,83 +45,129 @@ export const OverviewScreen: React.FC<OverviewScreenProps> = ({
   }
 
   return (
-    <Box flexDirection="column" paddingY={2}>
-      <Box marginBottom={2}>
+    <Box flexDirection="column" height={height}>
+      <Box marginBottom={1} justifyContent="space-between">
         <Text bold color="cyan">📊 Architecture Overview</Text>
+        {scroll.maxOffset > 0 && <Text color="gray">↑↓ PgUp/PgDn Scroll</Text>}
       </Box>
 
-      {/* Frameworks Section */}
-      <Box flexDirection="column" marginBottom={1}>
-        <Text bold>Frameworks & Technologies:</Text>
-      </Box>
-      <Box flexDirection="column" marginBottom={2} paddingLeft={2}>
-        {overview.frameworks && Array.isArray(overview.frameworks) && overview.frameworks.length > 0 ? (
-          overview.frameworks.map((fw, i) => (
-            <Box key={`fw-${i}`}>
-              <Text color="green">• {fw}</Text>
+      <ScrollView scroll={scroll}>
+
+        {/* Frameworks Section */}
+        <Box flexDirection="column" marginBottom={1}>
+          <Text bold>Frameworks & Technologies:</Text>
+        </Box>
+        <Box flexDirection="column" marginBottom={1} paddingLeft={2}>
+          {overview.frameworks && Array.isArray(overview.frameworks) && overview.frameworks.length > 0 ? (
+            overview.frameworks.map((fw, i) => (
+              <Box key={`fw-${i}`}>
+                <Text color="green">• {fw}</Text>
+              </Box>
+            ))
+          ) : (
+            <Box>
+              <Text color="gray">No frameworks detected</Text>
             </Box>
-          ))
-        ) : (
-          <Box>
-            <Text color="gray">No frameworks detected</Text>
-          </Box>
-        )}
-      </Box>
+          )}
+        </Box>
 
-      {/* Runtimes Section */}
-      <Box flexDirection="column" marginBottom={1}>
-        <Text bold>Runtimes:</Text>
-      </Box>
-      <Box flexDirection="column" marginBottom={2} paddingLeft={2}>
-        {overview.runtimes && Array.isArray(overview.runtimes) && overview.runtimes.length > 0 ? (
-          overview.runtimes.map((rt, i) => (
-            <Box key={`rt-${i}`}>
-              <Text color="yellow">• {rt}</Text>
+        {/* Runtimes Section */}
+        <Box flexDirection="column" marginBottom={1}>
+          <Text bold>Runtimes:</Text>
+        </Box>
+        <Box flexDirection="column" marginBottom={1} paddingLeft={2}>
+          {overview.runtimes && Array.isArray(overview.runtimes) && overview.runtimes.length > 0 ? (
+            overview.runtimes.map((rt, i) => (
+              <Box key={`rt-${i}`}>
+                <Text color="yellow">• {rt}</Text>
+              </Box>
+            ))
+          ) : (
+            <Box>
+              <Text color="gray">Runtime not identified</Text>
+            </Box>
+          )}
+        </Box>
+
+        {/* Folder Structure Section */}
+        <Box flexDirection="column" marginBottom={1}>
+          <Text bold>Folder Structure:</Text>
+        </Box>
+        <Box flexDirection="column" marginBottom={1} paddingLeft={2}>
+          <Text color="gray">{overview.folderLayout || 'Standard project structure'}</Text>
+        </Box>
+
+        {/* Main Components Section */}
+        <Box flexDirection="column" marginBottom={1}>
+          <Text bold>Main Components:</Text>
+        </Box>
+        <Box flexDirection="column" marginBottom={1} paddingLeft={2}>
+          {overview.mainComponents && Array.isArray(overview.mainComponents) && overview.mainComponents.length > 0 ? (
+            overview.mainComponents.map((comp, i) => (
+              <Box key={`comp-${i}`}>
+                <Text color="cyan">• {typeof comp === 'string' ? comp : String(comp)}</Text>
+              </Box>
+            ))
+          ) : (
+            <Box>
+              <Text color="gray">No components identified</Text>
             </Box>
-          ))
-        ) : (
-          <Box>
-            <Text color="gray">Runtime not identified</Text>
-          </Box>
+          )}
+        </Box>
+
+        {/* Entry Points Section */}
+        {overview.entryPoints && overview.entryPoints.length > 0 && (
+          <>
+            <Box flexDirection="column" marginBottom={1}>
+              <Text bold>Entry Points:</Text>
+            </Box>
+            <Box flexDirection="column" marginBottom={1} paddingLeft={2}>
+              {overview.entryPoints.map((group) => (
+                <Box key={`entry-${group.kind}`} flexDirection="column">
+                  <Text color="cyan">{ENTRY_POINT_KIND_LABELS[group.kind]}</Text>
+                  {group.paths.map((entry) => (
+                    <Text key={`entry-${group.kind}-${entry}`} color="gray">  • {entry}</Text>
+                  ))}
+                </Box>
+              ))}
+            </Box>
+          </>
         )}
-      </Box>
 
-      {/* Folder Structure Section */}
-      <Box flexDirection="column" marginBottom={1}>
-        <Text bold>Folder Structure:</Text>
-      </Box>
-      <Box flexDirection="column" marginBottom={2} paddingLeft={2}>
-        <Text color="gray">{overview.folderLayout || 'Standard project structure'}</Text>
-      </Box>
+        {/* Control Flow Section */}
+        <Box flexDirection="column" marginBottom={1}>
+          <Text bold>Control Flow:</Text>
+        </Box>
+        <Box flexDirection="column" marginBottom={1} paddingLeft={2}>
+          <Text color="gray">{overview.controlFlow || 'Application flow'}</Text>
+        </Box>
 
-      {/* Main Components Section */}
-      <Box flexDirection="column" marginBottom={1}>
-        <Text bold>Main Components:</Text>
-      </Box>
-      <Box flexDirection="column" marginBottom={2} paddingLeft={2}>
-        {overview.mainComponents && Array.isArray(overview.mainComponents) && overview.mainComponents.length > 0 ? (
-          overview.mainComponents.map((comp, i) => (
-            <Box key={`comp-${i}`}>
-              <Text color="cyan">• {typeof comp === 'string' ? comp : String(comp)}</Text>
+        {/* Packages Section */}
+        {overview.packages && overview.packages.length > 0 && (
+          <>
+            <Box flexDirection="column" marginBottom={1}>
+              <Text bold>Packages:</Text>
             </Box>
-          ))
-        ) : (
-          <Box>
-            <Text color="gray">No components identified</Text>
-          </Box>
+            <Box flexDirection="column" marginBottom={1} paddingLeft={2}>
+              {overview.packages.map((pkg) => (
+                <Box key={`pkg-${pkg.name}`} flexDirection="column">
+                  <Text>
+                    <Text color="cyan">• {pkg.name}</Text>
+                    {pkg.role && <Text color="gray"> - {pkg.role}</Text>}
+                  </Text>
+                  {pkg.dependsOn.length > 0 && (
+                    <Text color="gray">    → depends on {pkg.dependsOn.join(', ')}</Text>
+                  )}
+                </Box>
+              ))}
+            </Box>
+          </>
         )}
-      </Box>
 
-      {/* Control Flow Section */}
-      <Box flexDirection="column" marginBottom={1}>
-        <Text bold>Control Flow:</Text>
-      </Box>
-      <Box flexDirection="column" marginBottom={2} paddingLeft={2}>
-        <Text color="gray">{overview.controlFlow || 'Application flow'}</Text>
-      </Box>
+      </ScrollView>
 
       {/* Navigation Instructions */}
-      <Box marginTop={3} flexDirection="column">
+      <Box marginTop={1} flexDirection="column">
         <Text bold>🎯 Ready to explore!</Text>
         <Box marginTop={1}>
           <Text color="green" bold>Press [w] or Space</Text>
@@ -120,6 +177,10 @@ export const OverviewScreen: React.FC<OverviewScreenProps> = ({
           <Text color="blue" bold>Press [q]</Text>
           <Text> for Q&A mode to ask follow-up questions</Text>
         </Box>
+        <Box>
+          <Text color="yellow" bold>Press [r]</Text>
+          <Text> to read the answer, citations and uncertainties</Text>
+        </Box>
         <Box>
           <Text color="magenta" bold>Press [s]</Text>
           <Text> to save full analysis report as Markdown</Text>
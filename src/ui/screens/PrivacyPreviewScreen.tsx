@@ -1,8 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { Box, Text, useInput, Static } from 'ink';
+import { Box, Text, useInput } from 'ink';
 import Spinner from 'ink-spinner';
 import { useFileDiscovery } from '../../hooks/useFileDiscovery.js';
 import type { ProjectFile } from '../../types/index.js';
+import { useContentSize } from '../layouts/ContentSize.js';
 
 interface PrivacyPreviewScreenProps {
   onConsent: () => void;
@@ -18,11 +19,14 @@ export const PrivacyPreviewScreen: React.FC<PrivacyPreviewScreenProps> = ({
   const { discoverFiles, loading } = useFileDiscovery();
   const [files, setFiles] = useState<ProjectFile[]>([]);
   const [totalSize, setTotalSize] = useState(0);
+  const { height } = useContentSize();
+  // Everything but the file list takes 15 rows
+  const visibleFiles = Math.max(3, height - 15);
 
   useEffect(() => {
     const discover = async () => {
       const discovered = await discoverFiles(process.cwd(), filters);
-      setFiles(discovered.slice(0, 20)); // Show first 20 files
+      setFiles(discovered);
       setTotalSize(discovered.reduce((sum, f) => sum + f.size, 0));
     };
     discover();
@@ -53,8 +57,8 @@ export const PrivacyPreviewScreen: React.FC<PrivacyPreviewScreenProps> = ({
   }
 
   return (
-    <Box flexDirection="column" paddingY={1}>
-      <Box marginBottom={2}>
+    <Box flexDirection="column" paddingY={1} height={height}>
+      <Box marginBottom={1}>
         <Text bold color="yellow">
           ⚠️  Privacy Preview - Review what will be sent to Gemini
         </Text>
@@ -67,29 +71,27 @@ export const PrivacyPreviewScreen: React.FC<PrivacyPreviewScreenProps> = ({
         </Text>
       </Box>
 
-      <Box flexDirection="column" marginBottom={2} height={10}>
-        <Box marginBottom={1}><Text bold>Files to analyze:</Text></Box>
-        <Static items={files.slice(0, 10)}>
-          {(file: ProjectFile) => (
-            <Box key={file.path}>
-              <Text color="gray">• </Text>
-              <Text color="cyan">{file.path}</Text>
-              <Text color="gray"> ({formatSize(file.size)})</Text>
-            </Box>
-          )}
-        </Static>
-        {files.length > 10 && (
-          <Text color="gray">... and {files.length - 10} more files</Text>
+      <Box flexDirection="column" marginBottom={1}>
+        <Text bold>Files to analyze:</Text>
+        {files.slice(0, visibleFiles).map((file: ProjectFile) => (
+          <Text key={file.path} wrap="truncate-middle">
+            <Text color="gray">• </Text>
+            <Text color="cyan">{file.path}</Text>
+            <Text color="gray"> ({formatSize(file.size)})</Text>
+          </Text>
+        ))}
+        {files.length > visibleFiles && (
+          <Text color="gray">... and {files.length - visibleFiles} more files</Text>
         )}
       </Box>
 
-      <Box flexDirection="column" marginTop={2}>
+      <Box flexDirection="column" marginTop={1}>
         <Text color="green">✓ No credentials or secrets will be sent</Text>
         <Text color="green">✓ Your code remains private and secure</Text>
         <Text color="green">✓ Read-only analysis - no files will be modified</Text>
       </Box>
 
-      <Box marginTop={2}>
+      <Box marginTop={1}>
         <Text bold>
           Press <Text color="green">Enter</Text> to approve or{' '}
           <Text color="red">Esc</Text> to cancel
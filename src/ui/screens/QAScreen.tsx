@@ -1,105 +1,185 @@
-import React, { useState } from 'react';
-import { Box, Text, Static } from 'ink';
+import React, { useState, useEffect, useRef } from 'react';
+import { Box, Text, useInput } from 'ink';
 import TextInput from 'ink-text-input';
 import Spinner from 'ink-spinner';
-import type { AnalysisResult } from '../../types/index.js';
+import type { AnalysisResult, FileLocation, IndexedProject, QAMessage } from '../../types/index.js';
+import type { QASession } from '../../services/QASession.js';
+import { parseLocation } from '../../services/FileLocator.js';
+import { SEARCH_USAGE } from '../../services/ProjectSearch.js';
+import { CancelledError } from '../../utils/cancellation.js';
+import { useContentSize } from '../layouts/ContentSize.js';
+import { ScrollView, useScroll } from '../layouts/ScrollView.js';
 
 interface QAScreenProps {
+  session?: QASession;
   context?: AnalysisResult;
+  project?: IndexedProject;
+  onOpen?: (location: FileLocation) => void;
+  onFind?: (query: string) => void;
   onBack: () => void;
 }
 
-interface QAMessage {
-  role: 'user' | 'assistant';
-  content: string;
-  citations?: Array<{ file: string; line: number }>;
-}
-
-export const QAScreen: React.FC<QAScreenProps> = ({ context, onBack }) => {
-  const [messages, setMessages] = useState<QAMessage[]>([]);
+export const QAScreen: React.FC<QAScreenProps> = ({ session, context, project, onOpen, onFind, onBack }) => {
+  // The session owns the history; this copy is what has been rendered
+  const [messages, setMessages] = useState<QAMessage[]>(() => [...(session?.messages ?? [])]);
   const [input, setInput] = useState('');
-  const [loading, setLoading] = useState(false);
+  const [pending, setPending] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const abort = useRef<AbortController | null>(null);
+  const { height } = useContentSize();
+  // The newest exchange stays in view; PgUp reads back through the conversation
+  const scroll = useScroll({ follow: true });
 
-  const handleSubmit = async () => {
-    if (!input.trim()) return;
+  const attached = session?.attached ?? [];
+
+  // Citations are numbered across the whole conversation so `/open 3` picks one
+  const citations = messages.flatMap(m => m.citations ?? []);
+  const firstCitation = messages.map((_, i) =>
+    messages.slice(0, i).reduce((n, m) => n + (m.citations?.length ?? 0), 0)
+  );
+
+  // Watch mode replaces the index and marks the result stale; later answers should see that
+  useEffect(() => {
+    if (session && project && context) session.update(project, context);
+  }, [session, project, context]);
+
+  useEffect(() => () => abort.current?.abort(), []);
 
-    const userMessage: QAMessage = { role: 'user', content: input };
-    setMessages(prev => [...prev, userMessage]);
+  useInput((char: string, key: any) => {
+    scroll.handleKey(char, key);
+  });
+
+  const handleSubmit = async () => {
+    const question = input.trim();
+    if (!question || !session) return;
     setInput('');
-    setLoading(true);
-
-    // TODO: Send to Gemini with context
-    setTimeout(() => {
-      const response: QAMessage = {
-        role: 'assistant',
-        content: 'This would be the AI response based on the project context.',
-        citations: [{ file: 'src/index.ts', line: 42 }],
-      };
-      setMessages(prev => [...prev, response]);
-      setLoading(false);
-    }, 1500);
+    setNotice(null);
+    setPending(question);
+
+    const controller = new AbortController();
+    abort.current = controller;
+    try {
+      await session.ask(question, controller.signal);
+    } catch (error) {
+      // Nothing awaits this handler, so a rethrow would end the whole TUI
+      if (!(error instanceof CancelledError)) {
+        setNotice(`Could not answer: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    } finally {
+      if (!controller.signal.aborted) {
+        setMessages([...session.messages]);
+        setPending(null);
+      }
+      abort.current = null;
+    }
   };
 
   const handleCommand = (cmd: string) => {
+    setNotice(null);
     if (cmd.startsWith('/open ')) {
-      // TODO: Implement file viewer
+      const target = cmd.slice('/open '.length).trim();
+      if (/^\d+$/.test(target)) {
+        const cite = citations[Number(target) - 1];
+        if (!cite) {
+          setNotice(`No citation ${target}; there ${citations.length === 1 ? 'is 1' : `are ${citations.length}`}`);
+          return;
+        }
+        setInput('');
+        onOpen?.({ file: cite.file, line: cite.line });
+        return;
+      }
+      const location = parseLocation(target);
+      if (!location) {
+        setNotice('Usage: /open path[:line[-end]] or /open <citation number>');
+        return;
+      }
+      setInput('');
+      onOpen?.(location);
     } else if (cmd.startsWith('/find ')) {
-      // TODO: Implement search
+      const query = cmd.slice('/find '.length).trim();
+      if (!query) {
+        setNotice(`Usage: ${SEARCH_USAGE}`);
+        return;
+      }
+      setInput('');
+      onFind?.(query);
+    } else if (cmd === '/detach') {
+      session?.detach();
+      setInput('');
     } else if (cmd === '/back' || cmd === 'q') {
       onBack();
     }
   };
 
   return (
-    <Box flexDirection="column" paddingY={1}>
-      <Box marginBottom={2}><Text bold color="cyan">💬 Q&A Mode</Text></Box>
-      
-      <Box flexDirection="column" flexGrow={1} marginBottom={2}>
-        <Static items={messages}>
-          {(msg: QAMessage, i: number) => (
-            <Box key={i} flexDirection="column" marginBottom={1}>
-              <Text bold color={msg.role === 'user' ? 'green' : 'magenta'}>
-                {msg.role === 'user' ? 'You' : 'ExplainCLI'}:
-              </Text>
-              <Text>{msg.content}</Text>
-              {msg.citations && msg.citations.length > 0 && (
-                <Box marginTop={1}>
-                  {msg.citations.map((cite, j) => (
-                    <Text key={j} color="cyan">
-                      📍 {cite.file}:{cite.line}
-                    </Text>
-                  ))}
-                </Box>
-              )}
-            </Box>
-          )}
-        </Static>
-        
-        {loading && (
-          <Box>
+    <Box flexDirection="column" height={height}>
+      <Box marginBottom={1} justifyContent="space-between">
+        <Text bold color="cyan">💬 Q&A Mode</Text>
+        {scroll.maxOffset > 0 && <Text color="gray">PgUp/PgDn Scroll</Text>}
+      </Box>
+
+      <ScrollView scroll={scroll}>
+        {messages.map((msg, i) => (
+          <Box key={i} flexDirection="column" marginBottom={1}>
+            <Text bold color={msg.role === 'user' ? 'green' : 'magenta'}>
+              {msg.role === 'user' ? 'You' : 'ExplainCLI'}:
+            </Text>
+            <Text color={msg.error ? 'red' : undefined}>{msg.content}</Text>
+            {msg.citations && msg.citations.length > 0 && (
+              <Box marginTop={1} flexDirection="column">
+                {msg.citations.map((cite, j) => (
+                  <Text key={j} color="cyan">
+                    [{firstCitation[i] + j + 1}] 📍 {cite.file}:{cite.line} <Text color="gray">{cite.claim}</Text>
+                  </Text>
+                ))}
+              </Box>
+            )}
+            {msg.notes?.map((note, j) => (
+              <Text key={j} color="gray">{note}</Text>
+            ))}
+          </Box>
+        ))}
+
+        {pending !== null && (
+          <Box flexDirection="column">
+            <Text bold color="green">You:</Text>
+            <Text>{pending}</Text>
             <Text color="magenta">
               <Spinner type="dots" /> Analyzing...
             </Text>
           </Box>
         )}
-      </Box>
 
-      <Box>
+        {notice && <Text color="yellow">{notice}</Text>}
+
+        {attached.length > 0 && pending === null && (
+          <Text color="green">
+            📎 {attached.length} search result{attached.length === 1 ? '' : 's'} attached to your next question
+            ({attached.map(a => `${a.file}:${a.line}`).join(', ')}) · /detach to drop
+          </Text>
+        )}
+
+        {!session && (
+          <Text color="yellow">Run an analysis first; follow-up questions build on its results.</Text>
+        )}
+      </ScrollView>
+
+      <Box marginTop={1}>
         <Text color="green">{'> '}</Text>
         <TextInput
           value={input}
           onChange={setInput}
           onSubmit={input.startsWith('/') ? () => handleCommand(input) : handleSubmit}
           placeholder="Ask a follow-up question or use /commands"
-          focus={!loading}
+          focus={pending === null}
         />
       </Box>
 
-      <Box marginTop={1}>
-        <Text color="gray">
-          Commands: /open file:line · /find "text" · /back or q to return
+      <Box>
+        <Text color="gray" wrap="truncate">
+          Commands: /open file:line or citation # · /find "text" · /detach · /back or q to return
         </Text>
       </Box>
     </Box>
   );
-};
\ No newline at end of file
+};
@@ -1,21 +1,44 @@
-import React from 'react';
-import { Box, Text, useInput } from 'ink';
-import type { AnalysisResult } from '../../types/index.js';
+import React, { useRef, useState } from 'react';
+import { Box, Text, useInput, type DOMElement } from 'ink';
+import type { AnalysisResult, FileLocation } from '../../types/index.js';
+import { useContentSize } from '../layouts/ContentSize.js';
+import { ScrollView, useScroll } from '../layouts/ScrollView.js';
 
 interface ResultsScreenProps {
   result?: AnalysisResult;
   question: string;
+  onOpen?: (location: FileLocation) => void;
   onBack: () => void;
 }
 
 export const ResultsScreen: React.FC<ResultsScreenProps> = ({
   result,
   question,
+  onOpen,
   onBack,
 }) => {
-  useInput((input: string) => {
+  const [selected, setSelected] = useState(0);
+  const citations = result?.citations ?? [];
+  const { height } = useContentSize();
+  const scroll = useScroll();
+  const citationRefs = useRef<Array<DOMElement | null>>([]);
+
+  const select = (index: number) => {
+    setSelected(index);
+    scroll.reveal(citationRefs.current[index]);
+  };
+
+  useInput((input: string, key: any) => {
     if (input === 'q' || input === 'b') {
       onBack();
+    } else if (key.upArrow) {
+      select(Math.max(0, selected - 1));
+    } else if (key.downArrow) {
+      select(Math.max(0, Math.min(citations.length - 1, selected + 1)));
+    } else if ((key.return || input === 'o') && onOpen && citations[selected]) {
+      onOpen({ file: citations[selected].file, line: citations[selected].line });
+    } else {
+      scroll.handleKey(input, key);
     }
   });
 
@@ -37,60 +60,66 @@ export const ResultsScreen: React.FC<ResultsScreenProps> = ({
   };
 
   return (
-    <Box flexDirection="column" paddingY={2}>
-      <Box marginBottom={2}><Text bold color="cyan">📋 Analysis Results</Text></Box>
+    <Box flexDirection="column" height={height}>
+      <Box marginBottom={1}><Text bold color="cyan">📋 Analysis Results</Text></Box>
 
-      <Box flexDirection="column" marginBottom={2}>
-        <Text bold>Question:</Text>
-        <Text color="white">{question}</Text>
-      </Box>
-
-      <Box flexDirection="column" marginBottom={2}>
-        <Text bold>Answer:</Text>
-        <Box padding={1} borderStyle="round" borderColor="green">
-          <Text>{result.answer}</Text>
+      <ScrollView scroll={scroll}>
+        <Box flexDirection="column" marginBottom={1}>
+          <Text bold>Question:</Text>
+          <Text color="white">{question}</Text>
         </Box>
-      </Box>
 
-      <Box flexDirection="column" marginBottom={2}>
-        <Text bold>Confidence: </Text>
-        <Text color={getConfidenceColor(result.confidence)}>
-          {result.confidence.toUpperCase()}
-        </Text>
-      </Box>
-
-      {result.citations && result.citations.length > 0 && (
-        <Box flexDirection="column" marginBottom={2}>
-          <Text bold>Citations:</Text>
-          {result.citations.map((cite, i) => (
-            <Box key={i} marginLeft={2}>
-              <Text color="cyan">📍 {cite.file}:{cite.line}</Text>
-              <Text color="gray"> - {cite.claim}</Text>
-            </Box>
-          ))}
+        <Box flexDirection="column" marginBottom={1}>
+          <Text bold>Answer:</Text>
+          <Box paddingX={1} borderStyle="round" borderColor="green">
+            <Text>{result.answer}</Text>
+          </Box>
         </Box>
-      )}
 
-      {result.uncertainties && result.uncertainties.length > 0 && (
-        <Box flexDirection="column" marginBottom={2}>
-          <Text bold color="yellow">Uncertainties:</Text>
-          {result.uncertainties.map((u, i) => (
-            <Box key={i} marginLeft={2}><Text color="yellow">• {u}</Text></Box>
-          ))}
+        <Box flexDirection="column" marginBottom={1}>
+          <Text bold>Confidence: </Text>
+          <Text color={getConfidenceColor(result.confidence)}>
+            {result.confidence.toUpperCase()}
+          </Text>
         </Box>
-      )}
 
-      {result.omissions && result.omissions.length > 0 && (
-        <Box flexDirection="column" marginBottom={2}>
-          <Text bold color="gray">Omitted due to limits:</Text>
-          {result.omissions.map((o, i) => (
-            <Box key={i} marginLeft={2}><Text color="gray">• {o}</Text></Box>
-          ))}
-        </Box>
-      )}
+        {result.citations && result.citations.length > 0 && (
+          <Box flexDirection="column" marginBottom={1}>
+            <Text bold>Citations:</Text>
+            {result.citations.map((cite, i) => (
+              <Box key={i} marginLeft={1} ref={(el) => { citationRefs.current[i] = el; }}>
+                <Text color="cyan" inverse={onOpen && i === selected}>{onOpen && i === selected ? '›' : ' '}📍 {cite.file}:{cite.line}</Text>
+                {cite.stale && <Text color="yellow"> (changed since)</Text>}
+                <Text color="gray"> - {cite.claim}</Text>
+              </Box>
+            ))}
+          </Box>
+        )}
 
-      <Box marginTop={2}>
-        <Text color="gray">Press q to go back</Text>
+        {result.uncertainties && result.uncertainties.length > 0 && (
+          <Box flexDirection="column" marginBottom={1}>
+            <Text bold color="yellow">Uncertainties:</Text>
+            {result.uncertainties.map((u, i) => (
+              <Box key={i} marginLeft={2}><Text color="yellow">• {u}</Text></Box>
+            ))}
+          </Box>
+        )}
+
+        {result.omissions && result.omissions.length > 0 && (
+          <Box flexDirection="column">
+            <Text bold color="gray">Omitted due to limits:</Text>
+            {result.omissions.map((o, i) => (
+              <Box key={i} marginLeft={2}><Text color="gray">• {o}</Text></Box>
+            ))}
+          </Box>
+        )}
+      </ScrollView>
+
+      <Box marginTop={1}>
+        <Text color="gray" wrap="truncate">
+          {citations.length > 0 && onOpen ? '↑↓ Select citation · Enter Open in viewer · ' : ''}
+          {scroll.maxOffset > 0 ? 'PgUp/PgDn Scroll · ' : ''}Press q to go back
+        </Text>
       </Box>
     </Box>
   );
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Box, Text } from 'ink';
 import Spinner from 'ink-spinner';
+import { useContentSize } from '../layouts/ContentSize.js';
 
 interface ScanningScreenProps {
   progress?: {
@@ -18,6 +19,9 @@ interface ScanningScreenProps {
 export const ScanningScreen: React.FC<ScanningScreenProps> = ({ progress: scanProgress }) => {
   // Simulate progress if no real progress yet
   const [simulatedProgress, setSimulatedProgress] = useState(0);
+  const { width, height } = useContentSize();
+  // Room for the file path after "Current: "
+  const pathRoom = Math.max(20, width - 9);
   
   useEffect(() => {
     if (!scanProgress?.totalFiles) {
@@ -57,9 +61,9 @@ export const ScanningScreen: React.FC<ScanningScreenProps> = ({ progress: scanPr
   const isAnalyzing = scanProgress?.currentFile && scanProgress.currentFile.startsWith('[');
 
   return (
-    <Box flexDirection="column" paddingY={2}>
+    <Box flexDirection="column" paddingY={1} height={height}>
       {/* Header */}
-      <Box marginBottom={2}>
+      <Box marginBottom={1}>
         <Text color="cyan">
           <Spinner type="dots" /> {
             isAnalyzing
@@ -70,7 +74,7 @@ export const ScanningScreen: React.FC<ScanningScreenProps> = ({ progress: scanPr
       </Box>
 
       {/* Stats Section */}
-      <Box flexDirection="column" marginBottom={2}>
+      <Box flexDirection="column" marginBottom={1}>
         {/* Files scanned - only show during indexing */}
         {!isAnalyzing && (stats.filesScanned > 0 || scanProgress?.totalFiles) ? (
           <Box>
@@ -94,7 +98,7 @@ export const ScanningScreen: React.FC<ScanningScreenProps> = ({ progress: scanPr
         {!isAnalyzing && stats.frameworks && stats.frameworks.length > 0 ? (
           <Box>
             <Text>🔧 Frameworks: </Text>
-            <Text color="yellow">{stats.frameworks.join(', ')}</Text>
+            <Text color="yellow" wrap="truncate">{stats.frameworks.join(', ')}</Text>
           </Box>
         ) : null}
         
@@ -111,12 +115,12 @@ export const ScanningScreen: React.FC<ScanningScreenProps> = ({ progress: scanPr
           <Box marginTop={1}>
             {isAnalyzing ? (
               // This is a progress message with percentage - show it prominently
-              <Text bold color="cyan">{scanProgress.currentFile}</Text>
+              <Text bold color="cyan" wrap="truncate">{scanProgress.currentFile}</Text>
             ) : (
               // This is a file path during indexing
               <Text color="gray">
-                Current: {scanProgress.currentFile.length > 50 
-                  ? '...' + scanProgress.currentFile.slice(-47) 
+                Current: {scanProgress.currentFile.length > pathRoom
+                  ? '...' + scanProgress.currentFile.slice(-(pathRoom - 3))
                   : scanProgress.currentFile}
               </Text>
             )}
@@ -0,0 +1,147 @@
+import React from 'react';
+import { Box, Text, useInput } from 'ink';
+import type { FileLocation, SearchHit, SearchResult } from '../../types/index.js';
+import { useContentSize } from '../layouts/ContentSize.js';
+
+interface SearchScreenProps {
+  input: string;
+  result?: SearchResult;
+  error?: string;
+  selected: number;
+  /** Hits attached to the next Q&A question, as `file:line` */
+  attached: string[];
+  onSelect: (index: number) => void;
+  onOpen: (location: FileLocation) => void;
+  onToggleAttach?: (hit: SearchHit) => void;
+  onBack: () => void;
+}
+
+export const SearchScreen: React.FC<SearchScreenProps> = ({
+  input,
+  result,
+  error,
+  selected,
+  attached,
+  onSelect,
+  onOpen,
+  onToggleAttach,
+  onBack,
+}) => {
+  const hits = result?.hits ?? [];
+  const hit = hits[selected];
+  const { height } = useContentSize();
+
+  // Hits listed at once, as many as fit with their context; the window follows the selection.
+  // The title, summary and footer take 4 rows, and each hit its heading, lines and a gap
+  const rowsPerHit = 3 + 2 * (result?.query.context ?? 0);
+  const visibleHits = Math.max(1, Math.floor((height - 4) / rowsPerHit));
+
+  useInput((char: string, key: any) => {
+    if (char === 'q' || char === 'b') {
+      onBack();
+    } else if (key.upArrow || char === 'k') {
+      onSelect(Math.max(0, selected - 1));
+    } else if (key.downArrow || char === 'j') {
+      onSelect(Math.min(hits.length - 1, selected + 1));
+    } else if (key.pageUp) {
+      onSelect(Math.max(0, selected - visibleHits));
+    } else if (key.pageDown) {
+      onSelect(Math.min(hits.length - 1, selected + visibleHits));
+    } else if ((key.return || char === 'o') && hit) {
+      onOpen({ file: hit.file, line: hit.line });
+    } else if (char === 'a' && hit && onToggleAttach) {
+      onToggleAttach(hit);
+    }
+  });
+
+  if (error) {
+    return (
+      <Box flexDirection="column">
+        <Text bold color="cyan">🔍 /find {input}</Text>
+        <Box marginTop={1}><Text color="red">{error}</Text></Box>
+        <Box marginTop={1}><Text color="gray">Press q to go back</Text></Box>
+      </Box>
+    );
+  }
+
+  if (!result) {
+    return (
+      <Box>
+        <Text color="cyan">🔍 Searching for {input}...</Text>
+      </Box>
+    );
+  }
+
+  const { query } = result;
+  const fileCount = new Set(hits.map(h => h.file)).size;
+  const start = Math.max(0, Math.min(selected - Math.floor(visibleHits / 2), hits.length - visibleHits));
+  const shown = hits.slice(start, start + visibleHits);
+
+  return (
+    <Box flexDirection="column" height={height}>
+      <Box justifyContent="space-between">
+        <Text bold color="cyan" wrap="truncate">🔍 /find {input}</Text>
+        <Text color="gray" wrap="truncate">
+          {query.mode}{query.caseSensitive ? ', case-sensitive' : ''}
+          {query.include.length > 0 ? ` · in ${query.include.join(', ')}` : ''}
+          {query.exclude.length > 0 ? ` · not ${query.exclude.join(', ')}` : ''}
+        </Text>
+      </Box>
+      <Box marginBottom={1}>
+        <Text color="gray" wrap="truncate">
+          {hits.length === 0
+            ? `No matches in ${result.filesSearched} files`
+            : `${hits.length} match${hits.length === 1 ? '' : 'es'} in ${fileCount} of ${result.filesSearched} files`}
+          {result.omitted > 0 ? ` (${result.omitted} lower-ranked matches left out; narrow with in:/not:)` : ''}
+        </Text>
+      </Box>
+
+      {shown.map((h, i) => {
+        const index = start + i;
+        const isSelected = index === selected;
+        const isAttached = attached.includes(`${h.file}:${h.line}`);
+        const first = h.line - h.before.length;
+
+        return (
+          <Box key={`${h.file}:${h.line}`} flexDirection="column" marginBottom={1}>
+            <Text wrap="truncate">
+              <Text color="cyan" inverse={isSelected}>{isSelected ? '›' : ' '}{h.file}:{h.line}</Text>
+              {h.symbol && <Text color="gray"> in {h.symbol}</Text>}
+              {isAttached && <Text color="green"> 📎 attached</Text>}
+            </Text>
+            {[...h.before, h.text, ...h.after].map((line, j) => {
+              const lineNum = first + j;
+              return (
+                <Text key={lineNum} color="gray" wrap="truncate">
+                  {String(lineNum).padStart(6, ' ')} │{' '}
+                  {lineNum === h.line ? <MatchLine hit={h} /> : <Text dimColor>{line}</Text>}
+                </Text>
+              );
+            })}
+          </Box>
+        );
+      })}
+
+      <Box flexGrow={1} />
+
+      <Box>
+        <Text color="gray" wrap="truncate">
+          {hits.length > 0 ? `${selected + 1}/${hits.length} · ↑↓ Select · Enter Open in viewer · ` : ''}
+          {onToggleAttach && hits.length > 0 ? 'a Attach to next question · ' : ''}q Back
+        </Text>
+      </Box>
+    </Box>
+  );
+};
+
+const MatchLine: React.FC<{ hit: SearchHit }> = ({ hit }) => {
+  const start = hit.column - 1;
+  const end = start + hit.length;
+  return (
+    <Text color="white">
+      {hit.text.slice(0, start)}
+      <Text color="black" backgroundColor="yellow">{hit.text.slice(start, end)}</Text>
+      {hit.text.slice(end)}
+    </Text>
+  );
+};
@@ -1,13 +1,19 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Box, Text, useInput } from 'ink';
-import type { WalkthroughStep } from '../../types/index.js';
+import type { FileLocation, WalkthroughStep } from '../../types/index.js';
 import fs from 'node:fs/promises';
 import path from 'node:path';
+import { CodeView, fitCode, gutterWidth, pageStart } from '../syntax/CodeView.js';
+import { grammarFor } from '../syntax/grammars.js';
+import { tokenizeLines } from '../syntax/tokenize.js';
+import { useContentSize } from '../layouts/ContentSize.js';
+import { ScrollView, useScroll } from '../layouts/ScrollView.js';
 
 interface WalkthroughScreenProps {
   steps: WalkthroughStep[];
   currentStep: number;
   onStepChange: (step: number) => void;
+  onOpen?: (location: FileLocation) => void;
   onBack: () => void;
 }
 
@@ -15,16 +21,33 @@ export const WalkthroughScreen: React.FC<WalkthroughScreenProps> = ({
   steps,
   currentStep,
   onStepChange,
+  onOpen,
   onBack,
 }) => {
   const [fileContent, setFileContent] = useState<string[]>([]);
   const [scrollOffset, setScrollOffset] = useState(0);
   const [viewMode, setViewMode] = useState<'code' | 'explanation' | 'fullfile'>('code');
   const [loading, setLoading] = useState(true);
+  const { width, height, split } = useContentSize();
+  const explanationScroll = useScroll();
   
   const step = steps[currentStep];
-  const maxVisibleLines = 30; // Number of lines to show at once in zoomed view
-  const maxFullFileLines = 50; // Number of lines to show in full file view
+  // Tokenized whole so comments and strings spanning lines color correctly in any slice
+  const tokens = useMemo(
+    () => tokenizeLines(fileContent, step ? grammarFor(step.file) : undefined),
+    [fileContent, step?.file]
+  );
+
+  // Step header, file title, border and footer take 7 rows, the stale warning 1 more
+  const codeRows = Math.max(3, height - 7 - (step?.stale ? 1 : 0));
+  // Code on the left and the explanation on the right when there is room for both
+  const showSplit = split && viewMode !== 'explanation';
+  const paneWidth = showSplit ? Math.floor(width * 0.6) : width;
+  // Border and padding take 4 columns
+  const codeWidth = Math.max(10, paneWidth - 4 - gutterWidth(fileContent.length));
+  const maxOffset = pageStart(tokens, fileContent.length, codeRows, codeWidth);
+  const offset = Math.min(scrollOffset, maxOffset);
+  const { rows, end } = fitCode(tokens, offset, codeRows, codeWidth);
   
   // Load the full file content
   useEffect(() => {
@@ -43,7 +66,7 @@ export const WalkthroughScreen: React.FC<WalkthroughScreenProps> = ({
         
         // Scroll to the highlighted section
         const targetLine = step.lineRange[0] - 1;
-        const centerOffset = Math.max(0, targetLine - Math.floor(maxVisibleLines / 2));
+        const centerOffset = Math.max(0, targetLine - Math.floor(codeRows / 2));
         setScrollOffset(centerOffset);
         setLoading(false);
       } catch (error) {
@@ -55,7 +78,8 @@ export const WalkthroughScreen: React.FC<WalkthroughScreenProps> = ({
     };
     
     loadFile();
-  }, [step, maxVisibleLines]);
+    explanationScroll.scrollTo(0);
+  }, [step]);
 
   useInput((input: string, key: any) => {
     if (key.leftArrow && currentStep > 0) {
@@ -74,24 +98,22 @@ export const WalkthroughScreen: React.FC<WalkthroughScreenProps> = ({
     } else if (input === 'f') {
       // Quick toggle to full file view
       setViewMode(viewMode === 'fullfile' ? 'code' : 'fullfile');
+    } else if (input === 'o' && step && onOpen) {
+      onOpen({ file: step.file, line: step.lineRange[0], lineEnd: step.lineRange[1] });
     } else if (input === 'q') {
       onBack();
-    } else if (key.upArrow && scrollOffset > 0) {
-      const maxLines = viewMode === 'fullfile' ? maxFullFileLines : maxVisibleLines;
-      setScrollOffset(Math.max(0, scrollOffset - 1));
+    } else if (viewMode === 'explanation') {
+      explanationScroll.handleKey(input, key, true);
+    } else if (showSplit && (input === '[' || input === ']')) {
+      explanationScroll.scrollBy((input === '[' ? -1 : 1) * Math.max(1, explanationScroll.viewHeight - 1));
+    } else if (key.upArrow) {
+      setScrollOffset(Math.max(0, offset - 1));
     } else if (key.downArrow) {
-      const maxLines = viewMode === 'fullfile' ? maxFullFileLines : maxVisibleLines;
-      if (scrollOffset < fileContent.length - maxLines) {
-        setScrollOffset(Math.min(fileContent.length - maxLines, scrollOffset + 1));
-      }
-    } else if (key.pageUp && scrollOffset > 0) {
-      const maxLines = viewMode === 'fullfile' ? maxFullFileLines : maxVisibleLines;
-      setScrollOffset(Math.max(0, scrollOffset - maxLines));
+      setScrollOffset(Math.min(maxOffset, offset + 1));
+    } else if (key.pageUp) {
+      setScrollOffset(pageStart(tokens, offset, codeRows, codeWidth));
     } else if (key.pageDown) {
-      const maxLines = viewMode === 'fullfile' ? maxFullFileLines : maxVisibleLines;
-      if (scrollOffset < fileContent.length - maxLines) {
-        setScrollOffset(Math.min(fileContent.length - maxLines, scrollOffset + maxLines));
-      }
+      setScrollOffset(Math.min(maxOffset, end));
     }
   });
 
@@ -111,121 +133,83 @@ export const WalkthroughScreen: React.FC<WalkthroughScreenProps> = ({
     );
   }
 
-  const renderCodeView = () => {
-    const visibleLines = fileContent.slice(scrollOffset, scrollOffset + maxVisibleLines);
-    const [highlightStart, highlightEnd] = step.lineRange;
-    
-    return (
-      <Box flexDirection="column">
-        <Box marginBottom={1} justifyContent="space-between">
-          <Text bold>📄 {step.file} (Zoomed View)</Text>
-          <Text color="gray">
-            Lines {scrollOffset + 1}-{Math.min(scrollOffset + maxVisibleLines, fileContent.length)} of {fileContent.length}
-          </Text>
-        </Box>
-        <Box borderStyle="round" borderColor="cyan" padding={1} flexDirection="column">
-          {visibleLines.map((line, i) => {
-            const lineNum = scrollOffset + i + 1;
-            const isHighlighted = lineNum >= highlightStart && lineNum <= highlightEnd;
-            
-            return (
-              <Box key={i}>
-                <Text color="gray">{String(lineNum).padStart(4, ' ')} │ </Text>
-                <Text 
-                  color={isHighlighted ? 'yellow' : 'white'}
-                  backgroundColor={isHighlighted ? 'gray' : undefined}
-                >
-                  {line || ' '}
-                </Text>
-              </Box>
-            );
-          })}
-        </Box>
-        <Box marginTop={1}>
-          <Text color="gray">
-            ↑↓ Scroll · PgUp/PgDn Page · Highlighted: Lines {highlightStart}-{highlightEnd}
-          </Text>
-        </Box>
-      </Box>
-    );
-  };
+  const [highlightStart, highlightEnd] = step.lineRange;
 
-  const renderFullFileView = () => {
-    const visibleLines = fileContent.slice(scrollOffset, scrollOffset + maxFullFileLines);
-    const [highlightStart, highlightEnd] = step.lineRange;
-    
-    return (
-      <Box flexDirection="column">
-        <Box marginBottom={1} justifyContent="space-between">
-          <Text bold>📄 {step.file} (Full File View)</Text>
+  const renderCodeView = (full: boolean) => (
+    <Box flexDirection="column" width={paneWidth} flexShrink={0}>
+      <Box justifyContent="space-between">
+        <Text bold wrap="truncate-start">📄 {step.file} ({full ? 'Full File View' : 'Zoomed View'})</Text>
+        <Box flexShrink={0} marginLeft={1}>
           <Text color="gray">
-            Lines {scrollOffset + 1}-{Math.min(scrollOffset + maxFullFileLines, fileContent.length)} of {fileContent.length}
-          </Text>
-        </Box>
-        <Box borderStyle="single" borderColor="blue" padding={1} flexDirection="column">
-          {visibleLines.map((line, i) => {
-            const lineNum = scrollOffset + i + 1;
-            const isHighlighted = lineNum >= highlightStart && lineNum <= highlightEnd;
-            
-            return (
-              <Box key={i}>
-                <Text color="gray">{String(lineNum).padStart(4, ' ')} │ </Text>
-                <Text 
-                  color={isHighlighted ? 'yellow' : (line.trim().startsWith('//') || line.trim().startsWith('/*') || line.trim().startsWith('*') ? 'gray' : 'white')}
-                  dimColor={!isHighlighted}
-                >
-                  {line || ' '}
-                </Text>
-              </Box>
-            );
-          })}
-        </Box>
-        <Box marginTop={1}>
-          <Text color="gray">
-            ↑↓ Scroll · PgUp/PgDn Page · Important section highlighted: Lines {highlightStart}-{highlightEnd}
+            Lines {offset + 1}-{end} of {fileContent.length} · {full ? 'important section' : 'highlighted'} {highlightStart}-{highlightEnd}
           </Text>
         </Box>
       </Box>
-    );
-  };
+      <Box
+        borderStyle={full ? 'single' : 'round'}
+        borderColor={full ? 'blue' : 'cyan'}
+        paddingX={1}
+        flexDirection="column"
+        height={codeRows + 2}
+        overflow="hidden"
+      >
+        <CodeView rows={rows} lineCount={fileContent.length} range={step.lineRange} dimmed={full} />
+      </Box>
+    </Box>
+  );
 
   const renderExplanationView = () => (
-    <Box flexDirection="column">
-      <Box marginBottom={2}>
-        <Text bold>💡 Explanation for {step.file} (Lines {step.lineRange[0]}-{step.lineRange[1]})</Text>
+    <Box flexDirection="column" flexGrow={1}>
+      <Box marginBottom={1}>
+        <Text bold wrap="truncate">💡 Explanation for {step.symbol ? `${step.symbol} in ` : ''}{step.file} (Lines {highlightStart}-{highlightEnd})</Text>
       </Box>
-      
-      <Box flexDirection="column" marginBottom={2}>
-        <Text bold color="cyan">What this code does:</Text>
-        <Box paddingLeft={2}>
-          <Text>{step.explanation}</Text>
-        </Box>
-      </Box>
-      
-      <Box flexDirection="column" marginBottom={2}>
-        <Text bold color="yellow">Why this matters:</Text>
-        <Box paddingLeft={2}>
-          <Text>{step.whyRelevant}</Text>
+
+      <ScrollView scroll={explanationScroll}>
+        <Box flexDirection="column" marginBottom={1}>
+          <Text bold color="cyan">What this code does:</Text>
+          <Box paddingLeft={2}>
+            <Text>{step.explanation}</Text>
+          </Box>
         </Box>
-      </Box>
-      
-      {step.linksTo && step.linksTo.length > 0 && (
-        <Box flexDirection="column">
-          <Text bold color="green">Connections:</Text>
-          {step.linksTo.map((link, i) => (
-            <Box key={i} paddingLeft={2}>
-              <Text>→ {link}</Text>
-            </Box>
-          ))}
+
+        <Box flexDirection="column" marginBottom={1}>
+          <Text bold color="yellow">Why this matters:</Text>
+          <Box paddingLeft={2}>
+            <Text>{step.whyRelevant}</Text>
+          </Box>
         </Box>
-      )}
+
+        {step.linksTo && step.linksTo.length > 0 && (
+          <Box flexDirection="column">
+            <Text bold color="green">Connections:</Text>
+            {step.linksTo.map((link, i) => (
+              <Box key={i} paddingLeft={2}>
+                <Text>→ {link}</Text>
+              </Box>
+            ))}
+          </Box>
+        )}
+      </ScrollView>
     </Box>
   );
 
+  const renderMain = () => {
+    if (viewMode === 'explanation') return renderExplanationView();
+    if (!showSplit) return renderCodeView(viewMode === 'fullfile');
+    return (
+      <Box>
+        {renderCodeView(viewMode === 'fullfile')}
+        <Box marginLeft={2} flexGrow={1} flexShrink={1}>
+          {renderExplanationView()}
+        </Box>
+      </Box>
+    );
+  };
+
   return (
-    <Box flexDirection="column" paddingY={1}>
+    <Box flexDirection="column" height={height}>
       {/* Progress Header */}
-      <Box marginBottom={2} justifyContent="space-between">
+      <Box marginBottom={1} justifyContent="space-between">
         <Text bold color="cyan">
           Step {currentStep + 1}/{steps.length}
         </Text>
@@ -234,14 +218,20 @@ export const WalkthroughScreen: React.FC<WalkthroughScreenProps> = ({
         </Text>
       </Box>
 
+      {step.stale && (
+        <Box>
+          <Text color="yellow" wrap="truncate">⚠ This code changed after the step was generated; the explanation may be out of date</Text>
+        </Box>
+      )}
+
       {/* Main Content */}
-      {viewMode === 'code' ? renderCodeView() : 
-       viewMode === 'fullfile' ? renderFullFileView() : 
-       renderExplanationView()}
+      <Box height={codeRows + 3} flexDirection="column">
+        {renderMain()}
+      </Box>
 
       {/* Navigation Footer */}
-      <Box marginTop={2} flexDirection="column">
-        <Box>
+      <Box marginTop={1}>
+        <Text wrap="truncate">
           <Text color="green" bold>Space/→</Text>
           <Text> Next · </Text>
           <Text color="yellow" bold>←</Text>
@@ -250,10 +240,18 @@ export const WalkthroughScreen: React.FC<WalkthroughScreenProps> = ({
           <Text> Full File · </Text>
           <Text color="blue" bold>Tab</Text>
           <Text> Cycle Views · </Text>
+          {showSplit && (
+            <>
+              <Text color="blue" bold>[ ]</Text>
+              <Text> Scroll Explanation · </Text>
+            </>
+          )}
+          <Text color="cyan" bold>o</Text>
+          <Text> Open File · </Text>
           <Text color="red" bold>q</Text>
           <Text> Back</Text>
-        </Box>
+        </Text>
       </Box>
     </Box>
   );
-};
\ No newline at end of file
+};
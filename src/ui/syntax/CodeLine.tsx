@@ -0,0 +1,94 @@
+import React from 'react';
+import { Text } from 'ink';
+import chalk from 'chalk';
+import type { Token, TokenKind } from './tokenize.js';
+
+type Palette = Partial<Record<TokenKind, string>>;
+
+interface Theme {
+  tokens: Palette;
+  /** Background behind highlighted lines; the gutter marker alone shows them without color */
+  highlight?: string;
+  /** Token colors that would vanish against `highlight` */
+  onHighlight?: Palette;
+}
+
+// 256-color and truecolor terminals
+const RICH: Theme = {
+  tokens: {
+    keyword: '#c678dd',
+    string: '#98c379',
+    comment: '#7f848e',
+    number: '#d19a66',
+    constant: '#d19a66',
+    type: '#e5c07b',
+    function: '#61afef',
+    property: '#e06c75',
+    decorator: '#56b6c2',
+    variable: '#e06c75',
+    tag: '#e06c75',
+    meta: '#56b6c2',
+  },
+  highlight: '#3e4451',
+};
+
+// The 16 ANSI colors, which terminal themes remap; avoids yellow so it cannot be lost in the range highlight
+const BASIC: Theme = {
+  tokens: {
+    keyword: 'magenta',
+    string: 'green',
+    comment: 'gray',
+    number: 'red',
+    constant: 'red',
+    type: 'cyan',
+    function: 'blue',
+    property: 'red',
+    decorator: 'cyan',
+    variable: 'red',
+    tag: 'red',
+    meta: 'cyan',
+  },
+  highlight: 'gray',
+  onHighlight: { comment: 'white' },
+};
+
+const PLAIN: Theme = { tokens: {} };
+
+/**
+ * The theme for this terminal, from chalk's color support detection
+ * (which honors FORCE_COLOR and `NO_COLOR`, as set in the entry point).
+ */
+export function currentTheme(): Theme {
+  if (chalk.level >= 2) return RICH;
+  if (chalk.level === 1) return BASIC;
+  return PLAIN;
+}
+
+interface CodeLineProps {
+  tokens: Token[];
+  /** Part of the range the step or citation points at */
+  highlighted?: boolean;
+  /** Lines outside the range in the full-file view */
+  dimmed?: boolean;
+}
+
+/**
+ * One row of syntax-highlighted code. Highlighted lines keep their token
+ * colors on a tinted background, so the range stays readable as code.
+ * Anything wider than the row is cut; CodeView wraps lines before this.
+ */
+export const CodeLine: React.FC<CodeLineProps> = ({ tokens, highlighted, dimmed }) => {
+  const theme = currentTheme();
+  if (tokens.length === 0 || (tokens.length === 1 && !tokens[0].text)) return <Text> </Text>;
+  const palette = highlighted ? { ...theme.tokens, ...theme.onHighlight } : theme.tokens;
+
+  return (
+    <Text backgroundColor={highlighted ? theme.highlight : undefined} dimColor={dimmed && !highlighted} wrap="truncate">
+      {tokens.map((token, i) => (
+        <Text key={i} color={palette[token.kind]} italic={token.kind === 'comment' && theme !== PLAIN}>
+          {token.text}
+        </Text>
+      ))}
+    </Text>
+  );
+};
@@ -0,0 +1,103 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import { CodeLine } from './CodeLine.js';
+import type { Token } from './tokenize.js';
+
+/** One screen row: a source line, or the part of one that wrapped onto the next row */
+export interface CodeRow {
+  line: number;
+  tokens: Token[];
+  continuation: boolean;
+}
+
+const TAB = '  ';
+
+// `▌ 123 │ `: marker, line number, separator
+export const gutterWidth = (lineCount: number): number => String(lineCount).length + 4;
+
+const lengthOf = (tokens: Token[]) => tokens.reduce((sum, t) => sum + Array.from(t.text.replace(/\t/g, TAB)).length, 0);
+
+/** Rows a line takes when soft-wrapped to `width` columns */
+export const rowsOf = (tokens: Token[], width: number): number => Math.max(1, Math.ceil(lengthOf(tokens) / width));
+
+/** Splits a line's tokens into rows of at most `width` characters, keeping token colors */
+export function wrapTokens(tokens: Token[], width: number): Token[][] {
+  const rows: Token[][] = [[]];
+  let used = 0;
+  for (const token of tokens) {
+    const chars = Array.from(token.text.replace(/\t/g, TAB));
+    while (chars.length > 0) {
+      if (used === width) {
+        rows.push([]);
+        used = 0;
+      }
+      const piece = chars.splice(0, width - used);
+      rows[rows.length - 1].push({ kind: token.kind, text: piece.join('') });
+      used += piece.length;
+    }
+  }
+  return rows;
+}
+
+/**
+ * The rows that fit in `height` starting at line `offset` (0-based), and
+ * `end`, the index just past the last line shown. A line that does not fit
+ * whole waits for the next page, unless it is the first, which is cut.
+ */
+export function fitCode(lines: Token[][], offset: number, height: number, width: number): { rows: CodeRow[]; end: number } {
+  const rows: CodeRow[] = [];
+  let line = offset;
+  while (line < lines.length && rows.length < height) {
+    const wrapped = wrapTokens(lines[line], width);
+    if (rows.length > 0 && rows.length + wrapped.length > height) break;
+    wrapped.slice(0, height - rows.length).forEach((tokens, i) => {
+      rows.push({ line: line + 1, tokens, continuation: i > 0 });
+    });
+    line++;
+  }
+  return { rows, end: line };
+}
+
+/** The first line of the page that ends just before line `end`, for paging back and for the last page */
+export function pageStart(lines: Token[][], end: number, height: number, width: number): number {
+  let used = 0;
+  let start = end;
+  while (start > 0) {
+    used += rowsOf(lines[start - 1], width);
+    if (used > height) break;
+    start--;
+  }
+  return Math.min(start, Math.max(0, end - 1));
+}
+
+interface CodeViewProps {
+  rows: CodeRow[];
+  lineCount: number;
+  /** 1-based inclusive lines to mark; `[0, 0]` for none */
+  range: [number, number];
+  /** Dim lines outside the range */
+  dimmed?: boolean;
+}
+
+/** Numbered, syntax-highlighted code rows as laid out by `fitCode` */
+export const CodeView: React.FC<CodeViewProps> = ({ rows, lineCount, range, dimmed }) => {
+  const digits = String(lineCount).length;
+
+  return (
+    <Box flexDirection="column">
+      {rows.map((row, i) => {
+        const isHighlighted = row.line >= range[0] && row.line <= range[1];
+        const number = row.continuation ? `${' '.repeat(digits)} ┆ ` : `${String(row.line).padStart(digits, ' ')} │ `;
+
+        return (
+          <Box key={i}>
+            <Text color={isHighlighted ? 'yellow' : 'gray'}>
+              {isHighlighted ? '▌' : ' '}{number}
+            </Text>
+            <CodeLine tokens={row.tokens} highlighted={isHighlighted} dimmed={dimmed} />
+          </Box>
+        );
+      })}
+    </Box>
+  );
+};
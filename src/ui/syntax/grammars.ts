@@ -0,0 +1,301 @@
+import path from 'node:path';
+import { languageOf } from '../../analyzers/index.js';
+
+export interface StringRule {
+  open: string;
+  close: string;
+  /** Backslash escapes the next character */
+  escape: boolean;
+  /** May continue onto following lines */
+  multiline: boolean;
+}
+
+/**
+ * What the tokenizer needs to know about a language. Anything not covered
+ * (operators, punctuation, plain identifiers) is left uncolored.
+ */
+export interface Grammar {
+  lineComments: string[];
+  blockComments: Array<[string, string]>;
+  /** Tried in order, so `"""` must come before `"` */
+  strings: StringRule[];
+  keywords: Set<string>;
+  /** Literals and well-known names: `true`, `null`, `self`, ... */
+  constants: Set<string>;
+  caseInsensitive?: boolean;
+  /** `'` opens a string only when it is a complete character literal, so Rust lifetimes stay plain */
+  charLiterals?: boolean;
+  /** Letters that may prefix a string, as in Python's `f"..."` or C#'s `@"..."` */
+  stringPrefixes?: RegExp;
+  /** `@name` is a decorator or annotation */
+  decorators?: boolean;
+  /** `$name`, `${name}` (or `@name` for Ruby) are variables */
+  variables?: RegExp;
+  /** `#include` and friends at the start of a line */
+  preprocessor?: boolean;
+  /** `#[derive(...)]` style attributes */
+  attributes?: boolean;
+  /** `<Tag` and `</Tag` are markup */
+  tags?: boolean;
+  /** Names before `:` or `=` at the start of a line are keys (YAML, TOML) */
+  keys?: RegExp;
+  /** Strings followed by `:` are keys (JSON) */
+  stringKeys?: boolean;
+}
+
+const str = (open: string, close = open, escape = true, multiline = false): StringRule => ({ open, close, escape, multiline });
+const words = (list: string) => new Set(list.split(/\s+/).filter(Boolean));
+
+const C_STYLE = {
+  lineComments: ['//'],
+  blockComments: [['/*', '*/']] as Array<[string, string]>,
+};
+
+const JS_KEYWORDS = words(`
+  break case catch class const continue debugger default delete do else enum export extends finally for
+  function if import in instanceof let new of return super switch throw try typeof var void while with
+  yield async await static get set from as type interface implements declare namespace abstract private
+  protected public readonly keyof infer is satisfies module override
+`);
+
+const javascript: Grammar = {
+  ...C_STYLE,
+  strings: [str('"'), str("'"), str('`', '`', true, true)],
+  keywords: JS_KEYWORDS,
+  constants: words('true false null undefined NaN Infinity this super'),
+  decorators: true,
+};
+
+const C_KEYWORDS = `
+  auto break case char const continue default do double else enum extern float for goto if inline int
+  long register restrict return short signed sizeof static struct switch typedef union unsigned void
+  volatile while
+`;
+
+const c: Grammar = {
+  ...C_STYLE,
+  strings: [str('"')],
+  charLiterals: true,
+  keywords: words(C_KEYWORDS),
+  constants: words('true false NULL'),
+  preprocessor: true,
+};
+
+const cpp: Grammar = {
+  ...c,
+  strings: [str('R"(', ')"', false, true), str('"')],
+  keywords: words(`${C_KEYWORDS}
+    alignas alignof and asm bool catch class constexpr const_cast decltype delete dynamic_cast explicit
+    export friend mutable namespace new noexcept operator private protected public reinterpret_cast
+    static_assert static_cast template this thread_local throw try typeid typename using virtual override
+    final co_await co_return co_yield concept requires
+  `),
+  constants: words('true false NULL nullptr this'),
+};
+
+const GRAMMARS: Record<string, Grammar> = {
+  typescript: javascript,
+  javascript,
+  vue: { ...javascript, tags: true },
+  svelte: { ...javascript, tags: true },
+  python: {
+    lineComments: ['#'],
+    blockComments: [],
+    strings: [str('"""', '"""', true, true), str("'''", "'''", true, true), str('"'), str("'")],
+    stringPrefixes: /^(?:[rRbBuUfF]|[rR][bBfF]|[bBfF][rR])$/,
+    keywords: words(`
+      and as assert async await break class continue def del elif else except finally for from global if
+      import in is lambda nonlocal not or pass raise return try while with yield match case
+    `),
+    constants: words('True False None self cls'),
+    decorators: true,
+  },
+  java: {
+    ...C_STYLE,
+    strings: [str('"""', '"""', true, true), str('"')],
+    charLiterals: true,
+    keywords: words(`
+      abstract assert boolean break byte case catch char class const continue default do double else enum
+      extends final finally float for goto if implements import instanceof int interface long native new
+      package private protected public return short static strictfp super switch synchronized throw throws
+      transient try void volatile while var record sealed permits yield
+    `),
+    constants: words('true false null this super'),
+    decorators: true,
+  },
+  kotlin: {
+    ...C_STYLE,
+    strings: [str('"""', '"""', false, true), str('"')],
+    charLiterals: true,
+    keywords: words(`
+      as break class continue do else for fun if in interface is object package return throw try typealias
+      val var when while by catch constructor finally get import init set where abstract annotation
+      companion const data enum external final infix inline inner internal lateinit open operator out
+      override private protected public reified sealed suspend tailrec vararg
+    `),
+    constants: words('true false null this super it'),
+    decorators: true,
+  },
+  go: {
+    ...C_STYLE,
+    strings: [str('"'), str('`', '`', false, true)],
+    charLiterals: true,
+    keywords: words(`
+      break case chan const continue default defer else fallthrough for func go goto if import interface
+      map package range return select struct switch type var
+    `),
+    constants: words('true false nil iota'),
+  },
+  rust: {
+    ...C_STYLE,
+    strings: [str('r#"', '"#', false, true), str('"', '"', true, true)],
+    stringPrefixes: /^b$/,
+    charLiterals: true,
+    keywords: words(`
+      as async await break const continue crate dyn else enum extern fn for if impl in let loop match mod
+      move mut pub ref return static struct super trait type unsafe use where while
+    `),
+    constants: words('true false self Self None Some Ok Err'),
+    attributes: true,
+  },
+  c,
+  cpp,
+  csharp: {
+    ...C_STYLE,
+    strings: [str('"""', '"""', false, true), str('@"', '"', false, true), str('"')],
+    stringPrefixes: /^\$$/,
+    charLiterals: true,
+    keywords: words(`
+      abstract as base bool break byte case catch char checked class const continue decimal default delegate
+      do double else enum event explicit extern finally fixed float for foreach goto if implicit in int
+      interface internal is lock long namespace new object operator out override params private protected
+      public readonly ref return sbyte sealed short sizeof stackalloc static string struct switch throw try
+      typeof uint ulong unchecked unsafe ushort using virtual void volatile while async await var record
+      init get set value yield partial where
+    `),
+    constants: words('true false null this base'),
+    preprocessor: true,
+  },
+  ruby: {
+    lineComments: ['#'],
+    blockComments: [['=begin', '=end']],
+    strings: [str('"'), str("'")],
+    keywords: words(`
+      alias and begin break case class def defined do else elsif end ensure for if in module next not or
+      redo rescue retry return super then undef unless until when while yield require require_relative
+      attr_accessor attr_reader attr_writer private protected public
+    `),
+    constants: words('true false nil self'),
+    variables: /^@@?[A-Za-z_]\w*|^\$[A-Za-z_]\w*|^:[A-Za-z_]\w*[?!]?/,
+  },
+  php: {
+    lineComments: ['//', '#'],
+    blockComments: [['/*', '*/']],
+    strings: [str('"'), str("'")],
+    keywords: words(`
+      abstract and array as break callable case catch class clone const continue declare default do echo
+      else elseif empty enddeclare endfor endforeach endif endswitch endwhile extends final finally fn for
+      foreach function global goto if implements include include_once instanceof insteadof interface isset
+      list match namespace new or print private protected public readonly require require_once return
+      static switch throw trait try unset use var while xor yield
+    `),
+    constants: words('true false null TRUE FALSE NULL'),
+    variables: /^\$[A-Za-z_]\w*/,
+  },
+  swift: {
+    ...C_STYLE,
+    strings: [str('"""', '"""', true, true), str('"')],
+    keywords: words(`
+      associatedtype class deinit enum extension fileprivate func import init inout internal let open
+      operator private protocol public rethrows static struct subscript typealias var break case continue
+      default defer do else fallthrough for guard if in repeat return switch where while as catch is throw
+      throws try async await some any super
+    `),
+    constants: words('true false nil self Self'),
+    decorators: true,
+  },
+  shell: {
+    lineComments: ['#'],
+    blockComments: [],
+    strings: [str('"', '"', true, true), str("'", "'", false, true)],
+    keywords: words(`
+      if then else elif fi case esac for while until do done in function return local export readonly
+      declare set unset shift exit source alias
+    `),
+    constants: words('true false'),
+    variables: /^\$(?:\{[^}]*\}|[A-Za-z_]\w*|[0-9#?@*$!-])/,
+  },
+  sql: {
+    lineComments: ['--'],
+    blockComments: [['/*', '*/']],
+    strings: [str("'", "'", false, true)],
+    keywords: words(`
+      select from where insert into values update set delete create table index view drop alter add column
+      primary key foreign references not null unique default join inner left right outer full on as and or
+      in is like between group by order having limit offset union all distinct case when then else end
+      exists returning with begin commit rollback transaction if cascade constraint check asc desc
+    `),
+    constants: words('true false null'),
+    caseInsensitive: true,
+  },
+  terraform: {
+    lineComments: ['#', '//'],
+    blockComments: [['/*', '*/']],
+    strings: [str('"')],
+    keywords: words('resource data variable output module provider locals terraform for in if for_each count depends_on'),
+    constants: words('true false null'),
+  },
+  protobuf: {
+    ...C_STYLE,
+    strings: [str('"'), str("'")],
+    keywords: words(`
+      syntax package import option message enum service rpc returns repeated optional required oneof map
+      reserved extend stream public weak to max double float int32 int64 uint32 uint64 sint32 sint64
+      fixed32 fixed64 sfixed32 sfixed64 bool string bytes
+    `),
+    constants: words('true false'),
+  },
+  json: {
+    lineComments: [],
+    blockComments: [],
+    strings: [str('"')],
+    keywords: new Set(),
+    constants: words('true false null'),
+    stringKeys: true,
+  },
+  yaml: {
+    lineComments: ['#'],
+    blockComments: [],
+    strings: [str('"'), str("'")],
+    keywords: new Set(),
+    constants: words('true false null yes no on off ~'),
+    keys: /^(\s*(?:-\s+)?)([\w.-]+)(?=\s*:(?:\s|$))/,
+  },
+  toml: {
+    lineComments: ['#'],
+    blockComments: [],
+    strings: [str('"""', '"""', true, true), str("'''", "'''", false, true), str('"'), str("'", "'", false)],
+    keywords: new Set(),
+    constants: words('true false'),
+    keys: /^(\s*)([\w.-]+)(?=\s*=)/,
+  },
+};
+
+// Data formats the analyzers skip but the code views still show
+const DATA_FORMATS: Record<string, string> = {
+  '.json': 'json',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.toml': 'toml',
+};
+
+const jsx: Grammar = { ...javascript, tags: true };
+
+/** Grammar for a file by its extension, or undefined to show it uncolored */
+export function grammarFor(filePath: string): Grammar | undefined {
+  const extension = path.extname(filePath).toLowerCase();
+  // The analyzers treat JSX as plain JavaScript or TypeScript; the views color its tags
+  if (extension === '.tsx' || extension === '.jsx') return jsx;
+  const language = languageOf(filePath) ?? DATA_FORMATS[extension];
+  return language ? GRAMMARS[language] : undefined;
+}
@@ -0,0 +1,244 @@
+import type { Grammar, StringRule } from './grammars.js';
+
+export type TokenKind =
+  | 'plain'
+  | 'keyword'
+  | 'string'
+  | 'comment'
+  | 'number'
+  | 'constant'
+  | 'type'
+  | 'function'
+  | 'property'
+  | 'decorator'
+  | 'variable'
+  | 'tag'
+  | 'meta';
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+}
+
+/** A block comment or string still open at the end of a line */
+type State = { comment: string } | { string: StringRule } | null;
+
+// Minified and generated lines are shown as they are rather than scanned
+const MAX_TOKENIZED_CHARS = 2000;
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*/;
+const NUMBER = /^(?:0[xXbBoO][\da-fA-F_]+|\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d+)?)[a-zA-Z]*/;
+const CHAR_LITERAL = /^'(?:\\.[^']*|[^\\'])'/;
+const TAG = /^<\/?[A-Za-z][\w.:-]*/;
+const DECORATOR = /^@[A-Za-z_][\w.]*/;
+const DIRECTIVE = /^(\s*)(#\s*[A-Za-z]+)/;
+
+/**
+ * Splits source lines into colored tokens. Lines are scanned in order so
+ * block comments and multi-line strings carry over; a file should be
+ * tokenized whole rather than by the slice on screen. Without a grammar
+ * every line is a single plain token.
+ */
+export function tokenizeLines(lines: string[], grammar?: Grammar): Token[][] {
+  if (!grammar) return lines.map(text => [{ kind: 'plain', text }]);
+
+  let state: State = null;
+  return lines.map(line => {
+    if (line.length > MAX_TOKENIZED_CHARS) return [{ kind: 'plain', text: line }];
+    const result = tokenizeLine(line, grammar, state);
+    state = result.state;
+    return result.tokens;
+  });
+}
+
+function tokenizeLine(line: string, grammar: Grammar, state: State): { tokens: Token[]; state: State } {
+  const tokens: Token[] = [];
+  const push = (kind: TokenKind, text: string) => {
+    if (!text) return;
+    const last = tokens[tokens.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else tokens.push({ kind, text });
+  };
+  let i = 0;
+
+  // Finish whatever the previous line left open
+  if (state && 'comment' in state) {
+    const end = line.indexOf(state.comment);
+    if (end === -1) return { tokens: [{ kind: 'comment', text: line }], state };
+    i = end + state.comment.length;
+    push('comment', line.slice(0, i));
+  } else if (state) {
+    const end = closeOf(line, 0, state.string);
+    if (end === -1) return { tokens: [{ kind: 'string', text: line }], state };
+    i = end;
+    push('string', line.slice(0, i));
+  }
+
+  if (i === 0 && grammar.preprocessor) {
+    const directive = line.match(DIRECTIVE);
+    if (directive) {
+      push('plain', directive[1]);
+      push('meta', directive[2]);
+      i = directive[0].length;
+    }
+  }
+  if (i === 0 && grammar.keys) {
+    const key = line.match(grammar.keys);
+    if (key) {
+      push('plain', key[1]);
+      push('property', key[2]);
+      i = key[0].length;
+    }
+  }
+
+  // Opens the string starting at `from` (after any prefix at `i`); returns false if none does
+  const openString = (from: number): boolean | State => {
+    const rule = grammar.strings.find(r => line.startsWith(r.open, from));
+    if (!rule) return false;
+    const end = closeOf(line, from + rule.open.length, rule);
+    if (end === -1) {
+      push('string', line.slice(i));
+      i = line.length;
+      return rule.multiline ? { string: rule } : true;
+    }
+    const kind = grammar.stringKeys && /^\s*:/.test(line.slice(end)) ? 'property' : 'string';
+    push(kind, line.slice(i, end));
+    i = end;
+    return true;
+  };
+
+  while (i < line.length) {
+    const rest = line.slice(i);
+    const ch = line[i];
+    const prev = line[i - 1];
+
+    if (/\s/.test(ch)) {
+      const run = rest.match(/^\s+/)![0];
+      push('plain', run);
+      i += run.length;
+      continue;
+    }
+
+    if (grammar.variables && ch !== '#' && prev !== ':') {
+      const variable = rest.match(grammar.variables);
+      if (variable) {
+        push('variable', variable[0]);
+        i += variable[0].length;
+        continue;
+      }
+    }
+
+    if (grammar.attributes && (rest.startsWith('#[') || rest.startsWith('#!['))) {
+      const end = rest.indexOf(']');
+      const text = end === -1 ? rest : rest.slice(0, end + 1);
+      push('meta', text);
+      i += text.length;
+      continue;
+    }
+
+    // `#` starts a comment only as a word of its own, so `$#` or `a#b` stay code
+    const lineComment = grammar.lineComments.find(c =>
+      rest.startsWith(c) && (c !== '#' || i === 0 || /\s/.test(prev))
+    );
+    if (lineComment) {
+      push('comment', rest);
+      break;
+    }
+
+    const block = grammar.blockComments.find(([open]) => rest.startsWith(open));
+    if (block) {
+      const end = line.indexOf(block[1], i + block[0].length);
+      if (end === -1) {
+        push('comment', rest);
+        return { tokens, state: { comment: block[1] } };
+      }
+      push('comment', line.slice(i, end + block[1].length));
+      i = end + block[1].length;
+      continue;
+    }
+
+    if (grammar.charLiterals && ch === "'") {
+      const literal = rest.match(CHAR_LITERAL);
+      push(literal ? 'string' : 'plain', literal ? literal[0] : ch);
+      i += literal ? literal[0].length : 1;
+      continue;
+    }
+
+    const opened = openString(i);
+    if (opened) {
+      if (opened !== true) return { tokens, state: opened };
+      continue;
+    }
+
+    if (ch === '@' && grammar.decorators) {
+      const decorator = rest.match(DECORATOR);
+      if (decorator) {
+        push('decorator', decorator[0]);
+        i += decorator[0].length;
+        continue;
+      }
+    }
+
+    if (ch === '<' && grammar.tags && !/[\w$)\]]/.test(prev ?? '')) {
+      const tag = rest.match(TAG);
+      if (tag) {
+        push('tag', tag[0]);
+        i += tag[0].length;
+        continue;
+      }
+    }
+
+    if (/\d/.test(ch) && !/[\w$]/.test(prev ?? '')) {
+      const number = rest.match(NUMBER)!;
+      push('number', number[0]);
+      i += number[0].length;
+      continue;
+    }
+
+    const identifier = rest.match(IDENTIFIER);
+    if (identifier) {
+      const word = identifier[0];
+      const after = i + word.length;
+      if (grammar.stringPrefixes?.test(word)) {
+        const opened = openString(after);
+        if (opened) {
+          if (opened !== true) return { tokens, state: opened };
+          continue;
+        }
+      }
+      push(classify(word, line, after, prev, grammar), word);
+      i = after;
+      continue;
+    }
+
+    push('plain', ch);
+    i += 1;
+  }
+
+  return { tokens, state: null };
+}
+
+function classify(word: string, line: string, after: number, prev: string | undefined, grammar: Grammar): TokenKind {
+  const key = grammar.caseInsensitive ? word.toLowerCase() : word;
+  // `obj.default` or `x.type` are properties, not keywords
+  if (prev !== '.') {
+    if (grammar.keywords.has(key)) return 'keyword';
+    if (grammar.constants.has(key)) return 'constant';
+  }
+  if (/^\s*\(/.test(line.slice(after))) return 'function';
+  if (/^[A-Z][A-Z0-9_]+$/.test(word)) return 'constant';
+  if (/^[A-Z]/.test(word) && /[a-z]/.test(word)) return 'type';
+  return 'plain';
+}
+
+/** Index just past the end of a string that started before `from`, or -1 if it runs past the line */
+function closeOf(line: string, from: number, rule: StringRule): number {
+  for (let j = from; j < line.length; j++) {
+    if (rule.escape && line[j] === '\\') {
+      j++;
+      continue;
+    }
+    if (line.startsWith(rule.close, j)) return j + rule.close.length;
+  }
+  return -1;
+}
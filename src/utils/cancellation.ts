@@ -0,0 +1,20 @@
+/**
+ * Thrown when the user cancels an analysis. `reached` describes how far the
+ * run got, in a form that reads after "Cancelled " (e.g. "while analyzing
+ * files (3/7 done)").
+ */
+export class CancelledError extends Error {
+  constructor(readonly reached: string, options: { cause?: unknown } = {}) {
+    super(`Cancelled ${reached}`, { cause: options.cause });
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Throws a CancelledError if `signal` has been aborted.
+ */
+export function throwIfCancelled(signal: AbortSignal | undefined, reached: string): void {
+  if (signal?.aborted) {
+    throw new CancelledError(reached);
+  }
+}
@@ -0,0 +1,47 @@
+import { TimeoutError } from '../services/providers/errors.js';
+
+/**
+ * Maps `items` through `fn` with at most `limit` calls in flight. Results
+ * keep the input order regardless of completion order. The first rejection
+ * stops new work from starting and is rethrown once running calls settle.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failure: { error: unknown } | undefined;
+
+  const worker = async () => {
+    while (!failure && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  if (failure) throw failure.error;
+  return results;
+}
+
+/**
+ * Rejects with a TimeoutError if `promise` has not settled within `ms`.
+ * A non-positive `ms` disables the timeout.
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+  if (ms <= 0) return promise;
+
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TimeoutError(label, ms)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
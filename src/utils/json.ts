@@ -0,0 +1,13 @@
+import fs from 'node:fs/promises';
+
+/**
+ * Reads a JSON file, tolerating the comments and trailing commas that
+ * tsconfig.json and other hand-edited config files routinely contain.
+ */
+export async function readJson(file: string): Promise<any> {
+  const raw = await fs.readFile(file, 'utf-8');
+  const stripped = raw
+    .replace(/("(?:[^"\\]|\\.)*")|\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, (_, string) => string ?? '')
+    .replace(/,(\s*[}\]])/g, '$1');
+  return JSON.parse(stripped);
+}